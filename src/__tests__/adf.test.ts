@@ -0,0 +1,142 @@
+import { adf, adfToPlainText, isAdfDocument } from '../utils/adf';
+import { adfToMarkdown, markdownToAdf } from '../utils/markdown';
+
+describe('ADF', () => {
+  describe('AdfBuilder', () => {
+    it('should build a document with blocks and inline content', () => {
+      const doc = adf()
+        .heading(2, 'Release plan')
+        .paragraph((p) => p.text('Owner: ').mention('user123', 'Jane Doe').text(' see ').link('docs', 'https://example.com'))
+        .bulletList(['Freeze', (item): void => {
+          item.paragraph((p) => p.strong('Ship'));
+        }])
+        .codeBlock('npm publish', 'bash')
+        .table([['Step', 'Owner'], ['Test', 'QA']])
+        .build();
+
+      expect(isAdfDocument(doc)).toBe(true);
+      expect(doc.content).toEqual([
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Release plan' }] },
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Owner: ' },
+            { type: 'mention', attrs: { id: 'user123', text: '@Jane Doe' } },
+            { type: 'text', text: ' see ' },
+            { type: 'text', text: 'docs', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] },
+          ],
+        },
+        {
+          type: 'bulletList',
+          content: [
+            { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Freeze' }] }] },
+            {
+              type: 'listItem',
+              content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Ship', marks: [{ type: 'strong' }] }] }],
+            },
+          ],
+        },
+        { type: 'codeBlock', attrs: { language: 'bash' }, content: [{ type: 'text', text: 'npm publish' }] },
+        {
+          type: 'table',
+          content: [
+            {
+              type: 'tableRow',
+              content: [
+                { type: 'tableHeader', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Step' }] }] },
+                { type: 'tableHeader', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Owner' }] }] },
+              ],
+            },
+            {
+              type: 'tableRow',
+              content: [
+                { type: 'tableCell', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Test' }] }] },
+                { type: 'tableCell', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'QA' }] }] },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('markdownToAdf', () => {
+    it('should convert inline formatting', () => {
+      const doc = markdownToAdf('Some **bold**, _italic_, ~~old~~, `code` and [a link](https://example.com) in snake_case');
+
+      expect(doc.content[0]).toEqual({
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Some ' },
+          { type: 'text', text: 'bold', marks: [{ type: 'strong' }] },
+          { type: 'text', text: ', ' },
+          { type: 'text', text: 'italic', marks: [{ type: 'em' }] },
+          { type: 'text', text: ', ' },
+          { type: 'text', text: 'old', marks: [{ type: 'strike' }] },
+          { type: 'text', text: ', ' },
+          { type: 'text', text: 'code', marks: [{ type: 'code' }] },
+          { type: 'text', text: ' and ' },
+          { type: 'text', text: 'a link', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] },
+          { type: 'text', text: ' in snake_case' },
+        ],
+      });
+    });
+
+    it('should convert nested lists', () => {
+      const doc = markdownToAdf('- one\n  1. nested\n- two');
+
+      expect(doc.content).toEqual([
+        {
+          type: 'bulletList',
+          content: [
+            {
+              type: 'listItem',
+              content: [
+                { type: 'paragraph', content: [{ type: 'text', text: 'one' }] },
+                {
+                  type: 'orderedList',
+                  content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'nested' }] }] }],
+                },
+              ],
+            },
+            { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'two' }] }] },
+          ],
+        },
+      ]);
+    });
+
+    it('should convert line breaks inside a paragraph to hard breaks', () => {
+      expect(markdownToAdf('first\nsecond').content[0]).toEqual({
+        type: 'paragraph',
+        content: [{ type: 'text', text: 'first' }, { type: 'hardBreak' }, { type: 'text', text: 'second' }],
+      });
+    });
+  });
+
+  describe('adfToMarkdown', () => {
+    it.each([
+      ['headings and paragraphs', '# Title\n\nSome **bold** and _italic_ text.'],
+      ['nested emphasis', 'Both **_strong and em_** here'],
+      ['lists', '- one\n- two\n  - nested\n- three\n\n3. third\n4. fourth'],
+      ['code blocks', '```typescript\nconst a = 1;\n```'],
+      ['block quotes', '> quoted\n> text'],
+      ['tables', '| a | b |\n| --- | --- |\n| 1 | 2 \\| 3 |'],
+      ['escaped characters', 'Not \\*bold\\* and a \\[bracket\\]'],
+      ['links and code', 'See [the docs](https://example.com) and `npm test`'],
+    ])('should round-trip %s', (_name, markdown) => {
+      expect(adfToMarkdown(markdownToAdf(markdown))).toBe(markdown);
+    });
+  });
+
+  describe('adfToPlainText', () => {
+    it('should extract the text of a document', () => {
+      const doc = adf()
+        .heading(1, 'Title')
+        .paragraph((p) => p.text('Hello ').mention('user123', 'Jane'))
+        .bulletList(['one', 'two'])
+        .build();
+
+      expect(adfToPlainText(doc)).toBe('Title\n\nHello @Jane\n\none\ntwo');
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import axios, { AxiosInstance } from 'axios';
+import { AgileApiClient } from '../api/agile';
+import { IssuesApiClient } from '../api/issues';
+import { JiraTransport } from '../api/transport';
+import { JiraBoard, JiraClientConfig, JiraSprint } from '../types';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AgileApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const agileBaseUrl = 'https://example.atlassian.net/rest/agile/1.0';
+
+  const board: JiraBoard = {
+    id: 1,
+    self: `${agileBaseUrl}/board/1`,
+    name: 'TEST board',
+    type: 'scrum',
+  };
+
+  const sprint: JiraSprint = {
+    id: 10,
+    self: `${agileBaseUrl}/sprint/10`,
+    state: 'future',
+    name: 'Sprint 1',
+    originBoardId: 1,
+  };
+
+  let agileClient: AgileApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    agileClient = new AgileApiClient(mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('base path', () => {
+    it('should send requests to the Agile API while sharing the transport', async () => {
+      mockedAxios.create.mockClear();
+      const transport = new JiraTransport(mockConfig);
+      const issues = new IssuesApiClient(transport);
+      const agile = new AgileApiClient(transport);
+      mockAxiosInstance.get.mockResolvedValue({ data: {} });
+
+      await agile.getBoard(1);
+      await issues.getTransitions('TEST-1');
+
+      expect(mockedAxios.create).toHaveBeenCalledTimes(1);
+      expect(mockAxiosInstance.get).toHaveBeenNthCalledWith(1, '/board/1', { baseURL: agileBaseUrl });
+      expect(mockAxiosInstance.get.mock.calls[1][1]).toBeUndefined();
+    });
+  });
+
+  describe('boards', () => {
+    it('should get a page of boards with filters', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { values: [board], startAt: 0, maxResults: 50, total: 1, isLast: true },
+      });
+
+      const result = await agileClient.getBoards({ type: 'scrum', projectKeyOrId: 'TEST' });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/board', {
+        params: { startAt: 0, maxResults: 50, type: 'scrum', projectKeyOrId: 'TEST' },
+        baseURL: agileBaseUrl,
+      });
+      expect(result.values).toEqual([board]);
+      expect(result.isLast).toBe(true);
+    });
+
+    it('should iterate until the page marked as last', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { values: [board], startAt: 0, maxResults: 1, isLast: false } })
+        .mockResolvedValueOnce({ data: { values: [{ ...board, id: 2 }], startAt: 1, maxResults: 1, isLast: true } });
+
+      const ids: number[] = [];
+      for await (const item of agileClient.iterateBoards({ name: 'TEST' }, { maxResults: 1 })) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual([1, 2]);
+      expect(mockAxiosInstance.get.mock.calls[1][1].params).toEqual({ startAt: 1, maxResults: 1, name: 'TEST' });
+    });
+  });
+
+  describe('sprints', () => {
+    it('should get the sprints of a board in the given states', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { values: [sprint], startAt: 0, maxResults: 50, isLast: true },
+      });
+
+      await agileClient.getSprints(1, { state: ['active', 'future'] });
+
+      expect(mockAxiosInstance.get.mock.calls[0][0]).toBe('/board/1/sprint');
+      expect(mockAxiosInstance.get.mock.calls[0][1].params).toEqual({
+        startAt: 0,
+        maxResults: 50,
+        state: 'active,future',
+      });
+    });
+
+    it('should create a sprint with ISO dates', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: sprint });
+
+      const result = await agileClient.createSprint({
+        name: 'Sprint 1',
+        originBoardId: 1,
+        startDate: new Date('2024-02-01T09:00:00.000Z'),
+        endDate: '2024-02-15T17:00:00.000Z',
+      });
+
+      expect(result).toEqual(sprint);
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/sprint', {
+        name: 'Sprint 1',
+        originBoardId: 1,
+        startDate: '2024-02-01T09:00:00.000Z',
+        endDate: '2024-02-15T17:00:00.000Z',
+      }, { baseURL: agileBaseUrl });
+    });
+
+    it('should start and complete a sprint', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: sprint });
+
+      await agileClient.startSprint(10, { endDate: '2024-02-15T17:00:00.000Z' });
+      await agileClient.completeSprint(10);
+
+      expect(mockAxiosInstance.post.mock.calls.map(([url, body]) => [url, body])).toEqual([
+        ['/sprint/10', { endDate: '2024-02-15T17:00:00.000Z', state: 'active' }],
+        ['/sprint/10', { state: 'closed' }],
+      ]);
+    });
+
+    it('should get the issues of a sprint', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { issues: [{ id: '10000', key: 'TEST-1' }], total: 1, startAt: 0, maxResults: 50 },
+      });
+
+      const result = await agileClient.getSprintIssues(10, { jql: 'status = Done', fields: ['summary', 'status'] });
+
+      expect(mockAxiosInstance.get.mock.calls[0][1].params).toEqual({
+        startAt: 0,
+        maxResults: 50,
+        jql: 'status = Done',
+        fields: 'summary,status',
+      });
+      expect(result.values.map((issue) => issue.key)).toEqual(['TEST-1']);
+      expect(result.total).toBe(1);
+    });
+  });
+
+  describe('moving issues', () => {
+    it('should move issues into a sprint in requests of 50', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: undefined });
+      const keys = Array.from({ length: 51 }, (_, index) => `TEST-${index + 1}`);
+
+      await agileClient.moveIssuesToSprint(10, keys);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.post.mock.calls[0][1].issues).toHaveLength(50);
+      expect(mockAxiosInstance.post.mock.calls[1]).toEqual(['/sprint/10/issue', { issues: ['TEST-51'] }, { baseURL: agileBaseUrl }]);
+    });
+
+    it('should move issues to the backlog and out of their epic', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: undefined });
+
+      await agileClient.moveIssuesToBacklog(['TEST-1']);
+      await agileClient.removeIssuesFromEpic(['TEST-2']);
+
+      expect(mockAxiosInstance.post.mock.calls.map(([url, body]) => [url, body])).toEqual([
+        ['/backlog/issue', { issues: ['TEST-1'] }],
+        ['/epic/none/issue', { issues: ['TEST-2'] }],
+      ]);
+    });
+  });
+
+  describe('rankIssues', () => {
+    it('should keep the order of issues across requests and report failures', async () => {
+      mockAxiosInstance.put
+        .mockResolvedValueOnce({ data: '' })
+        .mockResolvedValueOnce({
+          data: { entries: [{ issueId: 10051, issueKey: 'TEST-51', status: 400, errors: ['Cannot rank'] }] },
+        });
+      const keys = Array.from({ length: 51 }, (_, index) => `TEST-${index + 1}`);
+
+      const failed = await agileClient.rankIssues(keys, { before: 'TEST-100', rankCustomFieldId: 10019 });
+
+      expect(mockAxiosInstance.put.mock.calls[0][1]).toEqual({
+        issues: keys.slice(0, 50),
+        rankBeforeIssue: 'TEST-100',
+        rankCustomFieldId: 10019,
+      });
+      expect(mockAxiosInstance.put.mock.calls[1][1]).toEqual({
+        issues: ['TEST-51'],
+        rankAfterIssue: 'TEST-50',
+        rankCustomFieldId: 10019,
+      });
+      expect(failed).toEqual([{ issueId: 10051, issueKey: 'TEST-51', status: 400, errors: ['Cannot rank'] }]);
+    });
+
+    it('should require a position', async () => {
+      await expect(agileClient.rankIssues(['TEST-1'], {})).rejects.toThrow('Either before or after is required');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import axios, { AxiosInstance } from 'axios';
+import FormData from 'form-data';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { AttachmentsApiClient } from '../api/attachments';
+import { JiraAttachment, JiraClientConfig } from '../types';
+import { JiraError } from '../utils/error';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+/**
+ * Read a multipart form into a string
+ * @param form - The form
+ * @returns The encoded form
+ */
+function readForm(form: FormData): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    form.on('data', (chunk: Buffer | string) => chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk));
+    form.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    form.on('error', reject);
+    form.resume();
+  });
+}
+
+describe('AttachmentsApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const attachment: JiraAttachment = {
+    id: '10000',
+    self: 'https://example.atlassian.net/rest/api/3/attachment/10000',
+    filename: 'report.txt',
+    created: '2024-01-01T00:00:00.000Z',
+    size: 6,
+    mimeType: 'text/plain',
+    content: 'https://example.atlassian.net/rest/api/3/attachment/content/10000',
+  };
+
+  let attachmentsClient: AttachmentsApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+  let dir: string;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    attachmentsClient = new AttachmentsApiClient(mockConfig);
+    dir = mkdtempSync(join(tmpdir(), 'jira-attachments-'));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('addAttachments', () => {
+    it('should upload files as multipart form data', async () => {
+      const path = join(dir, 'report.txt');
+      writeFileSync(path, 'report');
+      mockAxiosInstance.post.mockResolvedValue({ data: [attachment] });
+
+      const result = await attachmentsClient.addAttachments('TEST-1', [
+        path,
+        { content: Buffer.from('{}'), filename: 'data.json' },
+        { content: Readable.from(['log line']), filename: 'app.log', contentType: 'text/plain', knownLength: 8 },
+      ]);
+
+      expect(result).toEqual([attachment]);
+      const [url, form, config] = mockAxiosInstance.post.mock.calls[0];
+      expect(url).toBe('/issue/TEST-1/attachments');
+      expect(form).toBeInstanceOf(FormData);
+      expect(config.headers).toEqual({ 'X-Atlassian-Token': 'no-check' });
+
+      const body = await readForm(form);
+      expect(body).toContain('filename="report.txt"\r\nContent-Type: text/plain\r\n\r\nreport');
+      expect(body).toContain('filename="data.json"\r\nContent-Type: application/json\r\n\r\n{}');
+      expect(body).toContain('filename="app.log"\r\nContent-Type: text/plain\r\n\r\nlog line');
+    });
+
+    it('should renew the credentials after a 401 without replaying the consumed upload', async () => {
+      const authProvider = {
+        getHeaders: jest.fn().mockResolvedValue({ 'Authorization': 'Bearer old' }),
+        refresh: jest.fn().mockResolvedValue(true),
+      };
+      const client = new AttachmentsApiClient({ baseUrl: mockConfig.baseUrl, authProvider });
+      mockAxiosInstance.post.mockRejectedValue(new JiraError('Unauthorized', 401));
+
+      const upload = client.addAttachments('TEST-1', { content: Readable.from(['log line']), filename: 'app.log' });
+
+      await expect(upload).rejects.toMatchObject({ status: 401 });
+      expect(authProvider.refresh).toHaveBeenCalledTimes(1);
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getIssueAttachments', () => {
+    it('should get the attachments of an issue', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { fields: { attachment: [attachment] } } });
+
+      const result = await attachmentsClient.getIssueAttachments('TEST-1');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issue/TEST-1', { params: { fields: 'attachment' } });
+      expect(result).toEqual([attachment]);
+    });
+  });
+
+  describe('downloadAttachment', () => {
+    it('should request the content as a stream', async () => {
+      const content = Readable.from(['report']);
+      mockAxiosInstance.get.mockResolvedValue({ data: content });
+
+      const result = await attachmentsClient.downloadAttachment('10000');
+
+      expect(result).toBe(content);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/attachment/content/10000', {
+        params: { redirect: false },
+        headers: { 'Accept': '*/*' },
+        responseType: 'stream',
+      });
+    });
+
+    it('should save the content to a file', async () => {
+      const path = join(dir, 'download.txt');
+      mockAxiosInstance.get.mockResolvedValue({ data: Readable.from([Buffer.from('report')]) });
+
+      await attachmentsClient.saveAttachment('10000', path);
+
+      expect(readFileSync(path, 'utf8')).toBe('report');
+    });
+  });
+
+  describe('deleteAttachment', () => {
+    it('should delete an attachment', async () => {
+      mockAxiosInstance.delete.mockResolvedValue({ data: undefined });
+
+      await attachmentsClient.deleteAttachment('10000');
+
+      expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/attachment/10000', undefined);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import axios, { AxiosInstance } from 'axios';
+import { JiraClient } from '../index';
+import { JiraClientConfig } from '../types';
+import { OAuth2AuthProvider } from '../utils/auth';
+import { createConfigFromEnv } from '../utils/config';
+import { JiraError } from '../utils/error';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('OAuth2AuthProvider', () => {
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn().mockResolvedValue({ status: 200, headers: {}, data: { accountId: 'user123' } }),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    mockedAxios.post.mockResolvedValue({
+      data: { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 3600 },
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should use the cloud ID base URL and send the access token with each request', async () => {
+    const authProvider = new OAuth2AuthProvider({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      expiresAt: Date.now() + 3600 * 1000,
+    });
+    const client = new JiraClient({ cloudId: 'cloud-123', authProvider });
+
+    await client.users.getCurrentUser();
+
+    expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({
+      baseURL: 'https://api.atlassian.com/ex/jira/cloud-123/rest/api/3',
+      headers: expect.not.objectContaining({ 'Authorization': expect.anything() }),
+    }));
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/myself', {
+      headers: { 'Authorization': 'Bearer access' },
+    });
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+
+  it('should refresh the access token before it expires and report the new tokens', async () => {
+    const onTokenRefresh = jest.fn();
+    const authProvider = new OAuth2AuthProvider({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      expiresAt: Date.now() + 1000,
+      onTokenRefresh,
+    });
+    const client = new JiraClient({ cloudId: 'cloud-123', authProvider });
+
+    await client.users.getCurrentUser();
+
+    expect(mockedAxios.post).toHaveBeenCalledWith('https://auth.atlassian.com/oauth/token', {
+      grant_type: 'refresh_token',
+      client_id: 'client-id',
+      client_secret: 'client-secret',
+      refresh_token: 'refresh',
+    }, expect.any(Object));
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/myself', {
+      headers: { 'Authorization': 'Bearer new-access' },
+    });
+    expect(onTokenRefresh).toHaveBeenCalledWith(expect.objectContaining({
+      accessToken: 'new-access',
+      refreshToken: 'new-refresh',
+    }));
+  });
+
+  it('should refresh the access token and replay the request after a 401', async () => {
+    const authProvider = new OAuth2AuthProvider({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      accessToken: 'revoked',
+      refreshToken: 'refresh',
+    });
+    const client = new JiraClient({ cloudId: 'cloud-123', authProvider });
+
+    mockAxiosInstance.get.mockRejectedValueOnce(new JiraError('Unauthorized', 401));
+
+    await expect(client.users.getCurrentUser()).resolves.toEqual({ accountId: 'user123' });
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    expect(mockAxiosInstance.get).toHaveBeenLastCalledWith('/myself', {
+      headers: { 'Authorization': 'Bearer new-access' },
+    });
+    expect(authProvider.getTokens().refreshToken).toBe('new-refresh');
+  });
+
+  it('should require credentials', () => {
+    expect(() => new JiraClient({ baseUrl: 'https://example.atlassian.net' })).toThrow(
+      'Either auth, token or authProvider is required'
+    );
+  });
+});
+
+describe('auth modes', () => {
+  const baseUrl = 'https://jira.example.com';
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn().mockResolvedValue({ status: 200, headers: {}, data: { name: 'jdoe' } }),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send a personal access token as a bearer token', () => {
+    const _client = new JiraClient({ baseUrl, apiVersion: 2, auth: { type: 'pat', token: 'pat-token' } });
+
+    expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({
+      baseURL: 'https://jira.example.com/rest/api/2',
+      headers: expect.objectContaining({ 'Authorization': 'Bearer pat-token' }),
+    }));
+  });
+
+  it('should send a custom authentication header', () => {
+    const _client = new JiraClient({ baseUrl, auth: { type: 'header', name: 'X-Api-Key', value: 'secret' } });
+
+    expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({
+      headers: expect.objectContaining({ 'X-Api-Key': 'secret' }),
+    }));
+  });
+
+  it('should log in with a session cookie and log in again when the session expires', async () => {
+    mockedAxios.post
+      .mockResolvedValueOnce({ data: { session: { name: 'JSESSIONID', value: 'first' } } })
+      .mockResolvedValueOnce({ data: { session: { name: 'JSESSIONID', value: 'second' } } });
+    mockAxiosInstance.get
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { name: 'jdoe' } })
+      .mockRejectedValueOnce(new JiraError('Unauthorized', 401));
+
+    const client = new JiraClient({ baseUrl, auth: { type: 'session', username: 'jdoe', password: 'secret' } });
+
+    await client.users.getCurrentUser();
+    await client.users.getCurrentUser();
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'https://jira.example.com/rest/auth/1/session',
+      { username: 'jdoe', password: 'secret' },
+      expect.any(Object)
+    );
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(mockAxiosInstance.get.mock.calls.map((call) => call[1].headers['Cookie'])).toEqual([
+      'JSESSIONID=first',
+      'JSESSIONID=first',
+      'JSESSIONID=second',
+    ]);
+  });
+
+  it.each([
+    [{ type: 'basic', email: 'jdoe@example.com' }, 'basic authentication requires auth.token'],
+    [{ type: 'pat' }, 'pat authentication requires auth.token'],
+    [{ type: 'session', username: 'jdoe' }, 'session authentication requires auth.password'],
+    [{ type: 'header' }, 'header authentication requires auth.name and auth.value'],
+    [{ type: 'kerberos' }, 'Unsupported authentication type: kerberos'],
+  ])('should reject incomplete auth config %j', (auth, message) => {
+    const config = { baseUrl, auth } as unknown as JiraClientConfig;
+
+    expect(() => new JiraClient(config)).toThrow(message);
+  });
+
+  describe('createConfigFromEnv', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+      process.env = { ...env, JIRA_BASE_URL: baseUrl, JIRA_TOKEN: 'api-token' };
+      delete process.env.JIRA_EMAIL;
+      delete process.env.JIRA_AUTH_TYPE;
+    });
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('should use basic authentication when JIRA_AUTH_TYPE is basic', () => {
+      process.env.JIRA_AUTH_TYPE = 'basic';
+      process.env.JIRA_EMAIL = 'jdoe@example.com';
+
+      expect(createConfigFromEnv().auth).toEqual({ type: 'basic', email: 'jdoe@example.com', token: 'api-token' });
+    });
+
+    it('should require JIRA_EMAIL for basic authentication', () => {
+      process.env.JIRA_AUTH_TYPE = 'basic';
+
+      expect(() => createConfigFromEnv()).toThrow('JIRA_EMAIL environment variable is required for basic authentication');
+    });
+
+    it('should reject an unknown JIRA_AUTH_TYPE', () => {
+      process.env.JIRA_AUTH_TYPE = 'oauth';
+
+      expect(() => createConfigFromEnv()).toThrow('Unsupported JIRA_AUTH_TYPE: oauth');
+    });
+  });
+});
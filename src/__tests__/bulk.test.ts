@@ -0,0 +1,55 @@
+import { chunk, runBulk } from '../utils/bulk';
+import { JiraError } from '../utils/error';
+
+describe('runBulk', () => {
+  it('should run every task and report successes and failures in input order', async () => {
+    const result = await runBulk([1, 2, 3, 4], async (item) => {
+      if (item % 2 === 0) {
+        throw new JiraError('Even', 400, { item: 'must be odd' });
+      }
+
+      return item * 10;
+    });
+
+    expect(result.results.map((item) => item.status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'rejected']);
+    expect(result.succeeded.map((item) => item.value)).toEqual([10, 30]);
+    expect(result.failed.map((item) => [item.index, item.item, item.error.errors])).toEqual([
+      [1, 2, { item: 'must be odd' }],
+      [3, 4, { item: 'must be odd' }],
+    ]);
+  });
+
+  it('should wrap other errors in a JiraError', async () => {
+    const result = await runBulk(['a'], async () => {
+      throw new Error('Boom');
+    });
+
+    expect(result.failed[0].error).toBeInstanceOf(JiraError);
+    expect(result.failed[0].error.message).toBe('Boom');
+  });
+
+  it('should limit the number of tasks running at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await runBulk(Array.from({ length: 10 }, (_, index) => index), async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    }, 3);
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should handle no items', async () => {
+    expect(await runBulk([], async () => undefined)).toEqual({ results: [], succeeded: [], failed: [] });
+  });
+});
+
+describe('chunk', () => {
+  it('should split items into chunks of at most the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
@@ -32,15 +32,28 @@ describe('JiraClient', () => {
     expect(client.projects).toBeDefined();
     expect(client.users).toBeDefined();
     
-    expect(mockedAxios.create).toHaveBeenCalledTimes(3);
+    expect(mockedAxios.create).toHaveBeenCalledTimes(1);
     expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({
       baseURL: 'https://example.atlassian.net/rest/api/3',
       headers: expect.objectContaining({
         'Authorization': 'Bearer test-token',
-        'Content-Type': 'application/json',
         'Accept': 'application/json',
       }),
     }));
+    // Axios picks the Content-Type per request, so JSON and multipart bodies both work
+    expect(mockedAxios.create.mock.calls[0][0]?.headers).not.toHaveProperty('Content-Type');
+  });
+
+  it('should share a single transport between the API clients', async () => {
+    const client = new JiraClient(mockConfig);
+    const instance = mockedAxios.create.mock.results[0].value;
+
+    await client.issues.getTransitions('TEST-1');
+    await client.users.getCurrentUser();
+
+    expect(instance.get).toHaveBeenCalledWith('/issue/TEST-1/transitions', undefined);
+    expect(instance.get).toHaveBeenCalledWith('/myself', undefined);
+    expect(client.limiter).toBe(client.transport.limiter);
   });
 
   it('should create a client with custom API version', () => {
@@ -81,9 +94,21 @@ describe('JiraClient', () => {
     expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({
       headers: expect.objectContaining({
         'Authorization': 'Basic ' + Buffer.from('test@example.com:test-token').toString('base64'),
-        'Content-Type': 'application/json',
         'Accept': 'application/json',
       }),
     }));
   });
+
+  it('should generate release notes with its own API clients', async () => {
+    const client = new JiraClient(mockConfig);
+    const instance = mockedAxios.create.mock.results[0].value;
+    instance.get.mockResolvedValue({ data: [{ id: '10100', name: '2.4.0', projectId: 10000, archived: false, released: true }] });
+    instance.post.mockResolvedValue({ data: { issues: [], total: 0, startAt: 0, maxResults: 50 } });
+
+    const notes = await client.generateReleaseNotes('TEST', '2.4.0', { format: 'json' });
+
+    expect(instance.get).toHaveBeenCalledWith('/project/TEST/versions', undefined);
+    expect(instance.post.mock.calls[0][1].jql).toBe('project = "TEST" AND fixVersion = 10100 ORDER BY key ASC');
+    expect(notes.issueCount).toBe(0);
+  });
 }); 
\ No newline at end of file
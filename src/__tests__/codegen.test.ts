@@ -0,0 +1,163 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FieldsApiClient } from '../api/fields';
+import { IssuesApiClient } from '../api/issues';
+import { parseCodegenArgs, runCodegen } from '../cli/codegen';
+import { JiraFieldMetadata } from '../types';
+import { fetchFieldMetadata, generateFieldTypes, toFieldName } from '../utils/codegen';
+
+describe('codegen', () => {
+  const metadata: JiraFieldMetadata = {
+    fields: [
+      { id: 'summary', name: 'Summary', custom: false, schema: { type: 'string', system: 'summary' } },
+      { id: 'customfield_10016', name: 'Story Points', custom: true, schema: { type: 'number', customId: 10016 } },
+      { id: 'customfield_10001', name: 'Team', custom: true, schema: { type: 'option', customId: 10001 } },
+      { id: 'customfield_10002', name: 'Team', custom: true, schema: { type: 'string', customId: 10002 } },
+      { id: 'customfield_10003', name: 'Summary', custom: true, schema: { type: 'string', customId: 10003 } },
+      {
+        id: 'customfield_10004',
+        name: 'Reviewers',
+        custom: true,
+        schema: { type: 'array', items: 'user', customId: 10004 },
+      },
+    ],
+    projects: [
+      {
+        key: 'PROJ',
+        issueTypes: [
+          {
+            id: '10001',
+            name: 'Sub-task',
+            description: '',
+            iconUrl: '',
+            self: '',
+            subtask: true,
+            fields: [
+              { fieldId: 'summary', name: 'Summary', required: true, schema: { type: 'string', system: 'summary' } },
+              {
+                fieldId: 'description',
+                name: 'Description',
+                required: false,
+                schema: { type: 'string', system: 'description' },
+              },
+              { fieldId: 'customfield_10016', name: 'Story Points', required: false, schema: { type: 'number' } },
+              {
+                fieldId: 'issuetype',
+                name: 'Issue Type',
+                required: true,
+                hasDefaultValue: true,
+                schema: { type: 'issuetype', system: 'issuetype' },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  describe('toFieldName', () => {
+    it('should convert field names to camelCase identifiers', () => {
+      expect(toFieldName('Story Points')).toBe('storyPoints');
+      expect(toFieldName('Epic-Link')).toBe('epicLink');
+      expect(toFieldName('3rd party ID')).toBe('field3rdPartyId');
+      expect(toFieldName('???')).toBe('');
+    });
+  });
+
+  describe('generateFieldTypes', () => {
+    const source = generateFieldTypes(metadata);
+
+    it('should generate a typed custom field map', () => {
+      expect(source).toContain("import { AdfDocument, customField } from 'jira-api-client';");
+      expect(source).toContain("  storyPoints: customField<number>('customfield_10016'),");
+      expect(source).toContain("  reviewers: customField<{ accountId: string }[]>('customfield_10004'),");
+      expect(source).toContain('export type CustomFields = typeof customFields;');
+    });
+
+    it('should give colliding custom fields unique names', () => {
+      expect(source).toContain("  team10001: customField<{ id?: string; value?: string }>('customfield_10001'),");
+      expect(source).toContain("  team10002: customField<string>('customfield_10002'),");
+      expect(source).toContain("  summary10003: customField<string>('customfield_10003'),");
+    });
+
+    it('should generate an interface per project and issue type', () => {
+      expect(source).toContain([
+        'export interface ProjSubTaskFields {',
+        '  /** Summary */',
+        '  summary: string;',
+        '  /** Description */',
+        '  description?: string | AdfDocument;',
+        '  /** Story Points */',
+        '  storyPoints?: number;',
+        '  /** Issue Type */',
+        '  issuetype?: { id?: string; name?: string };',
+        '}',
+      ].join('\n'));
+    });
+
+    it('should import from the given module', () => {
+      expect(generateFieldTypes({ fields: [], projects: [] }, { importFrom: '../src' }))
+        .toContain("import { customField } from '../src';");
+    });
+  });
+
+  describe('fetchFieldMetadata', () => {
+    it('should fetch the fields and the create metadata of each project', async () => {
+      const [issueType] = metadata.projects[0].issueTypes;
+      const { fields: issueTypeFields, ...issueTypeDetails } = issueType;
+      const fields = { getFields: jest.fn().mockResolvedValue(metadata.fields) };
+      const issues = {
+        getCreateMetaIssueTypes: jest.fn().mockResolvedValue({
+          values: [issueTypeDetails], startAt: 0, maxResults: 50, total: 1, isLast: true,
+        }),
+        getCreateMetaFields: jest.fn().mockResolvedValue({
+          values: issueTypeFields, startAt: 0, maxResults: 50, total: issueTypeFields.length, isLast: true,
+        }),
+      };
+
+      const result = await fetchFieldMetadata(
+        { fields: fields as unknown as FieldsApiClient, issues: issues as unknown as IssuesApiClient },
+        ['PROJ']
+      );
+
+      expect(issues.getCreateMetaFields).toHaveBeenCalledWith('PROJ', '10001', expect.any(Object));
+      expect(result).toEqual(metadata);
+    });
+  });
+
+  describe('jira-codegen', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'jira-codegen-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should parse its arguments', () => {
+      expect(parseCodegenArgs(['-p', 'A,B', '--project', 'C', '-i', 'meta.json', '-o', 'fields.ts'])).toEqual({
+        projects: ['A', 'B', 'C'],
+        input: 'meta.json',
+        output: 'fields.ts',
+        help: false,
+      });
+      expect(() => parseCodegenArgs(['--output'])).toThrow('missing value: --output');
+      expect(() => parseCodegenArgs(['--unknown', 'x'])).toThrow('Unknown option: --unknown');
+    });
+
+    it('should generate types from a saved metadata file offline', async () => {
+      const input = join(dir, 'metadata.json');
+      const output = join(dir, 'fields.ts');
+      writeFileSync(input, JSON.stringify(metadata));
+
+      await runCodegen(['--input', input, '--output', output, '--project', 'OTHER']);
+
+      const source = readFileSync(output, 'utf8');
+      expect(source).toContain('export const customFields = {');
+      expect(source).not.toContain('ProjSubTaskFields');
+    });
+  });
+});
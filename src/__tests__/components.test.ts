@@ -0,0 +1,89 @@
+import axios, { AxiosInstance } from 'axios';
+import { ComponentsApiClient } from '../api/components';
+import { JiraClientConfig, JiraComponent } from '../types';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('ComponentsApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const component: JiraComponent = {
+    id: '10200',
+    self: 'https://example.atlassian.net/rest/api/3/component/10200',
+    name: 'Backend',
+    assigneeType: 'COMPONENT_LEAD',
+    project: 'TEST',
+    projectId: 10000,
+  };
+
+  let componentsClient: ComponentsApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    componentsClient = new ComponentsApiClient(mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should iterate over the components of a project', async () => {
+    mockAxiosInstance.get
+      .mockResolvedValueOnce({ data: { values: [component], startAt: 0, maxResults: 1, total: 2, isLast: false } })
+      .mockResolvedValueOnce({ data: { values: [{ ...component, id: '10201' }], startAt: 1, maxResults: 1, total: 2, isLast: true } });
+
+    const ids: string[] = [];
+    for await (const item of componentsClient.iterateComponents('TEST', { maxResults: 1 })) {
+      ids.push(item.id);
+    }
+
+    expect(ids).toEqual(['10200', '10201']);
+    expect(mockAxiosInstance.get.mock.calls[1][0]).toBe('/project/TEST/component');
+  });
+
+  it('should create and update a component', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: component });
+    mockAxiosInstance.put.mockResolvedValue({ data: component });
+
+    await componentsClient.createComponent({ name: 'Backend', project: 'TEST', leadAccountId: 'abc', assigneeType: 'COMPONENT_LEAD' });
+    await componentsClient.updateComponent('10200', { description: 'Services and APIs' });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith('/component', {
+      name: 'Backend',
+      project: 'TEST',
+      leadAccountId: 'abc',
+      assigneeType: 'COMPONENT_LEAD',
+    }, undefined);
+    expect(mockAxiosInstance.put).toHaveBeenCalledWith('/component/10200', { description: 'Services and APIs' }, undefined);
+  });
+
+  it('should delete a component, moving its issues to another', async () => {
+    mockAxiosInstance.delete.mockResolvedValue({ data: undefined });
+
+    await componentsClient.deleteComponent('10200', '10201');
+    await componentsClient.deleteComponent('10201');
+
+    expect(mockAxiosInstance.delete).toHaveBeenNthCalledWith(1, '/component/10200', { params: { moveIssuesTo: '10201' } });
+    expect(mockAxiosInstance.delete).toHaveBeenNthCalledWith(2, '/component/10201', undefined);
+  });
+
+  it('should get the number of issues with a component', async () => {
+    mockAxiosInstance.get.mockResolvedValue({ data: { issueCount: 7 } });
+
+    await expect(componentsClient.getRelatedIssueCount('10200')).resolves.toBe(7);
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/component/10200/relatedIssueCounts', undefined);
+  });
+});
@@ -0,0 +1,51 @@
+import { formatDuration, parseDuration } from '../utils/duration';
+
+describe('parseDuration', () => {
+  it('should parse every unit with the default time tracking settings', () => {
+    expect(parseDuration('1w 2d 3h 30m')).toBe(5 * 8 * 3600 + 2 * 8 * 3600 + 3 * 3600 + 30 * 60);
+  });
+
+  it('should accept decimals, missing spaces and upper case', () => {
+    expect(parseDuration('1.5h')).toBe(5400);
+    expect(parseDuration('2H30M')).toBe(9000);
+    expect(parseDuration(' 1d ')).toBe(28800);
+  });
+
+  it('should read a bare number as minutes', () => {
+    expect(parseDuration('45')).toBe(2700);
+  });
+
+  it('should use the given time tracking settings', () => {
+    expect(parseDuration('1w 1d', { hoursPerDay: 24, daysPerWeek: 7 })).toBe(8 * 24 * 3600);
+  });
+
+  it('should reject invalid durations', () => {
+    expect(() => parseDuration('')).toThrow('Invalid duration ""');
+    expect(() => parseDuration('1y')).toThrow('Invalid duration "1y"');
+    expect(() => parseDuration('1h and 2m')).toThrow('Invalid duration');
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format seconds with the largest units first', () => {
+    expect(formatDuration(5 * 8 * 3600 + 2 * 8 * 3600 + 3 * 3600 + 30 * 60)).toBe('1w 2d 3h 30m');
+    expect(formatDuration(3600 + 60)).toBe('1h 1m');
+  });
+
+  it('should round to minutes and format zero as 0m', () => {
+    expect(formatDuration(89)).toBe('1m');
+    expect(formatDuration(29)).toBe('0m');
+  });
+
+  it('should use the given time tracking settings', () => {
+    expect(formatDuration(24 * 3600, { hoursPerDay: 24 })).toBe('1d');
+  });
+
+  it('should round-trip parsed durations', () => {
+    expect(formatDuration(parseDuration('2w 4d 7h 59m'))).toBe('2w 4d 7h 59m');
+  });
+
+  it('should reject negative durations', () => {
+    expect(() => formatDuration(-60)).toThrow('Invalid duration: -60 seconds');
+  });
+});
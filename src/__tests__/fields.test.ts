@@ -0,0 +1,108 @@
+import axios, { AxiosInstance } from 'axios';
+import { FieldsApiClient } from '../api/fields';
+import { JiraClientConfig, JiraField } from '../types';
+import { CustomFieldMapper, customField } from '../utils/fields';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('CustomFieldMapper', () => {
+  const mapper = new CustomFieldMapper({
+    storyPoints: customField<number>('customfield_10016'),
+    team: customField<{ id: string }>('customfield_10001'),
+  });
+
+  it('should translate friendly field names to IDs', () => {
+    expect(mapper.toApiNames(['summary', 'storyPoints', 'customfield_10001'])).toEqual([
+      'summary',
+      'customfield_10016',
+      'customfield_10001',
+    ]);
+  });
+
+  it('should key fields by ID for the API', () => {
+    expect(mapper.toApiFields({ summary: 'Test', storyPoints: 5, team: null })).toEqual({
+      summary: 'Test',
+      customfield_10016: 5,
+      customfield_10001: null,
+    });
+  });
+
+  it('should key issue fields returned by the API by friendly name', () => {
+    const issue = { id: '10000', fields: { summary: 'Test', customfield_10016: 3, customfield_99999: 'x' } };
+
+    expect(mapper.fromApiIssue(issue)).toEqual({
+      id: '10000',
+      fields: { summary: 'Test', storyPoints: 3, customfield_99999: 'x' },
+    });
+    expect(issue.fields).toHaveProperty('customfield_10016', 3);
+  });
+
+  it('should leave fields untouched without custom fields', () => {
+    const empty = new CustomFieldMapper({});
+    const issue = { id: '10000', fields: { customfield_10016: 3 } };
+
+    expect(empty.fromApiIssue(issue)).toBe(issue);
+    expect(empty.toApiNames(['customfield_10016'])).toEqual(['customfield_10016']);
+  });
+});
+
+describe('FieldsApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const fields: JiraField[] = [
+    { id: 'summary', name: 'Summary', custom: false, clauseNames: ['summary'] },
+    {
+      id: 'customfield_10016',
+      name: 'Story Points',
+      custom: true,
+      clauseNames: ['cf[10016]', 'Story Points'],
+      schema: { type: 'number', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:float', customId: 10016 },
+    },
+    { id: 'customfield_10020', name: 'Sprint', custom: true, clauseNames: ['cf[10020]', 'Sprint'] },
+  ];
+
+  let fieldsClient: FieldsApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    fieldsClient = new FieldsApiClient(mockConfig);
+    mockAxiosInstance.get.mockResolvedValue({ data: fields });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should get all fields', async () => {
+    const result = await fieldsClient.getFields();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/field', undefined);
+    expect(result).toEqual(fields);
+  });
+
+  it('should get only custom fields', async () => {
+    const result = await fieldsClient.getCustomFields();
+
+    expect(result.map((field) => field.id)).toEqual(['customfield_10016', 'customfield_10020']);
+  });
+
+  it('should find a field by ID, name or clause name', async () => {
+    expect((await fieldsClient.findField('customfield_10020'))?.name).toBe('Sprint');
+    expect((await fieldsClient.findField('story points'))?.id).toBe('customfield_10016');
+    expect((await fieldsClient.findField('cf[10016]'))?.id).toBe('customfield_10016');
+    expect(await fieldsClient.findField('Unknown')).toBeUndefined();
+  });
+});
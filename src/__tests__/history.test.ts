@@ -0,0 +1,83 @@
+import { JiraChangelogEntry } from '../types';
+import { getFieldChanges, getFieldValuesAt, sortChangelog } from '../utils/history';
+
+describe('history', () => {
+  const author = { accountId: 'abc', displayName: 'Ada', self: 'https://example.atlassian.net/rest/api/3/user?accountId=abc' };
+
+  // Newest first, like the expanded changelog of an issue
+  const histories: JiraChangelogEntry[] = [
+    {
+      id: '102',
+      author,
+      created: '2024-02-03T09:00:00.000+0000',
+      items: [
+        { field: 'status', fieldtype: 'jira', fieldId: 'status', from: '3', fromString: 'In Progress', to: '10001', toString: 'Done' },
+      ],
+    },
+    {
+      id: '101',
+      created: '2024-02-02T09:00:00.000+0000',
+      items: [
+        { field: 'status', fieldtype: 'jira', fieldId: 'status', from: '1', fromString: 'To Do', to: '3', toString: 'In Progress' },
+        { field: 'assignee', fieldtype: 'jira', fieldId: 'assignee', from: null, fromString: null, to: 'abc', toString: 'Ada' },
+      ],
+    },
+    {
+      id: '100',
+      author,
+      created: '2024-02-01T09:00:00.000+0000',
+      items: [
+        { field: 'Story Points', fieldtype: 'custom', fieldId: 'customfield_10016', from: null, fromString: null, to: '3', toString: '3' },
+      ],
+    },
+  ];
+
+  describe('sortChangelog', () => {
+    it('should sort entries oldest first without changing the input', () => {
+      expect(sortChangelog(histories).map((entry) => entry.id)).toEqual(['100', '101', '102']);
+      expect(histories[0].id).toBe('102');
+    });
+  });
+
+  describe('getFieldChanges', () => {
+    it('should flatten the changes of the given fields with who made them', () => {
+      const changes = getFieldChanges(histories, ['status']);
+
+      expect(changes.map((change) => [change.changelogId, change.from.displayValue, change.to.displayValue])).toEqual([
+        ['101', 'To Do', 'In Progress'],
+        ['102', 'In Progress', 'Done'],
+      ]);
+      expect(changes[1].author).toEqual(author);
+    });
+
+    it('should match fields by name', () => {
+      expect(getFieldChanges(histories, ['Story Points']).map((change) => change.fieldId)).toEqual(['customfield_10016']);
+    });
+  });
+
+  describe('getFieldValuesAt', () => {
+    it('should rebuild the field values at a point in time', () => {
+      expect(getFieldValuesAt(histories, new Date('2024-02-02T12:00:00.000Z'))).toEqual({
+        customfield_10016: { value: '3', displayValue: '3' },
+        status: { value: '3', displayValue: 'In Progress' },
+        assignee: { value: 'abc', displayValue: 'Ada' },
+      });
+    });
+
+    it('should use the value a field was first changed from before its first change', () => {
+      expect(getFieldValuesAt(histories, '2024-01-31T00:00:00.000+0000')).toEqual({
+        customfield_10016: { value: null, displayValue: null },
+        status: { value: '1', displayValue: 'To Do' },
+        assignee: { value: null, displayValue: null },
+      });
+    });
+
+    it('should include changes made exactly at the point in time', () => {
+      expect(getFieldValuesAt(histories, Date.parse('2024-02-03T09:00:00.000Z')).status.displayValue).toBe('Done');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => getFieldValuesAt(histories, 'yesterday')).toThrow('Invalid date: yesterday');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import axios, { AxiosInstance } from 'axios';
+import { IssueLinksApiClient } from '../api/issue-links';
+import { JiraClientConfig, JiraIssueLinkType } from '../types';
+import { markdownToAdf } from '../utils/markdown';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('IssueLinksApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const blocks: JiraIssueLinkType = { id: '10000', name: 'Blocks', inward: 'is blocked by', outward: 'blocks' };
+  const relates: JiraIssueLinkType = { id: '10003', name: 'Relates', inward: 'relates to', outward: 'relates to' };
+
+  let linksClient: IssueLinksApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    linksClient = new IssueLinksApiClient(mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getLinkTypes', () => {
+    it('should get the issue link types', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { issueLinkTypes: [blocks, relates] } });
+
+      const result = await linksClient.getLinkTypes();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issueLinkType', undefined);
+      expect(result).toEqual([blocks, relates]);
+    });
+  });
+
+  describe('getIssueLinks', () => {
+    it('should return the links seen from the issue', async () => {
+      const other = { id: '10002', key: 'TEST-2', self: 'https://example.atlassian.net/rest/api/3/issue/10002' };
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          fields: {
+            issuelinks: [
+              { id: '1', type: blocks, outwardIssue: other },
+              { id: '2', type: blocks, inwardIssue: other },
+            ],
+          },
+        },
+      });
+
+      const result = await linksClient.getIssueLinks('TEST-1');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issue/TEST-1', { params: { fields: 'issuelinks' } });
+      expect(result).toEqual([
+        { id: '1', type: blocks, direction: 'outward', relation: 'blocks', issue: other },
+        { id: '2', type: blocks, direction: 'inward', relation: 'is blocked by', issue: other },
+      ]);
+    });
+  });
+
+  describe('createIssueLink', () => {
+    it('should create a link with a converted comment', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: undefined });
+
+      await linksClient.createIssueLink({
+        type: { name: 'Blocks' },
+        inwardIssue: { key: 'TEST-1' },
+        outwardIssue: { key: 'TEST-2' },
+        comment: { body: 'Linked **automatically**' },
+      });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/issueLink', {
+        type: { name: 'Blocks' },
+        inwardIssue: { key: 'TEST-1' },
+        outwardIssue: { key: 'TEST-2' },
+        comment: { body: markdownToAdf('Linked **automatically**') },
+      }, undefined);
+    });
+  });
+
+  describe('linkIssues', () => {
+    beforeEach(() => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { issueLinkTypes: [blocks, relates] } });
+      mockAxiosInstance.post.mockResolvedValue({ data: undefined });
+    });
+
+    it('should make the first issue the inward issue of an outward relation', async () => {
+      await linksClient.linkIssues('TEST-1', 'blocks', 'TEST-2');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/issueLink', {
+        type: { id: '10000' },
+        inwardIssue: { key: 'TEST-1' },
+        outwardIssue: { key: 'TEST-2' },
+      }, undefined);
+    });
+
+    it('should make the first issue the outward issue of an inward relation', async () => {
+      await linksClient.linkIssues('10001', 'Is Blocked By', 'TEST-2');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/issueLink', {
+        type: { id: '10000' },
+        inwardIssue: { key: 'TEST-2' },
+        outwardIssue: { id: '10001' },
+      }, undefined);
+    });
+
+    it('should throw for an unknown relation', async () => {
+      await expect(linksClient.linkIssues('TEST-1', 'duplicates', 'TEST-2'))
+        .rejects.toThrow('Issue link type "duplicates" not found');
+    });
+  });
+
+  describe('deleteIssueLink', () => {
+    it('should delete a link', async () => {
+      mockAxiosInstance.delete.mockResolvedValue({ data: undefined });
+
+      await linksClient.deleteIssueLink('1');
+
+      expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/issueLink/1', undefined);
+    });
+  });
+
+  describe('remote links', () => {
+    const remoteLink = {
+      globalId: 'pr=42',
+      relationship: 'implemented in',
+      object: { url: 'https://git.example.com/pr/42', title: 'PR #42' },
+    };
+
+    it('should get the remote links, also by global ID', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: [{ id: 1, self: 'x', ...remoteLink }] })
+        .mockResolvedValueOnce({ data: { id: 1, self: 'x', ...remoteLink } });
+
+      expect(await linksClient.getRemoteLinks('TEST-1')).toHaveLength(1);
+      expect(await linksClient.getRemoteLinks('TEST-1', 'pr=42')).toEqual([{ id: 1, self: 'x', ...remoteLink }]);
+      expect(mockAxiosInstance.get).toHaveBeenLastCalledWith('/issue/TEST-1/remotelink', {
+        params: { globalId: 'pr=42' },
+      });
+    });
+
+    it('should create, update and delete remote links', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { id: 1, self: 'x' } });
+      mockAxiosInstance.put.mockResolvedValue({ data: undefined });
+      mockAxiosInstance.delete.mockResolvedValue({ data: undefined });
+
+      expect(await linksClient.createRemoteLink('TEST-1', remoteLink)).toEqual({ id: 1, self: 'x' });
+      await linksClient.updateRemoteLink('TEST-1', 1, remoteLink);
+      await linksClient.deleteRemoteLink('TEST-1', 1);
+      await linksClient.deleteRemoteLinkByGlobalId('TEST-1', 'pr=42');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/issue/TEST-1/remotelink', remoteLink, undefined);
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/issue/TEST-1/remotelink/1', remoteLink, undefined);
+      expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/issue/TEST-1/remotelink/1', undefined);
+      expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/issue/TEST-1/remotelink', {
+        params: { globalId: 'pr=42' },
+      });
+    });
+  });
+});
@@ -1,6 +1,9 @@
 import axios, { AxiosInstance } from 'axios';
 import { IssuesApiClient } from '../api/issues';
 import { JiraClientConfig, JiraIssue, CreateIssueData, UpdateIssueData } from '../types';
+import { customField } from '../utils/fields';
+import { jql } from '../utils/jql';
+import { markdownToAdf } from '../utils/markdown';
 
 // Mock axios
 jest.mock('axios');
@@ -153,6 +156,162 @@ describe('IssuesApiClient', () => {
     });
   });
 
+  describe('validateCreateIssue', () => {
+    const issueTypes = { issueTypes: [{ id: '10001', name: 'Task' }], total: 1 };
+    const fields = {
+      fields: [
+        { fieldId: 'summary', name: 'Summary', required: true, schema: { type: 'string', system: 'summary' } },
+        { fieldId: 'customfield_10016', name: 'Story Points', required: false, schema: { type: 'number' } },
+      ],
+      total: 2,
+    };
+
+    beforeEach(() => {
+      mockAxiosInstance.get.mockImplementation(async (url: string) => ({
+        data: url.endsWith('/issuetypes') ? issueTypes : fields,
+      }));
+    });
+
+    it('should check the fields against the cached create metadata', async () => {
+      const first = await issuesClient.validateCreateIssue({
+        fields: { project: { key: 'TEST' }, summary: '', issuetype: { name: 'task' }, customfield_10016: 'three' },
+      });
+      const second = await issuesClient.validateCreateIssue({
+        fields: { project: { key: 'TEST' }, summary: 'Valid', issuetype: { id: '10001' } },
+      });
+
+      expect(first).toEqual({
+        valid: false,
+        errors: {
+          summary: 'Summary is required.',
+          customfield_10016: 'Story Points must be a number.',
+        },
+        errorMessages: [],
+      });
+      expect(second).toEqual({ valid: true, errors: {}, errorMessages: [] });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issue/createmeta/TEST/issuetypes/10001', {
+        params: { startAt: 0, maxResults: 50 },
+      });
+    });
+
+    it('should report an issue type the project does not have', async () => {
+      const result = await issuesClient.validateCreateIssue({
+        fields: { project: { key: 'TEST' }, summary: 'Test', issuetype: { name: 'Epic' } },
+      });
+
+      expect(result.errors).toEqual({ issuetype: 'Issue type "Epic" cannot be created in project TEST.' });
+    });
+
+    it('should reject invalid issues before sending them when validating', async () => {
+      await expect(issuesClient.createIssue(
+        { fields: { project: { key: 'TEST' }, summary: '', issuetype: { name: 'Task' } } },
+        { validate: true }
+      )).rejects.toMatchObject({ status: 400, errors: { summary: 'Summary is required.' } });
+
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createIssues', () => {
+    const issueData = (summary: string): CreateIssueData => ({
+      fields: { project: { key: 'TEST' }, summary, issuetype: { name: 'Task' } },
+    });
+
+    it('should create issues in chunks of 50 and report each one', async () => {
+      const data = Array.from({ length: 51 }, (_, index) => issueData(`Issue ${index}`));
+
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({
+          data: {
+            issues: Array.from({ length: 49 }, (_, index) => ({ id: `${index}`, key: `TEST-${index}` })),
+            errors: [{
+              status: 400,
+              elementErrors: { errorMessages: [], errors: { summary: 'Summary is too long.' } },
+              failedElementNumber: 1,
+            }],
+          },
+        })
+        .mockResolvedValueOnce({ data: { issues: [{ id: '50', key: 'TEST-50' }], errors: [] } });
+
+      const result = await issuesClient.createIssues(data);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.post.mock.calls[0][1].issueUpdates).toHaveLength(50);
+      expect(mockAxiosInstance.post.mock.calls[1][1].issueUpdates).toEqual([data[50]]);
+      expect(result.succeeded).toHaveLength(50);
+      expect(result.results[0]).toMatchObject({ status: 'fulfilled', value: { key: 'TEST-0' } });
+      expect(result.results[2]).toMatchObject({ status: 'fulfilled', value: { key: 'TEST-1' } });
+      expect(result.failed).toEqual([{
+        index: 1,
+        item: data[1],
+        status: 'rejected',
+        error: expect.objectContaining({ status: 400, errors: { summary: 'Summary is too long.' } }),
+      }]);
+    });
+
+    it('should report every issue when Jira rejects the whole request', async () => {
+      mockAxiosInstance.post.mockRejectedValue({
+        isAxiosError: true,
+        message: 'Request failed with status code 400',
+        response: {
+          status: 400,
+          data: {
+            issues: [],
+            errors: [0, 1].map((failedElementNumber) => ({
+              status: 400,
+              elementErrors: { errorMessages: ['Issue type is invalid.'], errors: {} },
+              failedElementNumber,
+            })),
+          },
+        },
+      });
+      mockedAxios.isAxiosError.mockImplementation(jest.requireActual('axios').isAxiosError);
+
+      const result = await issuesClient.createIssues([issueData('A'), issueData('B')]);
+
+      expect(result.failed.map((item) => item.error.message)).toEqual(['Issue type is invalid.', 'Issue type is invalid.']);
+    });
+  });
+
+  describe('updateIssues', () => {
+    it('should update each issue and report failures', async () => {
+      mockAxiosInstance.put
+        .mockResolvedValueOnce({ data: undefined })
+        .mockRejectedValueOnce(new Error('Issue does not exist'));
+
+      const result = await issuesClient.updateIssues([
+        { issueIdOrKey: 'TEST-1', data: { fields: { summary: 'One' } } },
+        { issueIdOrKey: 'TEST-2', data: { fields: { summary: 'Two' } } },
+      ], { concurrency: 1 });
+
+      expect(mockAxiosInstance.put).toHaveBeenNthCalledWith(1, '/issue/TEST-1', { fields: { summary: 'One' } }, undefined);
+      expect(result.succeeded.map((item) => item.item.issueIdOrKey)).toEqual(['TEST-1']);
+      expect(result.failed.map((item) => [item.item.issueIdOrKey, item.error.message])).toEqual([
+        ['TEST-2', 'Issue does not exist'],
+      ]);
+    });
+  });
+
+  describe('transitionIssues', () => {
+    it('should transition each issue and report the ones without the transition', async () => {
+      mockAxiosInstance.get.mockImplementation(async (url: string) => ({
+        data: { transitions: url.includes('TEST-2') ? [] : [{ id: '31', name: 'Done' }] },
+      }));
+      mockAxiosInstance.post.mockResolvedValue({ data: undefined });
+
+      const result = await issuesClient.transitionIssues(['TEST-1', 'TEST-2'], 'Done');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/issue/TEST-1/transitions',
+        { transition: { id: '31' } },
+        undefined
+      );
+      expect(result.succeeded.map((item) => item.item)).toEqual(['TEST-1']);
+      expect(result.failed[0].error.message).toBe('Transition "Done" not found for issue TEST-2');
+    });
+  });
+
   describe('updateIssue', () => {
     it('should update an issue', async () => {
       mockAxiosInstance.put.mockResolvedValue({ data: undefined });
@@ -166,7 +325,31 @@ describe('IssuesApiClient', () => {
 
       await issuesClient.updateIssue('TEST-1', updateData);
 
-      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/issue/TEST-1', updateData, undefined);
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/issue/TEST-1', {
+        fields: {
+          summary: 'Updated summary',
+          description: markdownToAdf('Updated description'),
+        },
+      }, undefined);
+    });
+
+    it('should convert the description to wiki markup in API v2', async () => {
+      mockAxiosInstance.put.mockResolvedValue({ data: undefined });
+      const v2Client = new IssuesApiClient({ ...mockConfig, apiVersion: 2 });
+
+      const updateData: UpdateIssueData = {
+        fields: {
+          description: '## Summary\n\n**Updated** description, see [docs](https://example.com)',
+        },
+      };
+
+      await v2Client.updateIssue('TEST-1', updateData);
+
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/issue/TEST-1', {
+        fields: {
+          description: 'h2. Summary\n\n*Updated* description, see [docs|https://example.com]',
+        },
+      }, undefined);
     });
   });
 
@@ -284,6 +467,135 @@ describe('IssuesApiClient', () => {
     });
   });
 
+  describe('iterateSearch', () => {
+    it('should yield issues from every page', async () => {
+      const issue = (n: number): JiraIssue => ({ id: `${n}`, key: `TEST-${n}`, self: '', fields: { summary: `Issue ${n}` } }) as unknown as JiraIssue;
+
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({ data: { issues: [issue(1), issue(2)], total: 3, startAt: 0, maxResults: 2 } })
+        .mockResolvedValueOnce({ data: { issues: [issue(3)], total: 3, startAt: 2, maxResults: 2 } });
+
+      const keys: string[] = [];
+
+      for await (const result of issuesClient.iterateSearch('project = TEST', ['summary'], { maxResults: 2 })) {
+        keys.push(result.key);
+      }
+
+      expect(keys).toEqual(['TEST-1', 'TEST-2', 'TEST-3']);
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.post).toHaveBeenLastCalledWith('/search', {
+        jql: 'project = TEST',
+        startAt: 2,
+        maxResults: 2,
+        fields: ['summary'],
+      }, { signal: expect.any(AbortSignal) });
+    });
+  });
+
+  describe('searchJql', () => {
+    it('should search with the enhanced endpoint and return the next page token', async () => {
+      const issues = [{ id: '10000', key: 'TEST-1', self: '', fields: {} }];
+      mockAxiosInstance.post.mockResolvedValue({ data: { issues, nextPageToken: 'page-2' } });
+
+      const result = await issuesClient.searchJql('project = TEST', {
+        fields: ['summary'],
+        expand: ['renderedFields', 'names'],
+        properties: ['review'],
+        fieldsByKeys: true,
+      }, { maxResults: 1 });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/search/jql', {
+        jql: 'project = TEST',
+        maxResults: 1,
+        fields: ['summary'],
+        expand: 'renderedFields,names',
+        properties: ['review'],
+        fieldsByKeys: true,
+      }, undefined);
+
+      expect(result).toEqual({
+        values: issues,
+        startAt: 0,
+        maxResults: 1,
+        nextPageToken: 'page-2',
+        isLast: false,
+      });
+    });
+
+    it('should follow next page tokens when iterating', async () => {
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({ data: { issues: [{ key: 'TEST-1' }], nextPageToken: 'page-2' } })
+        .mockResolvedValueOnce({ data: { issues: [{ key: 'TEST-2' }], isLast: true } });
+
+      const keys: string[] = [];
+
+      for await (const issue of issuesClient.iterateSearchJql('project = TEST', undefined, { maxResults: 1 })) {
+        keys.push(issue.key);
+      }
+
+      expect(keys).toEqual(['TEST-1', 'TEST-2']);
+      expect(mockAxiosInstance.post.mock.calls[1][1]).toEqual({
+        jql: 'project = TEST',
+        maxResults: 1,
+        fields: ['summary', 'status', 'assignee', 'priority', 'issuetype', 'created', 'updated'],
+        nextPageToken: 'page-2',
+      });
+    });
+  });
+
+  describe('searchIssues with a JQL builder', () => {
+    it('should send the built query', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { issues: [], total: 0, startAt: 0, maxResults: 50 } });
+
+      await issuesClient.searchIssues(jql().where('project').eq('TEST').and('status').notEq('Done'));
+
+      expect(mockAxiosInstance.post.mock.calls[0][1].jql).toBe('project = "TEST" AND status != "Done"');
+    });
+  });
+
+  describe('countIssues', () => {
+    it('should get the approximate count of matching issues', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { count: 42 } });
+
+      await expect(issuesClient.countIssues('project = TEST')).resolves.toBe(42);
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/search/approximate-count', { jql: 'project = TEST' }, undefined);
+    });
+  });
+
+  describe('validateJql', () => {
+    it('should parse queries with the Jira endpoint', async () => {
+      const queries = [{ query: 'project = TEST', structure: {} }, { query: 'foo = bar', errors: ['Field \'foo\' does not exist.'] }];
+      mockAxiosInstance.post.mockResolvedValue({ data: { queries } });
+
+      const result = await issuesClient.validateJql(['project = TEST', jql().where('foo').eq('bar')], 'warn');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/jql/parse', {
+        queries: ['project = TEST', 'foo = "bar"'],
+      }, { params: { validation: 'warn' } });
+      expect(result).toEqual(queries);
+    });
+  });
+
+  describe('getJqlAutocompleteData', () => {
+    it('should get the autocomplete data', async () => {
+      const data = { visibleFieldNames: [{ value: 'status', displayName: 'Status' }], visibleFunctionNames: [], jqlReservedWords: ['and'] };
+      mockAxiosInstance.get.mockResolvedValue({ data });
+
+      await expect(issuesClient.getJqlAutocompleteData()).resolves.toEqual(data);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/jql/autocompletedata', undefined);
+    });
+
+    it('should get suggested field values', async () => {
+      const results = [{ value: 'Done', displayName: '<b>Do</b>ne' }];
+      mockAxiosInstance.get.mockResolvedValue({ data: { results } });
+
+      await expect(issuesClient.getJqlSuggestions('status', 'Do')).resolves.toEqual(results);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/jql/autocompletedata/suggestions', {
+        params: { fieldName: 'status', fieldValue: 'Do' },
+      });
+    });
+  });
+
   describe('getTransitions', () => {
     it('should get transitions for an issue', async () => {
       const mockTransitions = [
@@ -447,11 +759,26 @@ describe('IssuesApiClient', () => {
       const result = await issuesClient.addComment('TEST-1', 'This is a new comment');
 
       expect(mockAxiosInstance.post).toHaveBeenCalledWith('/issue/TEST-1/comment', {
-        body: 'This is a new comment',
+        body: {
+          version: 1,
+          type: 'doc',
+          content: [{ type: 'paragraph', content: [{ type: 'text', text: 'This is a new comment' }] }],
+        },
       }, undefined);
 
       expect(result).toEqual(mockComment);
     });
+
+    it('should send the comment as wiki markup in API v2', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: {} });
+      const v2Client = new IssuesApiClient({ ...mockConfig, apiVersion: 2 });
+
+      await v2Client.addComment('TEST-1', 'Fixed in `main`:\n\n- first\n- second');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/issue/TEST-1/comment', {
+        body: 'Fixed in {{main}}:\n\n* first\n* second',
+      }, undefined);
+    });
   });
 
   describe('updateComment', () => {
@@ -474,7 +801,7 @@ describe('IssuesApiClient', () => {
       const result = await issuesClient.updateComment('TEST-1', '10000', 'This is an updated comment');
 
       expect(mockAxiosInstance.put).toHaveBeenCalledWith('/issue/TEST-1/comment/10000', {
-        body: 'This is an updated comment',
+        body: markdownToAdf('This is an updated comment'),
       }, undefined);
 
       expect(result).toEqual(mockComment);
@@ -512,4 +839,112 @@ describe('IssuesApiClient', () => {
       }, undefined);
     });
   });
+
+  describe('custom fields', () => {
+    const customFields = {
+      storyPoints: customField<number>('customfield_10016'),
+    };
+
+    let typedClient: IssuesApiClient<typeof customFields>;
+
+    beforeEach(() => {
+      typedClient = new IssuesApiClient<typeof customFields>({ ...mockConfig, customFields });
+    });
+
+    it('should read custom fields by friendly name', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { id: '10000', key: 'TEST-1', fields: { summary: 'Test', customfield_10016: 5 } },
+      });
+
+      const issue = await typedClient.getIssue('TEST-1', ['summary', 'storyPoints']);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issue/TEST-1', {
+        params: { fields: 'summary,customfield_10016' },
+      });
+      expect(issue.fields.storyPoints).toBe(5);
+      expect(issue.fields).not.toHaveProperty('customfield_10016');
+    });
+
+    it('should write custom fields by friendly name', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { id: '10000', key: 'TEST-1' } });
+      mockAxiosInstance.put.mockResolvedValue({ data: undefined });
+
+      await typedClient.createIssue({
+        fields: { project: { key: 'TEST' }, summary: 'Test', issuetype: { name: 'Story' }, storyPoints: 3 },
+      });
+      await typedClient.updateIssue('TEST-1', { fields: { storyPoints: null } });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/issue', {
+        fields: { project: { key: 'TEST' }, summary: 'Test', issuetype: { name: 'Story' }, customfield_10016: 3 },
+      }, undefined);
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/issue/TEST-1', {
+        fields: { customfield_10016: null },
+      }, undefined);
+    });
+
+    it('should translate search fields and results', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { issues: [{ id: '10000', key: 'TEST-1', fields: { customfield_10016: 8 } }] },
+      });
+
+      const result = await typedClient.searchJql('project = TEST', { fields: ['storyPoints'] });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/search/jql',
+        { jql: 'project = TEST', maxResults: 50, fields: ['customfield_10016'] },
+        undefined
+      );
+      expect(result.values[0].fields.storyPoints).toBe(8);
+    });
+  });
+
+  describe('changelog', () => {
+    const entry = {
+      id: '100',
+      created: '2024-01-31T10:30:00.000+0000',
+      items: [{ field: 'status', fieldtype: 'jira', fieldId: 'status', from: '1', fromString: 'To Do', to: '3', toString: 'In Progress' }],
+    };
+
+    it('should expand the changelog of an issue', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { id: '10000', key: 'TEST-1', fields: {} } });
+
+      await issuesClient.getIssue('TEST-1', ['status'], ['changelog']);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issue/TEST-1', {
+        params: { fields: 'status', expand: 'changelog' },
+      });
+    });
+
+    it('should get a page of the changelog', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { values: [entry], total: 1, startAt: 0, maxResults: 50 } });
+
+      const result = await issuesClient.getChangelog('TEST-1');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issue/TEST-1/changelog', {
+        params: { startAt: 0, maxResults: 50 },
+      });
+      expect(result.values).toEqual([entry]);
+      expect(result.isLast).toBe(true);
+    });
+
+    it('should fetch the changelogs of several issues across pages', async () => {
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({
+          data: { issueChangeLogs: [{ issueId: '10000', changeHistories: [entry] }], nextPageToken: 'next' },
+        })
+        .mockResolvedValueOnce({
+          data: { issueChangeLogs: [{ issueId: '10000', changeHistories: [{ ...entry, id: '101' }] }] },
+        });
+
+      const result = await issuesClient.getChangelogs(['TEST-1', 'TEST-2'], ['status']);
+
+      expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(1, '/changelog/bulkfetch', {
+        issueIdsOrKeys: ['TEST-1', 'TEST-2'],
+        maxResults: 10000,
+        fieldIds: ['status'],
+      }, undefined);
+      expect(mockAxiosInstance.post.mock.calls[1][1].nextPageToken).toBe('next');
+      expect(result['10000'].map((item) => item.id)).toEqual(['100', '101']);
+    });
+  });
 }); 
\ No newline at end of file
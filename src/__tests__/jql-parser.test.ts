@@ -0,0 +1,128 @@
+import { checkJqlSyntax, JqlSyntaxError, parseJql } from '../utils/jql-parser';
+import { jql, jqlFunctions } from '../utils/jql';
+
+describe('JQL parser', () => {
+  it('should parse clauses with AND binding tighter than OR', () => {
+    const ast = parseJql('project = PROJ AND status = "In Progress" OR assignee is EMPTY');
+
+    expect(ast).toEqual({
+      where: {
+        type: 'or',
+        start: 0,
+        end: 62,
+        clauses: [
+          {
+            type: 'and',
+            start: 0,
+            end: 41,
+            clauses: [
+              {
+                type: 'clause',
+                field: 'project',
+                operator: '=',
+                operand: { type: 'value', value: 'PROJ', quoted: false, start: 10, end: 14 },
+                predicates: [],
+                start: 0,
+                end: 14,
+              },
+              {
+                type: 'clause',
+                field: 'status',
+                operator: '=',
+                operand: { type: 'value', value: 'In Progress', quoted: true, start: 28, end: 41 },
+                predicates: [],
+                start: 19,
+                end: 41,
+              },
+            ],
+          },
+          {
+            type: 'clause',
+            field: 'assignee',
+            operator: 'is',
+            operand: { type: 'empty', start: 57, end: 62 },
+            predicates: [],
+            start: 45,
+            end: 62,
+          },
+        ],
+      },
+      orderBy: [],
+    });
+  });
+
+  it('should parse lists, functions, negation, groups and ORDER BY', () => {
+    const ast = parseJql('NOT (labels in (a, "b c")) and sprint in openSprints() ORDER BY priority DESC, created');
+
+    expect(ast.where).toMatchObject({
+      type: 'and',
+      clauses: [
+        {
+          type: 'not',
+          clause: {
+            field: 'labels',
+            operator: 'in',
+            operand: { type: 'list', values: [{ value: 'a' }, { value: 'b c' }] },
+          },
+        },
+        { field: 'sprint', operator: 'in', operand: { type: 'function', name: 'openSprints', args: [] } },
+      ],
+    });
+    expect(ast.orderBy).toMatchObject([
+      { field: 'priority', direction: 'desc' },
+      { field: 'created' },
+    ]);
+  });
+
+  it('should parse history operators with predicates', () => {
+    const ast = parseJql('status was not in (Done, Closed) BY currentUser() DURING ("2024-01-01", "2024-01-31") AND assignee changed');
+
+    expect(ast.where).toMatchObject({
+      type: 'and',
+      clauses: [
+        {
+          operator: 'was not in',
+          predicates: [
+            { type: 'by', operand: { type: 'function', name: 'currentUser' } },
+            { type: 'during', operand: { type: 'list' } },
+          ],
+        },
+        { field: 'assignee', operator: 'changed', predicates: [] },
+      ],
+    });
+  });
+
+  it('should parse the queries built by the JQL builder', () => {
+    const query = jql()
+      .where('Story Points').gte(5)
+      .and((q) => q.where('assignee').eq(jqlFunctions.currentUser()).or('reporter').was('o\'brien'))
+      .and('summary').contains('say "hi"')
+      .orderBy('created', 'DESC')
+      .build();
+
+    expect(checkJqlSyntax(query)).toBeUndefined();
+    expect(parseJql(query).where).toMatchObject({
+      clauses: [{ field: 'Story Points' }, { type: 'or' }, { operand: { value: 'say "hi"' } }],
+    });
+  });
+
+  it.each([
+    ['project =', 'Expected a value but found the end of the query (line 1, column 10)', 9],
+    ['project PROJ', 'Expected an operator after "project" but found "PROJ" (line 1, column 9)', 8],
+    ['status = "Done', 'Unterminated string (line 1, column 10)', 9],
+    ['(project = A', 'Expected ")" but found the end of the query (line 1, column 13)', 12],
+    ['priority > (1, 2)', 'The ">" operator does not accept a list (line 1, column 12)', 11],
+    ['project = A ORDER priority', 'Expected "BY" but found "priority" (line 1, column 19)', 18],
+    ['project = A\nAND = B', 'Expected a field name but found "=" (line 2, column 5)', 16],
+  ])('should report the position of syntax errors in %j', (query, message, position) => {
+    const error = checkJqlSyntax(query);
+
+    expect(error).toBeInstanceOf(JqlSyntaxError);
+    expect(error?.message).toBe(message);
+    expect(error?.position).toBe(position);
+  });
+
+  it('should throw from parseJql', () => {
+    expect(() => parseJql('status in')).toThrow(JqlSyntaxError);
+  });
+});
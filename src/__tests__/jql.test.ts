@@ -0,0 +1,78 @@
+import { formatJqlField, jql, jqlFunctions, quoteJql, toJql } from '../utils/jql';
+
+describe('JQL builder', () => {
+  it('should build clauses joined with AND and OR', () => {
+    const query = jql()
+      .where('project').eq('PROJ')
+      .and('status').in(['To Do', 'In Progress'])
+      .or('priority').gte(3)
+      .build();
+
+    expect(query).toBe('project = "PROJ" AND status in ("To Do", "In Progress") OR priority >= 3');
+  });
+
+  it('should group clauses in parentheses', () => {
+    const query = jql()
+      .where('project').eq('PROJ')
+      .and((q) => q.where('assignee').eq(jqlFunctions.currentUser()).or('assignee').isEmpty())
+      .not((q) => q.where('labels').in(['wontfix', 'duplicate']))
+      .build();
+
+    expect(query).toBe(
+      'project = "PROJ" AND (assignee = currentUser() OR assignee is EMPTY) AND NOT (labels in ("wontfix", "duplicate"))'
+    );
+  });
+
+  it('should support text search, functions and ORDER BY', () => {
+    const query = jql()
+      .where('summary').contains('login "bug"')
+      .and('sprint').in(jqlFunctions.openSprints())
+      .and('created').gt(jqlFunctions.startOfDay('-7d'))
+      .and('assignee').notIn(jqlFunctions.membersOf('contractors'))
+      .orderBy('priority', 'DESC')
+      .orderBy('created')
+      .build();
+
+    expect(query).toBe(
+      'summary ~ "login \\"bug\\"" AND sprint in openSprints() AND created > startOfDay("-7d") ' +
+      'AND assignee not in membersOf("contractors") ORDER BY priority DESC, created'
+    );
+  });
+
+  it('should build history clauses with predicates', () => {
+    const query = jql()
+      .where('status').was('In Progress', { by: jqlFunctions.currentUser(), during: ['2024-01-01', '2024-01-31'] })
+      .and('assignee').changed({ from: 'alice', to: 'bob', after: new Date(2024, 0, 15) })
+      .and('status').wasNotIn(['Done', 'Closed'])
+      .build();
+
+    expect(query).toBe(
+      'status was "In Progress" BY currentUser() DURING ("2024-01-01", "2024-01-31") ' +
+      'AND assignee changed FROM "alice" TO "bob" AFTER "2024-01-15" AND status was not in ("Done", "Closed")'
+    );
+  });
+
+  it('should reject an empty list of values', () => {
+    expect(() => jql().where('status').in([])).toThrow('JQL "in" on status needs at least one value');
+    expect(() => jql().where('labels').notIn([])).toThrow('JQL "not in" on labels needs at least one value');
+    expect(() => jql().where('status').wasIn([])).toThrow('JQL "was in" on status needs at least one value');
+  });
+
+  it('should quote field names that are reserved words or contain spaces', () => {
+    expect(formatJqlField('status')).toBe('status');
+    expect(formatJqlField('cf[10010]')).toBe('cf[10010]');
+    expect(formatJqlField('Story Points')).toBe('"Story Points"');
+    expect(formatJqlField('order')).toBe('"order"');
+  });
+
+  it('should escape quotes and backslashes in values', () => {
+    expect(quoteJql('C:\\temp "x"')).toBe('"C:\\\\temp \\"x\\""');
+  });
+
+  it('should accept raw clauses and strings', () => {
+    expect(toJql(jql().where('project').eq('A').raw('issuetype = Bug OR issuetype = Task'))).toBe(
+      'project = "A" AND (issuetype = Bug OR issuetype = Task)'
+    );
+    expect(toJql('project = A')).toBe('project = A');
+  });
+});
@@ -0,0 +1,90 @@
+import axios, { AxiosInstance } from 'axios';
+import { JiraClient } from '../index';
+import { JiraMiddleware } from '../types';
+import { JiraError } from '../utils/error';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('middleware', () => {
+  let client: JiraClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn().mockResolvedValue({ status: 200, headers: { 'X-Request-Id': 'abc' }, data: { accountId: 'user123' } }),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    client = new JiraClient({
+      baseUrl: 'https://example.atlassian.net',
+      token: 'test-token',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let middleware rewrite outgoing requests', async () => {
+    client.use((request, next) => next({
+      ...request,
+      config: { ...request.config, headers: { 'X-Trace-Id': 'trace-1' } },
+    }));
+
+    await client.users.getCurrentUser();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/myself', {
+      headers: { 'X-Trace-Id': 'trace-1' },
+    });
+  });
+
+  it('should run middleware in the order it was added', async () => {
+    const calls: string[] = [];
+    const track = (name: string): JiraMiddleware => async (request, next) => {
+      calls.push(`${name}:request`);
+      const response = await next(request);
+      calls.push(`${name}:response`);
+      return response;
+    };
+
+    client.use(track('outer')).use(track('inner'));
+    await client.users.getCurrentUser();
+
+    expect(calls).toEqual(['outer:request', 'inner:request', 'inner:response', 'outer:response']);
+  });
+
+  it('should let middleware inspect and replace responses', async () => {
+    const seen: Record<string, string>[] = [];
+
+    client.use(async (request, next) => {
+      const response = await next(request);
+      seen.push(response.headers);
+      return { ...response, data: { accountId: 'replaced' } };
+    });
+
+    const user = await client.users.getCurrentUser();
+
+    expect(seen).toEqual([{ 'x-request-id': 'abc' }]);
+    expect(user).toEqual({ accountId: 'replaced' });
+  });
+
+  it('should let middleware handle errors', async () => {
+    mockAxiosInstance.get.mockRejectedValue(new Error('Network Error'));
+
+    client.use(async (request, next) => {
+      try {
+        return await next(request);
+      } catch (error) {
+        expect(error).toBeInstanceOf(JiraError);
+        return { status: 200, headers: {}, data: { accountId: 'fallback' } };
+      }
+    });
+
+    await expect(client.users.getCurrentUser()).resolves.toEqual({ accountId: 'fallback' });
+  });
+});
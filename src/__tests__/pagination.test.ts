@@ -0,0 +1,220 @@
+import { PageParams, PaginatedResponse, PaginationParams } from '../types';
+import { JiraError } from '../utils/error';
+import {
+  createPaginatedResponse,
+  fetchAllPages,
+  iterateAll,
+  iteratePages,
+  toPaginatedResponse
+} from '../utils/pagination';
+
+describe('Pagination', () => {
+  const items = Array.from({ length: 5 }, (_, index) => index + 1);
+
+  /**
+   * Create a page fetcher over the test items that records the requested offsets and signals
+   */
+  const createFetcher = (): jest.Mock<Promise<PaginatedResponse<number>>, [Required<PaginationParams>, AbortSignal?]> =>
+    jest.fn(async (params: Required<PaginationParams>) => createPaginatedResponse(
+      items.slice(params.startAt, params.startAt + params.maxResults),
+      items.length,
+      params
+    ));
+
+  describe('toPaginatedResponse', () => {
+    const params = { startAt: 0, maxResults: 2 };
+
+    it('should use the total to detect the last page', () => {
+      expect(toPaginatedResponse([1, 2], params, { strategy: 'total', total: 3 })).toEqual({
+        values: [1, 2], startAt: 0, maxResults: 2, total: 3, isLast: false,
+      });
+      expect(toPaginatedResponse([1, 2], params, { strategy: 'total', total: 2 }).isLast).toBe(true);
+    });
+
+    it('should type the total as a number when the endpoint reports it', () => {
+      const total: number = toPaginatedResponse([1], params, { strategy: 'isLast', isLast: true, total: 1 }).total;
+      const uncounted: number | undefined = toPaginatedResponse([1], params, { strategy: 'shortPage' }).total;
+
+      expect(total).toBe(1);
+      expect(uncounted).toBeUndefined();
+    });
+
+    it('should treat a short page as the last without a total', () => {
+      expect(toPaginatedResponse([1, 2], params, { strategy: 'shortPage' })).toEqual({
+        values: [1, 2], startAt: 0, maxResults: 2, isLast: false,
+      });
+      expect(toPaginatedResponse([1], params, { strategy: 'shortPage' }).isLast).toBe(true);
+      expect(toPaginatedResponse([1, 2, 3], params, { strategy: 'shortPage' }).isLast).toBe(true);
+    });
+
+    it('should use the isLast flag', () => {
+      expect(toPaginatedResponse([1], params, { strategy: 'isLast', isLast: false }).isLast).toBe(false);
+      expect(toPaginatedResponse([1, 2], params, { strategy: 'isLast', isLast: true }).isLast).toBe(true);
+    });
+
+    it('should use the next page token', () => {
+      expect(toPaginatedResponse([1, 2], params, { strategy: 'cursor', nextPageToken: 'abc' })).toEqual({
+        values: [1, 2], startAt: 0, maxResults: 2, nextPageToken: 'abc', isLast: false,
+      });
+      expect(toPaginatedResponse([1, 2], params, { strategy: 'cursor' }).isLast).toBe(true);
+    });
+
+    it('should treat an empty page as the last', () => {
+      expect(toPaginatedResponse([], params, { strategy: 'total', total: 10 }).isLast).toBe(true);
+      expect(toPaginatedResponse([], params, { strategy: 'isLast', isLast: false }).isLast).toBe(true);
+    });
+  });
+
+  describe('fetchAllPages', () => {
+    it('should fetch every page of an endpoint without a total', async () => {
+      const fetchPage = jest.fn(async (params: Required<PaginationParams>) => toPaginatedResponse(
+        items.slice(params.startAt, params.startAt + params.maxResults),
+        params,
+        { strategy: 'shortPage' }
+      ));
+
+      await expect(fetchAllPages(fetchPage, { maxResults: 2 })).resolves.toEqual(items);
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+    });
+
+    it('should advance by the number of results received', async () => {
+      // The endpoint caps each page at 2 results although 3 were requested
+      const fetchPage = jest.fn(async (params: Required<PaginationParams>) => createPaginatedResponse(
+        items.slice(params.startAt, params.startAt + 2),
+        items.length,
+        params
+      ));
+
+      await expect(fetchAllPages(fetchPage, { maxResults: 3 })).resolves.toEqual(items);
+      expect(fetchPage.mock.calls.map(([params]) => params.startAt)).toEqual([0, 2, 4]);
+    });
+
+    it('should follow the next page token', async () => {
+      const pages: Record<string, { values: number[]; next?: string }> = {
+        first: { values: [1, 2], next: 'second' },
+        second: { values: [3], next: undefined },
+      };
+      const fetchPage = jest.fn(async (params: PageParams) => {
+        const page = pages[params.nextPageToken ?? 'first'];
+        return toPaginatedResponse(page.values, params, { strategy: 'cursor', nextPageToken: page.next });
+      });
+
+      await expect(fetchAllPages(fetchPage, { maxResults: 2 })).resolves.toEqual([1, 2, 3]);
+      expect(fetchPage.mock.calls[1][0].nextPageToken).toBe('second');
+    });
+  });
+
+  describe('iteratePages', () => {
+    it('should not make a request until the first page is requested', () => {
+      const fetchPage = createFetcher();
+
+      iteratePages(fetchPage, { maxResults: 2 });
+
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+
+    it('should yield every page and stop after the last one', async () => {
+      const fetchPage = createFetcher();
+      const pages: number[][] = [];
+
+      for await (const page of iteratePages(fetchPage, { maxResults: 2 })) {
+        pages.push(page.values);
+      }
+
+      expect(pages).toEqual([[1, 2], [3, 4], [5]]);
+      expect(fetchPage.mock.calls.map(([params]) => params.startAt)).toEqual([0, 2, 4]);
+    });
+
+    it('should only request the next page when asked for it', async () => {
+      const fetchPage = createFetcher();
+      const iterator = iteratePages(fetchPage, { maxResults: 2 });
+
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('iterateAll', () => {
+    it('should yield every item', async () => {
+      const values: number[] = [];
+
+      for await (const value of iterateAll(createFetcher(), { maxResults: 2 })) {
+        values.push(value);
+      }
+
+      expect(values).toEqual(items);
+    });
+
+    it('should make a single request when breaking within the first page', async () => {
+      const fetchPage = createFetcher();
+
+      for await (const value of iterateAll(fetchPage, { maxResults: 2 })) {
+        if (value === 1) {
+          break;
+        }
+      }
+
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prefetch the next page once the last item of a page is consumed', async () => {
+      const fetchPage = createFetcher();
+      const iterator = iterateAll(fetchPage, { maxResults: 2 });
+
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      await iterator.return();
+    });
+
+    it('should cancel the prefetched page and stop requesting on break', async () => {
+      const fetchPage = createFetcher();
+
+      for await (const value of iterateAll(fetchPage, { maxResults: 2 })) {
+        if (value === 2) {
+          break;
+        }
+      }
+
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      expect(fetchPage.mock.calls[1][1]?.aborted).toBe(true);
+    });
+
+    it('should only request the next page when asked for it with prefetch disabled', async () => {
+      const fetchPage = createFetcher();
+      const iterator = iterateAll(fetchPage, { maxResults: 2, prefetch: false });
+
+      await iterator.next();
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop with an error when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const fetchPage = createFetcher();
+      const values: number[] = [];
+
+      const iterate = async (): Promise<void> => {
+        for await (const value of iterateAll(fetchPage, { maxResults: 2, signal: controller.signal, prefetch: false })) {
+          values.push(value);
+          controller.abort();
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow(JiraError);
+      expect(values).toEqual([1, 2]);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+  });
+});
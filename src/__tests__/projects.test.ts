@@ -0,0 +1,148 @@
+import axios, { AxiosInstance } from 'axios';
+import { ProjectsApiClient } from '../api/projects';
+import { JiraClientConfig, JiraProject } from '../types';
+import { fetchAllPages } from '../utils/pagination';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('ProjectsApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const projects = Array.from({ length: 5 }, (_, index) => ({
+    id: `${10000 + index}`,
+    key: `P${index}`,
+    name: `Project ${index}`,
+  })) as unknown as JiraProject[];
+
+  let projectsClient: ProjectsApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    projectsClient = new ProjectsApiClient(mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getAllProjects', () => {
+    // Pages like /project/search, the endpoint getAllProjects uses
+    const searchPage = async (_url: string, config: { params: { startAt: number; maxResults: number } }): Promise<unknown> => {
+      const { startAt, maxResults } = config.params;
+
+      return {
+        data: {
+          values: projects.slice(startAt, startAt + maxResults),
+          total: projects.length,
+          isLast: startAt + maxResults >= projects.length,
+        },
+      };
+    };
+
+    it('should page through the project search endpoint', async () => {
+      mockAxiosInstance.get.mockImplementation(searchPage);
+
+      const result = await projectsClient.getAllProjects({ maxResults: 2 });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/project/search', {
+        params: { startAt: 0, maxResults: 2 },
+      });
+      expect(result).toEqual({ values: projects.slice(0, 2), startAt: 0, maxResults: 2, total: 5, isLast: false });
+    });
+
+    it('should fetch every project with fetchAllPages', async () => {
+      mockAxiosInstance.get.mockImplementation(searchPage);
+
+      const result = await fetchAllPages((params) => projectsClient.getAllProjects(params), { maxResults: 2 });
+
+      expect(result).toEqual(projects);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop when the projects exactly fill the last page', async () => {
+      mockAxiosInstance.get.mockImplementation(searchPage);
+
+      const result = await fetchAllPages((params) => projectsClient.getAllProjects(params), { maxResults: 5 });
+
+      expect(result).toEqual(projects);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('searchProjects', () => {
+    it('should use the isLast flag from the response', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { values: projects.slice(0, 2), total: 5, isLast: false } });
+
+      const result = await projectsClient.searchProjects('P', { maxResults: 2 });
+
+      expect(result).toEqual({ values: projects.slice(0, 2), startAt: 0, maxResults: 2, total: 5, isLast: false });
+    });
+  });
+
+  describe('project administration', () => {
+    it('should create a project from a template', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { id: 10010, key: 'NEW', self: 'https://example.atlassian.net/rest/api/3/project/10010' } });
+
+      const result = await projectsClient.createProject({
+        key: 'NEW',
+        name: 'New project',
+        projectTypeKey: 'software',
+        projectTemplateKey: 'com.pyxis.greenhopper.jira:gh-simplified-kanban-classic',
+        leadAccountId: 'abc',
+      });
+
+      expect(result.key).toBe('NEW');
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/project', expect.objectContaining({
+        projectTemplateKey: 'com.pyxis.greenhopper.jira:gh-simplified-kanban-classic',
+      }), undefined);
+    });
+
+    it('should update, archive and restore a project', async () => {
+      mockAxiosInstance.put.mockResolvedValue({ data: projects[0] });
+      mockAxiosInstance.post.mockResolvedValue({ data: projects[0] });
+
+      await projectsClient.updateProject('P0', { leadAccountId: 'def', categoryId: 10000, description: 'Updated' });
+      await projectsClient.archiveProject('P0');
+      await projectsClient.restoreProject('P0');
+
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/project/P0', {
+        leadAccountId: 'def',
+        categoryId: 10000,
+        description: 'Updated',
+      }, undefined);
+      expect(mockAxiosInstance.post.mock.calls.map(([url]) => url)).toEqual(['/project/P0/archive', '/project/P0/restore']);
+    });
+
+    it('should delete a project to the trash or at once', async () => {
+      mockAxiosInstance.delete.mockResolvedValue({ data: undefined });
+
+      await projectsClient.deleteProject('P0');
+      await projectsClient.deleteProject('P1', false);
+
+      expect(mockAxiosInstance.delete).toHaveBeenNthCalledWith(1, '/project/P0', { params: { enableUndo: true } });
+      expect(mockAxiosInstance.delete).toHaveBeenNthCalledWith(2, '/project/P1', { params: { enableUndo: false } });
+    });
+
+    it('should start an asynchronous delete', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { id: '42', status: 'ENQUEUED' } });
+
+      const task = await projectsClient.deleteProjectAsync('P0');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/project/P0/delete', undefined, undefined);
+      expect(task.id).toBe('42');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import axios, { AxiosInstance } from 'axios';
+import { JiraClient } from '../index';
+import { RateLimiter } from '../utils/rate-limiter';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should cap the number of requests in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const tasks = [deferred<number>(), deferred<number>(), deferred<number>()];
+    const started: number[] = [];
+
+    const results = tasks.map((task, index) => limiter.schedule(() => {
+      started.push(index);
+      return task.promise;
+    }));
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+    expect(limiter.getMetrics()).toMatchObject({ queued: 1, inFlight: 2, maxQueued: 1 });
+
+    tasks[0].resolve(0);
+    await results[0];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[1].resolve(1);
+    tasks[2].resolve(2);
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+    expect(limiter.getMetrics()).toMatchObject({ queued: 0, inFlight: 0, started: 3 });
+  });
+
+  it('should start requests at the configured rate', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerInterval: 2, interval: 1000 });
+    const started: number[] = [];
+
+    const results = [0, 1, 2, 3].map((index) => limiter.schedule(async () => {
+      started.push(index);
+      return index;
+    }));
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+    expect(limiter.getMetrics().queued).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2, 3]);
+  });
+
+  it('should be shared by all API clients of a JiraClient', async () => {
+    const get = jest.fn().mockResolvedValue({ data: [] });
+    mockedAxios.create.mockReturnValue({ get } as unknown as AxiosInstance);
+
+    const client = new JiraClient({
+      baseUrl: 'https://example.atlassian.net',
+      token: 'test-token',
+      rateLimit: { maxConcurrent: 1 },
+    });
+
+    await Promise.all([
+      client.projects.getProjectIssueTypes('TEST'),
+      client.users.getCurrentUser(),
+    ]);
+
+    expect(client.limiter.getMetrics()).toMatchObject({ started: 2, maxQueued: 1 });
+  });
+});
@@ -0,0 +1,177 @@
+import { IssuesApiClient } from '../api/issues';
+import { ProjectsApiClient } from '../api/projects';
+import { JiraIssue, JiraVersion } from '../types';
+import { jql } from '../utils/jql';
+import { generateReleaseNotes, renderReleaseNotes } from '../utils/release-notes';
+
+describe('release notes', () => {
+  const version: JiraVersion = {
+    id: '10100',
+    self: 'https://example.atlassian.net/rest/api/3/version/10100',
+    name: '2.4.0',
+    projectId: 10000,
+    archived: false,
+    released: true,
+    releaseDate: '2024-03-01',
+  };
+
+  const createIssue = (key: string, summary: string, type: string, components: string[] = []): JiraIssue => ({
+    id: key.replace(/\D/g, ''),
+    key,
+    self: `https://example.atlassian.net/rest/api/3/issue/${key}`,
+    fields: {
+      summary,
+      issuetype: { id: '1', name: type },
+      status: { id: '10001', name: 'Done' },
+      components: components.map((name) => ({ name })),
+    },
+  } as unknown as JiraIssue);
+
+  const issues = [
+    createIssue('TEST-1', 'Search by label', 'Story', ['Backend', 'Web']),
+    createIssue('TEST-2', 'Crash on <empty> query', 'Bug', ['Backend']),
+    createIssue('TEST-3', 'Update *all* dependencies', 'Task'),
+  ];
+
+  const createClient = (): {
+    projects: { getProjectVersions: jest.Mock };
+    issues: { searchIssues: jest.Mock };
+  } => ({
+    projects: { getProjectVersions: jest.fn().mockResolvedValue([{ ...version, id: '10099', name: '2.3.0' }, version]) },
+    issues: {
+      searchIssues: jest.fn()
+        .mockResolvedValueOnce({ values: issues.slice(0, 2), startAt: 0, maxResults: 2, isLast: false })
+        .mockResolvedValueOnce({ values: issues.slice(2), startAt: 2, maxResults: 2, isLast: true }),
+    },
+  });
+
+  const generate = (
+    client: ReturnType<typeof createClient>,
+    options?: Parameters<typeof generateReleaseNotes>[3]
+  ): ReturnType<typeof generateReleaseNotes> => generateReleaseNotes(
+    { projects: client.projects as unknown as ProjectsApiClient, issues: client.issues as unknown as IssuesApiClient },
+    'TEST',
+    '2.4.0',
+    options
+  );
+
+  describe('generateReleaseNotes', () => {
+    it('should search every page of the issues fixed in the version', async () => {
+      const client = createClient();
+
+      const notes = await generate(client, { jql: 'statusCategory = Done' });
+
+      expect(client.projects.getProjectVersions).toHaveBeenCalledWith('TEST');
+      expect(client.issues.searchIssues).toHaveBeenCalledTimes(2);
+      expect(client.issues.searchIssues.mock.calls[0][0]).toBe(
+        'project = "TEST" AND fixVersion = 10100 AND (statusCategory = Done) ORDER BY key ASC'
+      );
+      expect(notes.version).toEqual(version);
+      expect(notes.issueCount).toBe(3);
+    });
+
+    it('should render Markdown grouped by issue type, in the requested order', async () => {
+      const notes = await generate(createClient(), { groupOrder: ['Story', 'Bug'] });
+
+      expect(notes.groups.map((group) => group.title)).toEqual(['Story', 'Bug', 'Task']);
+      expect(notes.content).toBe([
+        '# TEST 2.4.0',
+        '',
+        '## Story',
+        '',
+        '- [TEST-1](https://example.atlassian.net/browse/TEST-1) Search by label',
+        '',
+        '## Bug',
+        '',
+        '- [TEST-2](https://example.atlassian.net/browse/TEST-2) Crash on \\<empty\\> query',
+        '',
+        '## Task',
+        '',
+        '- [TEST-3](https://example.atlassian.net/browse/TEST-3) Update \\*all\\* dependencies',
+        '',
+      ].join('\n'));
+    });
+
+    it('should list issues under each of their components and the others last', async () => {
+      const notes = await generate(createClient(), { groupBy: 'component', ungroupedTitle: 'General' });
+
+      expect(notes.groups.map((group) => [group.title, group.issues.map((issue) => issue.key)])).toEqual([
+        ['Backend', ['TEST-1', 'TEST-2']],
+        ['Web', ['TEST-1']],
+        ['General', ['TEST-3']],
+      ]);
+    });
+
+    it('should count an issue with several components once', async () => {
+      const markdown = await generate(createClient(), { groupBy: 'component', templates: { title: '{issueCount} issues' } });
+      const json = await generate(createClient(), { groupBy: 'component', format: 'json' });
+
+      expect(markdown.issueCount).toBe(3);
+      expect(markdown.content.split('\n')[0]).toBe('3 issues');
+      expect(JSON.parse(json.content).issueCount).toBe(3);
+    });
+
+    it('should only use the where clause of a JQL builder filter', async () => {
+      const client = createClient();
+
+      await generate(client, { jql: jql().where('statusCategory').eq('Done').orderBy('priority', 'DESC') });
+
+      expect(client.issues.searchIssues.mock.calls[0][0]).toBe(
+        'project = "TEST" AND fixVersion = 10100 AND (statusCategory = "Done") ORDER BY key ASC'
+      );
+    });
+
+    it('should reject a JQL filter with an ORDER BY clause', async () => {
+      const client = createClient();
+
+      await expect(generate(client, { jql: 'statusCategory = Done ORDER BY priority DESC' })).rejects.toThrow(
+        'The release notes JQL filter must not have an ORDER BY clause'
+      );
+      expect(client.projects.getProjectVersions).not.toHaveBeenCalled();
+      expect(client.issues.searchIssues).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown version', async () => {
+      const client = createClient();
+      client.projects.getProjectVersions.mockResolvedValue([]);
+
+      await expect(generate(client)).rejects.toThrow('Version "2.4.0" not found in project TEST');
+      expect(client.issues.searchIssues).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderReleaseNotes', () => {
+    const groups = [{ title: 'Bug', issues: [issues[1]] }];
+
+    it('should render escaped HTML with custom templates', () => {
+      const content = renderReleaseNotes('TEST', version, groups, {
+        format: 'html',
+        templates: { title: '<h1>{version} ({releaseDate})</h1>', issue: '<li>{key}: {summary} [{status}]</li>' },
+        browseUrl: 'https://jira.example.com/',
+      });
+
+      expect(content).toBe([
+        '<h1>2.4.0 (2024-03-01)</h1>',
+        '',
+        '<h2>Bug</h2>',
+        '<ul>',
+        '<li>TEST-2: Crash on &lt;empty&gt; query [Done]</li>',
+        '</ul>',
+        '',
+      ].join('\n'));
+    });
+
+    it('should render JSON', () => {
+      const content = JSON.parse(renderReleaseNotes('TEST', version, groups, { format: 'json' }));
+
+      expect(content.version).toEqual({ id: '10100', name: '2.4.0', releaseDate: '2024-03-01' });
+      expect(content.issueCount).toBe(1);
+      expect(content.groups[0].issues[0]).toMatchObject({
+        key: 'TEST-2',
+        summary: 'Crash on <empty> query',
+        url: 'https://example.atlassian.net/browse/TEST-2',
+        components: 'Backend',
+      });
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import axios, { AxiosInstance } from 'axios';
+import { IssuesApiClient } from '../api/issues';
+import { JiraClientConfig, RetryContext } from '../types';
+import { JiraError } from '../utils/error';
+import { createRetryOptions, getRetryDelay, parseRetryAfter } from '../utils/retry';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const actualAxios = jest.requireActual('axios');
+
+function createAxiosError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status, headers, data: { errorMessages: [`Status ${status}`], errors: {} } },
+  });
+}
+
+describe('retry', () => {
+  describe('parseRetryAfter', () => {
+    const now = Date.parse('2024-01-01T00:00:00.000Z');
+
+    it('should parse a Retry-After delay in seconds', () => {
+      expect(parseRetryAfter({ 'retry-after': '5' }, now)).toBe(5000);
+    });
+
+    it('should parse a Retry-After HTTP date', () => {
+      expect(parseRetryAfter({ 'retry-after': 'Mon, 01 Jan 2024 00:00:10 GMT' }, now)).toBe(10000);
+    });
+
+    it('should parse an ISO 8601 X-RateLimit-Reset timestamp', () => {
+      expect(parseRetryAfter({ 'x-ratelimit-reset': '2024-01-01T00:01:00.000Z' }, now)).toBe(60000);
+    });
+
+    it('should return undefined when no header is present', () => {
+      expect(parseRetryAfter({}, now)).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const options = createRetryOptions({ maxRetries: 2, baseDelay: 100, jitter: false });
+
+    it('should back off exponentially', () => {
+      const error = new JiraError('Service unavailable', 503);
+
+      expect(getRetryDelay(error, 'get', 1, options)).toBe(100);
+      expect(getRetryDelay(error, 'get', 2, options)).toBe(200);
+      expect(getRetryDelay(error, 'get', 3, options)).toBeUndefined();
+    });
+
+    it('should not retry non-idempotent methods unless opted in', () => {
+      const error = new JiraError('Too many requests', 429);
+
+      expect(getRetryDelay(error, 'post', 1, options)).toBeUndefined();
+      expect(getRetryDelay(error, 'post', 1, { ...options, retryNonIdempotent: true })).toBe(100);
+    });
+
+    it('should not retry client errors', () => {
+      expect(getRetryDelay(new JiraError('Not found', 404), 'get', 1, options)).toBeUndefined();
+    });
+
+    it('should only retry transient network errors', () => {
+      const networkError = (code?: string): JiraError => new JiraError('Network failure', 0, {}, [], {}, code);
+
+      expect(getRetryDelay(networkError('ECONNRESET'), 'get', 1, options)).toBe(100);
+      expect(getRetryDelay(networkError('ECONNABORTED'), 'get', 1, options)).toBe(100);
+      expect(getRetryDelay(networkError('ECONNREFUSED'), 'get', 1, options)).toBeUndefined();
+      expect(getRetryDelay(networkError(), 'get', 1, options)).toBeUndefined();
+    });
+
+    it('should honour a server-requested delay up to maxDelay', () => {
+      const error = new JiraError('Too many requests', 429, {}, [], { 'retry-after': '2' });
+
+      expect(getRetryDelay(error, 'get', 1, options)).toBe(2000);
+      expect(getRetryDelay(error, 'get', 1, { ...options, maxDelay: 1000 })).toBeUndefined();
+    });
+  });
+
+  describe('BaseApiClient', () => {
+    const mockConfig: JiraClientConfig = {
+      baseUrl: 'https://example.atlassian.net',
+      token: 'test-token',
+    };
+
+    let mockAxiosInstance: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      mockAxiosInstance = {
+        get: jest.fn(),
+        post: jest.fn(),
+        put: jest.fn(),
+        delete: jest.fn(),
+      };
+
+      mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+      mockedAxios.isAxiosError.mockImplementation(actualAxios.isAxiosError);
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should retry rate-limited requests and report each retry', async () => {
+      const onRetry = jest.fn();
+      const issuesClient = new IssuesApiClient({
+        ...mockConfig,
+        retry: { maxRetries: 2, baseDelay: 1, onRetry },
+      });
+
+      mockAxiosInstance.get
+        .mockRejectedValueOnce(createAxiosError(429, { 'retry-after': '0' }))
+        .mockResolvedValueOnce({ data: { transitions: [] } });
+
+      const result = await issuesClient.getTransitions('TEST-1');
+
+      expect(result).toEqual([]);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+
+      const context: RetryContext = onRetry.mock.calls[0][0];
+      expect(context).toMatchObject({ method: 'get', url: '/issue/TEST-1/transitions', attempt: 1, delay: 0 });
+      expect(context.error.status).toBe(429);
+    });
+
+    it('should throw the last error once retries are exhausted', async () => {
+      const issuesClient = new IssuesApiClient({
+        ...mockConfig,
+        retry: { maxRetries: 1, baseDelay: 1 },
+      });
+
+      mockAxiosInstance.get.mockRejectedValue(createAxiosError(503));
+
+      await expect(issuesClient.getTransitions('TEST-1')).rejects.toMatchObject({
+        name: 'JiraError',
+        status: 503,
+      });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report network errors with status 0 and their code', async () => {
+      const issuesClient = new IssuesApiClient({
+        ...mockConfig,
+        retry: { maxRetries: 2, baseDelay: 1 },
+      });
+
+      mockAxiosInstance.get
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { isAxiosError: true, code: 'ECONNRESET' }))
+        .mockRejectedValueOnce(Object.assign(new Error('getaddrinfo ENOTFOUND'), { isAxiosError: true, code: 'ENOTFOUND' }));
+
+      await expect(issuesClient.getTransitions('TEST-1')).rejects.toMatchObject({
+        name: 'JiraError',
+        status: 0,
+        code: 'ENOTFOUND',
+      });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry exceptions thrown on the client', async () => {
+      const issuesClient = new IssuesApiClient({
+        ...mockConfig,
+        retry: { maxRetries: 2, baseDelay: 1 },
+      });
+
+      mockAxiosInstance.get.mockRejectedValue(new TypeError('Cannot read properties of undefined'));
+
+      await expect(issuesClient.getTransitions('TEST-1')).rejects.toMatchObject({ status: 0, code: undefined });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry by default', async () => {
+      const issuesClient = new IssuesApiClient(mockConfig);
+
+      mockAxiosInstance.get.mockRejectedValue(createAxiosError(503));
+
+      await expect(issuesClient.getTransitions('TEST-1')).rejects.toThrow('Status 503');
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import axios, { AxiosInstance } from 'axios';
+import { TasksApiClient } from '../api/tasks';
+import { JiraClientConfig, JiraTask } from '../types';
+import { JiraError, JiraTaskError } from '../utils/error';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('TasksApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const createTask = (status: JiraTask['status'], progress: number, message?: string): JiraTask => ({
+    id: '42',
+    self: 'https://example.atlassian.net/rest/api/3/task/42',
+    status,
+    message,
+    submittedBy: 10000,
+    progress,
+    elapsedRuntime: 0,
+    submitted: 1706745600000,
+    lastUpdate: 1706745600000,
+  });
+
+  let tasksClient: TasksApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    tasksClient = new TasksApiClient(mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should get and cancel a task', async () => {
+    mockAxiosInstance.get.mockResolvedValue({ data: createTask('RUNNING', 50) });
+    mockAxiosInstance.post.mockResolvedValue({ data: undefined });
+
+    const task = await tasksClient.getTask('42');
+    await tasksClient.cancelTask('42');
+
+    expect(task.progress).toBe(50);
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/task/42', undefined);
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith('/task/42/cancel', undefined, undefined);
+  });
+
+  describe('waitForTask', () => {
+    it('should poll until the task completes, reporting progress', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: createTask('ENQUEUED', 0) })
+        .mockResolvedValueOnce({ data: createTask('RUNNING', 50) })
+        .mockResolvedValueOnce({ data: { ...createTask('COMPLETE', 100), result: 'done' } });
+      const progress: number[] = [];
+
+      const task = await tasksClient.waitForTask('42', { interval: 1, onProgress: (item) => progress.push(item.progress) });
+
+      expect(task.result).toBe('done');
+      expect(progress).toEqual([0, 50, 100]);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw a JiraTaskError when the task fails', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: createTask('FAILED', 30, 'Project is locked') });
+
+      const error = await tasksClient.waitForTask('42', { interval: 1 }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(JiraTaskError);
+      expect((error as JiraTaskError).message).toBe('Task 42 ended with status FAILED: Project is locked');
+      expect((error as JiraTaskError).task.progress).toBe(30);
+    });
+
+    it('should give up after the timeout', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: createTask('RUNNING', 10) });
+
+      const error = await tasksClient.waitForTask('42', { interval: 50, timeout: 20 }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(JiraTaskError);
+      expect((error as JiraTaskError).status).toBe(408);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting when aborted', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: createTask('RUNNING', 10) });
+      const controller = new AbortController();
+
+      const wait = tasksClient.waitForTask('42', { interval: 10000, signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(wait).rejects.toEqual(new JiraError('Request aborted', 0));
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
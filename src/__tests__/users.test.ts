@@ -0,0 +1,105 @@
+import axios, { AxiosInstance } from 'axios';
+import { UsersApiClient } from '../api/users';
+import { JiraClientConfig, JiraUser } from '../types';
+import { fetchAllPages } from '../utils/pagination';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('UsersApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const users = Array.from({ length: 5 }, (_, index) => ({
+    accountId: `user-${index}`,
+    displayName: `User ${index}`,
+    active: true,
+  })) as unknown as JiraUser[];
+
+  // Both endpoints return a plain array, shorter than maxResults on the last page
+  const userPage = async (_url: string, config: { params: { startAt: number; maxResults: number } }): Promise<unknown> => ({
+    data: users.slice(config.params.startAt, config.params.startAt + config.params.maxResults),
+  });
+
+  let usersClient: UsersApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    usersClient = new UsersApiClient(mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('searchUsers', () => {
+    it('should not report a full page as the last one', async () => {
+      mockAxiosInstance.get.mockImplementation(userPage);
+
+      const result = await usersClient.searchUsers('user', { maxResults: 2 });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/user/search', {
+        params: { query: 'user', startAt: 0, maxResults: 2 },
+      });
+      expect(result).toEqual({ values: users.slice(0, 2), startAt: 0, maxResults: 2, isLast: false });
+    });
+
+    it('should report a short page as the last one', async () => {
+      mockAxiosInstance.get.mockImplementation(userPage);
+
+      const result = await usersClient.searchUsers('user', { startAt: 4, maxResults: 2 });
+
+      expect(result).toEqual({ values: users.slice(4), startAt: 4, maxResults: 2, isLast: true });
+    });
+
+    it('should fetch every user with fetchAllPages', async () => {
+      mockAxiosInstance.get.mockImplementation(userPage);
+
+      const result = await fetchAllPages((params) => usersClient.searchUsers('user', params), { maxResults: 2 });
+
+      expect(result).toEqual(users);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getAssignableUsers', () => {
+    it('should not report a full page as the last one', async () => {
+      mockAxiosInstance.get.mockImplementation(userPage);
+
+      const result = await usersClient.getAssignableUsers('TEST', { maxResults: 2 });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/user/assignable/search', {
+        params: { project: 'TEST', startAt: 0, maxResults: 2 },
+      });
+      expect(result).toEqual({ values: users.slice(0, 2), startAt: 0, maxResults: 2, isLast: false });
+    });
+
+    it('should report a short page as the last one', async () => {
+      mockAxiosInstance.get.mockImplementation(userPage);
+
+      const result = await usersClient.getAssignableUsers('TEST', { startAt: 4, maxResults: 2 });
+
+      expect(result).toEqual({ values: users.slice(4), startAt: 4, maxResults: 2, isLast: true });
+    });
+
+    it('should fetch every assignable user with fetchAllPages', async () => {
+      mockAxiosInstance.get.mockImplementation(userPage);
+
+      const result = await fetchAllPages((params) => usersClient.getAssignableUsers('TEST', params), { maxResults: 2 });
+
+      expect(result).toEqual(users);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+    });
+  });
+});
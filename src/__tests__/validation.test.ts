@@ -0,0 +1,102 @@
+import { JiraCreateMetaField } from '../types';
+import { JiraError } from '../utils/error';
+import { createValidationError, validateIssueFields } from '../utils/validation';
+
+describe('validateIssueFields', () => {
+  const metaFields: JiraCreateMetaField[] = [
+    { fieldId: 'project', name: 'Project', required: true, schema: { type: 'project', system: 'project' } },
+    { fieldId: 'issuetype', name: 'Issue Type', required: true, schema: { type: 'issuetype', system: 'issuetype' } },
+    { fieldId: 'summary', name: 'Summary', required: true, schema: { type: 'string', system: 'summary' } },
+    {
+      fieldId: 'priority',
+      name: 'Priority',
+      required: true,
+      hasDefaultValue: true,
+      schema: { type: 'priority', system: 'priority' },
+      allowedValues: [{ id: '1', name: 'High' }, { id: '2', name: 'Low' }],
+    },
+    { fieldId: 'duedate', name: 'Due Date', required: false, schema: { type: 'date', system: 'duedate' } },
+    { fieldId: 'customfield_10016', name: 'Story Points', required: false, schema: { type: 'number' } },
+    {
+      fieldId: 'labels',
+      name: 'Labels',
+      required: false,
+      schema: { type: 'array', items: 'string', system: 'labels' },
+    },
+    {
+      fieldId: 'customfield_10020',
+      name: 'Region',
+      required: false,
+      schema: { type: 'option-with-child' },
+      allowedValues: [{ id: '10', value: 'EMEA', children: [{ id: '11', value: 'France' }] }],
+    },
+  ];
+
+  const validFields = {
+    project: { key: 'TEST' },
+    issuetype: { name: 'Task' },
+    summary: 'Test',
+  };
+
+  it('should accept valid fields', () => {
+    expect(validateIssueFields({
+      ...validFields,
+      priority: { name: 'High' },
+      duedate: '2024-05-01',
+      customfield_10016: 3,
+      labels: ['backend'],
+      customfield_10020: { value: 'EMEA', child: { id: '11' } },
+    }, metaFields)).toEqual({});
+  });
+
+  it('should report missing required fields without a default value', () => {
+    expect(validateIssueFields({ ...validFields, summary: ' ' }, metaFields)).toEqual({
+      summary: 'Summary is required.',
+    });
+  });
+
+  it('should report values of the wrong type', () => {
+    expect(validateIssueFields({
+      ...validFields,
+      duedate: '01/05/2024',
+      customfield_10016: '3',
+      labels: 'backend',
+    }, metaFields)).toEqual({
+      duedate: 'Due Date must be a date in the format YYYY-MM-DD.',
+      customfield_10016: 'Story Points must be a number.',
+      labels: 'Labels must be a list.',
+    });
+  });
+
+  it('should report values that are not allowed', () => {
+    expect(validateIssueFields({
+      ...validFields,
+      priority: { id: '3' },
+      customfield_10020: { value: 'EMEA', child: { value: 'Spain' } },
+    }, metaFields)).toEqual({
+      priority: 'Priority does not allow the value "3".',
+      customfield_10020: 'Region does not allow the value "Spain" under "EMEA".',
+    });
+  });
+
+  it('should report fields that cannot be set', () => {
+    expect(validateIssueFields({ ...validFields, customfield_99999: 'x' }, metaFields)).toEqual({
+      customfield_99999: "Field 'customfield_99999' cannot be set. It is not on the appropriate screen, or unknown.",
+    });
+  });
+});
+
+describe('createValidationError', () => {
+  it('should create a JiraError shaped like a Jira validation error', () => {
+    const error = createValidationError({
+      valid: false,
+      errors: { summary: 'Summary is required.' },
+      errorMessages: [],
+    });
+
+    expect(error).toBeInstanceOf(JiraError);
+    expect(error.message).toBe('summary: Summary is required.');
+    expect(error.status).toBe(400);
+    expect(error.errors).toEqual({ summary: 'Summary is required.' });
+  });
+});
@@ -0,0 +1,149 @@
+import axios, { AxiosInstance } from 'axios';
+import { VersionsApiClient } from '../api/versions';
+import { JiraClientConfig, JiraVersion } from '../types';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('VersionsApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const version: JiraVersion = {
+    id: '10100',
+    self: 'https://example.atlassian.net/rest/api/3/version/10100',
+    name: '1.0.0',
+    projectId: 10000,
+    archived: false,
+    released: false,
+  };
+
+  let versionsClient: VersionsApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    versionsClient = new VersionsApiClient(mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getVersions', () => {
+    it('should get a page of versions with filters', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { values: [version], startAt: 0, maxResults: 50, total: 1, isLast: true },
+      });
+
+      const result = await versionsClient.getVersions('TEST', { status: ['unreleased', 'archived'], orderBy: '-releaseDate' });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/project/TEST/version', {
+        params: { startAt: 0, maxResults: 50, status: 'unreleased,archived', orderBy: '-releaseDate' },
+      });
+      expect(result.values).toEqual([version]);
+      expect(result.isLast).toBe(true);
+    });
+  });
+
+  describe('createVersion', () => {
+    it('should create a version with dates as YYYY-MM-DD', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: version });
+
+      const result = await versionsClient.createVersion({
+        name: '1.0.0',
+        projectId: 10000,
+        startDate: new Date('2024-02-01T00:00:00.000Z'),
+        releaseDate: '2024-03-01',
+      });
+
+      expect(result).toEqual(version);
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/version', {
+        name: '1.0.0',
+        projectId: 10000,
+        startDate: '2024-02-01',
+        releaseDate: '2024-03-01',
+      }, undefined);
+    });
+  });
+
+  describe('releaseVersion and archiveVersion', () => {
+    it('should release a version on the given date and archive it', async () => {
+      mockAxiosInstance.put.mockResolvedValue({ data: version });
+
+      await versionsClient.releaseVersion('10100', '2024-03-01');
+      await versionsClient.archiveVersion('10100');
+
+      expect(mockAxiosInstance.put.mock.calls.map(([url, body]) => [url, body])).toEqual([
+        ['/version/10100', { released: true, releaseDate: '2024-03-01' }],
+        ['/version/10100', { archived: true }],
+      ]);
+    });
+  });
+
+  describe('mergeVersion', () => {
+    it('should merge a version into another', async () => {
+      mockAxiosInstance.put.mockResolvedValue({ data: undefined });
+
+      await versionsClient.mergeVersion('10100', '10101');
+
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/version/10100/mergeto/10101', undefined, undefined);
+    });
+  });
+
+  describe('moveVersion', () => {
+    it('should move a version to a position or after another version', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: version });
+
+      await versionsClient.moveVersion('10100', 'First');
+      await versionsClient.moveVersion('10100', { after: '10101' });
+
+      expect(mockAxiosInstance.post.mock.calls.map(([url, body]) => [url, body])).toEqual([
+        ['/version/10100/move', { position: 'First' }],
+        ['/version/10100/move', { after: 'https://example.atlassian.net/rest/api/3/version/10101' }],
+      ]);
+    });
+  });
+
+  describe('deleteVersion', () => {
+    it('should delete a version and move its issues', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: undefined });
+
+      await versionsClient.deleteVersion('10100', { moveFixIssuesTo: '10101' });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/version/10100/removeAndSwap', {
+        moveFixIssuesTo: '10101',
+      }, undefined);
+    });
+  });
+
+  describe('issue counts', () => {
+    it('should get the related and unresolved issue counts', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({
+          data: { issuesFixedCount: 4, issuesAffectedCount: 1, issueCountWithCustomFieldsShowingVersion: 0 },
+        })
+        .mockResolvedValueOnce({ data: { issuesUnresolvedCount: 2, issuesCount: 4 } });
+
+      const related = await versionsClient.getRelatedIssueCounts('10100');
+      const unresolved = await versionsClient.getUnresolvedIssueCount('10100');
+
+      expect(mockAxiosInstance.get.mock.calls.map(([url]) => url)).toEqual([
+        '/version/10100/relatedIssueCounts',
+        '/version/10100/unresolvedIssueCount',
+      ]);
+      expect(related.issuesFixedCount).toBe(4);
+      expect(unresolved.issuesUnresolvedCount).toBe(2);
+    });
+  });
+});
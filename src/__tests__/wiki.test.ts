@@ -0,0 +1,186 @@
+import { adf, adfToPlainText } from '../utils/adf';
+import { adfToWiki, markdownToWiki, wikiToAdf, wikiToMarkdown } from '../utils/wiki';
+
+describe('Wiki markup', () => {
+  describe('wikiToAdf', () => {
+    it('should parse headings, formatting and links', () => {
+      const doc = wikiToAdf('h2. Summary\n\n*bold* _italic_ -gone- +under+ {{code}} [docs|https://example.com] [~accountid:user123]');
+
+      expect(doc.content).toEqual([
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Summary' }] },
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'bold', marks: [{ type: 'strong' }] },
+            { type: 'text', text: ' ' },
+            { type: 'text', text: 'italic', marks: [{ type: 'em' }] },
+            { type: 'text', text: ' ' },
+            { type: 'text', text: 'gone', marks: [{ type: 'strike' }] },
+            { type: 'text', text: ' ' },
+            { type: 'text', text: 'under', marks: [{ type: 'underline' }] },
+            { type: 'text', text: ' ' },
+            { type: 'text', text: 'code', marks: [{ type: 'code' }] },
+            { type: 'text', text: ' ' },
+            { type: 'text', text: 'docs', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] },
+            { type: 'text', text: ' ' },
+            { type: 'mention', attrs: { id: 'user123' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should parse code blocks, panels, nested lists and tables', () => {
+      const doc = wikiToAdf([
+        '{code:java}',
+        'int x = 1;',
+        '{code}',
+        '{warning}',
+        'Careful',
+        '{warning}',
+        '* one',
+        '*# nested',
+        '* two',
+        '||Name||Value||',
+        '|a|[link|https://example.com]|',
+      ].join('\n'));
+
+      expect(doc.content).toEqual([
+        { type: 'codeBlock', attrs: { language: 'java' }, content: [{ type: 'text', text: 'int x = 1;' }] },
+        {
+          type: 'panel',
+          attrs: { panelType: 'warning' },
+          content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Careful' }] }],
+        },
+        {
+          type: 'bulletList',
+          content: [
+            {
+              type: 'listItem',
+              content: [
+                { type: 'paragraph', content: [{ type: 'text', text: 'one' }] },
+                {
+                  type: 'orderedList',
+                  content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'nested' }] }] }],
+                },
+              ],
+            },
+            { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'two' }] }] },
+          ],
+        },
+        {
+          type: 'table',
+          content: [
+            {
+              type: 'tableRow',
+              content: [
+                { type: 'tableHeader', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Name' }] }] },
+                { type: 'tableHeader', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Value' }] }] },
+              ],
+            },
+            {
+              type: 'tableRow',
+              content: [
+                { type: 'tableCell', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'a' }] }] },
+                {
+                  type: 'tableCell',
+                  content: [{
+                    type: 'paragraph',
+                    content: [{ type: 'text', text: 'link', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] }],
+                  }],
+                },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should not treat delimiters inside words as formatting', () => {
+      expect(wikiToAdf('a well-known snake_case_name costs 2*3').content).toEqual([
+        { type: 'paragraph', content: [{ type: 'text', text: 'a well-known snake_case_name costs 2*3' }] },
+      ]);
+    });
+  });
+
+  describe('adfToWiki', () => {
+    it('should escape characters that would be read as markup', () => {
+      const doc = wikiToAdf('\\*not bold\\* and \\[not a link\\]');
+
+      expect(adfToWiki(doc)).toBe('\\*not bold\\* and \\[not a link\\]');
+    });
+
+    it('should write backslashes as entities rather than line breaks', () => {
+      const doc = adf().paragraph((p) => p.text('C:\\path\\to ').code('\\d+')).build();
+
+      expect(adfToWiki(doc)).toBe('C:&#92;path&#92;to {{&#92;d+}}');
+      expect(adfToPlainText(wikiToAdf(adfToWiki(doc)))).toBe('C:\\path\\to \\d+');
+    });
+  });
+
+  describe('Markdown conversion', () => {
+    it('should convert Markdown to wiki markup', () => {
+      const markdown = [
+        '# Title',
+        '',
+        'Some **bold**, _italic_ and ~~struck~~ text with `code` and a [link](https://example.com).',
+        '',
+        '1. first',
+        '2. second',
+        '   - nested',
+        '',
+        '```ts',
+        'const x = 1;',
+        '```',
+        '',
+        '> quoted',
+        '',
+        '---',
+      ].join('\n');
+
+      expect(markdownToWiki(markdown)).toBe([
+        'h1. Title',
+        '',
+        'Some *bold*, _italic_ and -struck- text with {{code}} and a [link|https://example.com].',
+        '',
+        '# first',
+        '# second',
+        '#* nested',
+        '',
+        '{code:ts}',
+        'const x = 1;',
+        '{code}',
+        '',
+        '{quote}',
+        'quoted',
+        '{quote}',
+        '',
+        '----',
+      ].join('\n'));
+    });
+
+    it.each([
+      '## Heading\n\nA paragraph with **bold** and _italic_ text.',
+      '- one\n- two\n  1. nested\n  2. items',
+      'Use `npm install` and see [the docs](https://example.com/docs).',
+      '```bash\nnpm test\n```',
+      '> quoted text',
+      '| Name | Value |\n| --- | --- |\n| a | b |',
+      'Line one\nLine two',
+      'Open C:\\\\path\\\\to and match `\\d+` here',
+    ])('should round-trip Markdown through wiki markup: %j', (markdown) => {
+      expect(wikiToMarkdown(markdownToWiki(markdown))).toBe(markdown);
+    });
+
+    it.each([
+      'h3. Heading\n\nA paragraph with *bold* and _italic_ text.',
+      '* one\n* two\n*# nested\n*# items',
+      'Use {{npm install}} and see [the docs|https://example.com/docs].',
+      '{code:bash}\nnpm test\n{code}',
+      '{quote}\nquoted text\n{quote}',
+      '||Name||Value||\n|a|b|',
+      'Open C:&#92;path&#92;to and match {{&#92;d+}} here',
+    ])('should round-trip wiki markup through Markdown: %j', (wiki) => {
+      expect(markdownToWiki(wikiToMarkdown(wiki))).toBe(wiki);
+    });
+  });
+});
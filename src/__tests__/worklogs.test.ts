@@ -0,0 +1,193 @@
+import axios, { AxiosInstance } from 'axios';
+import { WorklogsApiClient } from '../api/worklogs';
+import { JiraClientConfig, JiraWorklog } from '../types';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('WorklogsApiClient', () => {
+  const mockConfig: JiraClientConfig = {
+    baseUrl: 'https://example.atlassian.net',
+    token: 'test-token',
+  };
+
+  const worklog: JiraWorklog = {
+    id: '10100',
+    self: 'https://example.atlassian.net/rest/api/3/issue/10000/worklog/10100',
+    issueId: '10000',
+    started: '2024-01-31T09:00:00.000+0000',
+    timeSpent: '1h 30m',
+    timeSpentSeconds: 5400,
+    created: '2024-01-31T10:30:00.000+0000',
+    updated: '2024-01-31T10:30:00.000+0000',
+  };
+
+  let worklogsClient: WorklogsApiClient;
+  let mockAxiosInstance: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+    worklogsClient = new WorklogsApiClient(mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getWorklogs', () => {
+    it('should get a page of worklogs started in a range', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { worklogs: [worklog], total: 1, startAt: 0, maxResults: 50 },
+      });
+
+      const result = await worklogsClient.getWorklogs('TEST-1', {
+        startedAfter: new Date('2024-01-01T00:00:00.000Z'),
+        startedBefore: 1706745600000,
+      });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issue/TEST-1/worklog', {
+        params: { startAt: 0, maxResults: 50, startedAfter: 1704067200000, startedBefore: 1706745600000 },
+      });
+      expect(result.values).toEqual([worklog]);
+      expect(result.isLast).toBe(true);
+    });
+
+    it('should iterate over every worklog', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { worklogs: [worklog], total: 2, startAt: 0, maxResults: 1 } })
+        .mockResolvedValueOnce({ data: { worklogs: [{ ...worklog, id: '10101' }], total: 2, startAt: 1, maxResults: 1 } });
+
+      const ids: string[] = [];
+      for await (const item of worklogsClient.iterateWorklogs('TEST-1', { maxResults: 1, startedAfter: 0 })) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual(['10100', '10101']);
+      expect(mockAxiosInstance.get.mock.calls[1][1].params).toEqual({ startAt: 1, maxResults: 1, startedAfter: 0 });
+    });
+  });
+
+  describe('addWorklog', () => {
+    it('should log time with a converted comment and start time', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: worklog });
+
+      const result = await worklogsClient.addWorklog('TEST-1', {
+        timeSpent: '1h 30m',
+        started: new Date('2024-01-31T09:00:00.000Z'),
+        comment: 'Fixed the **build**',
+      });
+
+      expect(result).toEqual(worklog);
+      const [url, body, config] = mockAxiosInstance.post.mock.calls[0];
+      expect(url).toBe('/issue/TEST-1/worklog');
+      expect(body.timeSpent).toBe('1h 30m');
+      expect(body.started).toBe('2024-01-31T09:00:00.000+0000');
+      expect(body.comment.type).toBe('doc');
+      expect(config).toBeUndefined();
+    });
+
+    it('should default the start time to now', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: worklog });
+
+      await worklogsClient.addWorklog('TEST-1', { timeSpentSeconds: 600 });
+
+      const body = mockAxiosInstance.post.mock.calls[0][1];
+      expect(body.timeSpentSeconds).toBe(600);
+      expect(body.started).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}\+0000$/);
+    });
+
+    it('should pass the estimate options the endpoint accepts', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: worklog });
+
+      await worklogsClient.addWorklog('TEST-1', { timeSpent: '1h' }, {
+        adjustEstimate: 'manual',
+        reduceBy: '2h',
+        increaseBy: '1h',
+        notifyUsers: false,
+      });
+
+      expect(mockAxiosInstance.post.mock.calls[0][2]).toEqual({
+        params: { adjustEstimate: 'manual', reduceBy: '2h', notifyUsers: false },
+      });
+    });
+  });
+
+  describe('updateWorklog', () => {
+    it('should update a worklog and set a new estimate', async () => {
+      mockAxiosInstance.put.mockResolvedValue({ data: worklog });
+
+      await worklogsClient.updateWorklog('TEST-1', '10100', { timeSpent: '2h' }, {
+        adjustEstimate: 'new',
+        newEstimate: '1d',
+      });
+
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/issue/TEST-1/worklog/10100', { timeSpent: '2h' }, {
+        params: { adjustEstimate: 'new', newEstimate: '1d' },
+      });
+    });
+  });
+
+  describe('deleteWorklog', () => {
+    it('should delete a worklog and increase the estimate', async () => {
+      mockAxiosInstance.delete.mockResolvedValue({ data: undefined });
+
+      await worklogsClient.deleteWorklog('TEST-1', '10100', { adjustEstimate: 'manual', increaseBy: '1h 30m' });
+
+      expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/issue/TEST-1/worklog/10100', {
+        params: { adjustEstimate: 'manual', increaseBy: '1h 30m' },
+      });
+    });
+  });
+
+  describe('getWorklogsByIds', () => {
+    it('should request worklogs in chunks of 1000', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: [worklog] });
+      const ids = Array.from({ length: 1001 }, (_, index) => String(index + 1));
+
+      const result = await worklogsClient.getWorklogsByIds(ids);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.post.mock.calls[0][0]).toBe('/worklog/list');
+      expect(mockAxiosInstance.post.mock.calls[0][1].ids).toHaveLength(1000);
+      expect(mockAxiosInstance.post.mock.calls[1][1]).toEqual({ ids: [1001] });
+      expect(result).toEqual([worklog, worklog]);
+    });
+  });
+
+  describe('syncWorklogs', () => {
+    it('should collect the updated and deleted worklogs since the last sync', async () => {
+      mockAxiosInstance.get.mockImplementation(async (url: string, config: { params: { since: number } }) => {
+        const { since } = config.params;
+
+        if (url === '/worklog/deleted') {
+          return { data: { values: [{ worklogId: 10050, updatedTime: 1500, properties: [] }], since, until: 1500, lastPage: true } };
+        }
+
+        return since === 1000
+          ? { data: { values: [{ worklogId: 10100, updatedTime: 2000, properties: [] }], since, until: 2000, lastPage: false } }
+          : { data: { values: [{ worklogId: 10101, updatedTime: 3000, properties: [] }], since, until: 3000, lastPage: true } };
+      });
+      mockAxiosInstance.post.mockResolvedValue({ data: [worklog, { ...worklog, id: '10101' }] });
+
+      const result = await worklogsClient.syncWorklogs(1000);
+
+      expect(mockAxiosInstance.get.mock.calls.map(([url, config]) => [url, config.params.since])).toEqual([
+        ['/worklog/updated', 1000],
+        ['/worklog/updated', 2000],
+        ['/worklog/deleted', 1000],
+      ]);
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/worklog/list', { ids: [10100, 10101] }, {});
+      expect(result.worklogs.map((item) => item.id)).toEqual(['10100', '10101']);
+      expect(result.deletedIds).toEqual([10050]);
+      expect(result.until).toBe(1500);
+    });
+  });
+});
@@ -0,0 +1,470 @@
+import { AxiosRequestConfig } from 'axios';
+import { BaseApiClient } from './base';
+import {
+  AgileIssueQueryParams,
+  BoardQueryParams,
+  CreateSprintData,
+  IterateOptions,
+  JiraBoard,
+  JiraBoardConfiguration,
+  JiraEpic,
+  JiraIssue,
+  JiraSprint,
+  JiraSprintState,
+  PaginatedResponse,
+  PaginationParams,
+  RankIssueResult,
+  RankIssuesOptions,
+  RequestOptions,
+  UncountedPaginatedResponse,
+  UpdateSprintData
+} from '../types';
+import { chunk } from '../utils/bulk';
+import { createPaginatedResponse, createPaginationParams, iterateAll, toPaginatedResponse } from '../utils/pagination';
+
+/**
+ * REST base path of the Jira Software Agile API
+ */
+export const AGILE_API_PATH = '/rest/agile/1.0';
+
+/**
+ * Maximum number of issues Jira moves or ranks in one request
+ */
+const AGILE_ISSUE_LIMIT = 50;
+
+/**
+ * Page of values from the Agile API, which reports the last page with `isLast`
+ */
+interface AgileValuePage<T> {
+  values: T[];
+  startAt: number;
+  maxResults: number;
+  total?: number;
+  isLast: boolean;
+}
+
+/**
+ * API client for Jira Software boards, sprints, backlogs and epics
+ */
+export class AgileApiClient extends BaseApiClient {
+  /** The REST base path of the Agile API */
+  protected readonly basePath = AGILE_API_PATH;
+
+  /**
+   * Get the boards the user can see
+   * @param query - The pagination parameters and filters
+   * @param options - The request options
+   * @returns The boards
+   */
+  async getBoards(query?: BoardQueryParams, options?: RequestOptions): Promise<UncountedPaginatedResponse<JiraBoard>> {
+    const { type, name, projectKeyOrId } = query ?? {};
+
+    return this.getValuePage<JiraBoard>('/board', query, { type, name, projectKeyOrId }, options);
+  }
+
+  /**
+   * Iterate over every board the user can see, fetching pages as needed
+   * @param query - The filters
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the boards
+   */
+  iterateBoards(
+    query?: Omit<BoardQueryParams, keyof PaginationParams>,
+    options?: IterateOptions
+  ): AsyncGenerator<JiraBoard, void, undefined> {
+    return iterateAll((params, signal) => this.getBoards({ ...query, ...params }, { signal }), options);
+  }
+
+  /**
+   * Get a board
+   * @param boardId - The board ID
+   * @returns The board
+   */
+  async getBoard(boardId: number): Promise<JiraBoard> {
+    return this.get<JiraBoard>(`/board/${boardId}`);
+  }
+
+  /**
+   * Get the configuration of a board
+   * @param boardId - The board ID
+   * @returns The filter, columns, estimation and ranking of the board
+   */
+  async getBoardConfiguration(boardId: number): Promise<JiraBoardConfiguration> {
+    return this.get<JiraBoardConfiguration>(`/board/${boardId}/configuration`);
+  }
+
+  /**
+   * Get the issues of a board
+   * @param boardId - The board ID
+   * @param query - The pagination parameters, JQL filter and fields
+   * @param options - The request options
+   * @returns The issues, in rank order
+   */
+  async getBoardIssues(
+    boardId: number,
+    query?: AgileIssueQueryParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraIssue>> {
+    return this.getIssuePage(`/board/${boardId}/issue`, query, options);
+  }
+
+  /**
+   * Get the backlog of a board: the issues not in an active or future sprint
+   * @param boardId - The board ID
+   * @param query - The pagination parameters, JQL filter and fields
+   * @param options - The request options
+   * @returns The issues, in rank order
+   */
+  async getBacklogIssues(
+    boardId: number,
+    query?: AgileIssueQueryParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraIssue>> {
+    return this.getIssuePage(`/board/${boardId}/backlog`, query, options);
+  }
+
+  /**
+   * Iterate over the backlog of a board, fetching pages as needed
+   * @param boardId - The board ID
+   * @param query - The JQL filter and fields
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the issues
+   */
+  iterateBacklogIssues(
+    boardId: number,
+    query?: Omit<AgileIssueQueryParams, keyof PaginationParams>,
+    options?: IterateOptions
+  ): AsyncGenerator<JiraIssue, void, undefined> {
+    return iterateAll((params, signal) => this.getBacklogIssues(boardId, { ...query, ...params }, { signal }), options);
+  }
+
+  /**
+   * Move issues to the backlog, out of any sprint
+   * @param issueIdOrKeys - The issue IDs or keys; split into requests of 50
+   * @returns Nothing
+   */
+  async moveIssuesToBacklog(issueIdOrKeys: string[]): Promise<void> {
+    for (const issues of chunk(issueIdOrKeys, AGILE_ISSUE_LIMIT)) {
+      await this.post<void>('/backlog/issue', { issues });
+    }
+  }
+
+  /**
+   * Get the sprints of a board
+   * @param boardId - The ID of a scrum board
+   * @param query - The pagination parameters and the sprint states to return
+   * @param options - The request options
+   * @returns The sprints, oldest first
+   */
+  async getSprints(
+    boardId: number,
+    query?: PaginationParams & { state?: JiraSprintState | JiraSprintState[] },
+    options?: RequestOptions
+  ): Promise<UncountedPaginatedResponse<JiraSprint>> {
+    const state = Array.isArray(query?.state) ? query?.state.join(',') : query?.state;
+
+    return this.getValuePage<JiraSprint>(`/board/${boardId}/sprint`, query, { state }, options);
+  }
+
+  /**
+   * Iterate over the sprints of a board, fetching pages as needed
+   * @param boardId - The ID of a scrum board
+   * @param state - The sprint states to return (default: all)
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the sprints
+   */
+  iterateSprints(
+    boardId: number,
+    state?: JiraSprintState | JiraSprintState[],
+    options?: IterateOptions
+  ): AsyncGenerator<JiraSprint, void, undefined> {
+    return iterateAll((params, signal) => this.getSprints(boardId, { ...params, state }, { signal }), options);
+  }
+
+  /**
+   * Get a sprint
+   * @param sprintId - The sprint ID
+   * @returns The sprint
+   */
+  async getSprint(sprintId: number): Promise<JiraSprint> {
+    return this.get<JiraSprint>(`/sprint/${sprintId}`);
+  }
+
+  /**
+   * Create a future sprint
+   * @param data - The sprint name, board, dates and goal
+   * @returns The created sprint
+   */
+  async createSprint(data: CreateSprintData): Promise<JiraSprint> {
+    return this.post<JiraSprint>('/sprint', formatSprint(data));
+  }
+
+  /**
+   * Update a sprint
+   * @param sprintId - The sprint ID
+   * @param data - The fields to change; the others are left unchanged
+   * @returns The updated sprint
+   */
+  async updateSprint(sprintId: number, data: UpdateSprintData): Promise<JiraSprint> {
+    return this.post<JiraSprint>(`/sprint/${sprintId}`, formatSprint(data));
+  }
+
+  /**
+   * Start a future sprint
+   * @param sprintId - The sprint ID
+   * @param dates - The start and end dates; required unless already set on the sprint
+   * @returns The started sprint
+   */
+  async startSprint(
+    sprintId: number,
+    dates?: Pick<UpdateSprintData, 'startDate' | 'endDate'>
+  ): Promise<JiraSprint> {
+    return this.updateSprint(sprintId, { ...dates, state: 'active' });
+  }
+
+  /**
+   * Complete an active sprint
+   * @param sprintId - The sprint ID
+   * @returns The completed sprint
+   */
+  async completeSprint(sprintId: number): Promise<JiraSprint> {
+    return this.updateSprint(sprintId, { state: 'closed' });
+  }
+
+  /**
+   * Delete a sprint; its issues move to the backlog
+   * @param sprintId - The sprint ID
+   * @returns Nothing
+   */
+  async deleteSprint(sprintId: number): Promise<void> {
+    await this.delete<void>(`/sprint/${sprintId}`);
+  }
+
+  /**
+   * Get the issues of a sprint
+   * @param sprintId - The sprint ID
+   * @param query - The pagination parameters, JQL filter and fields
+   * @param options - The request options
+   * @returns The issues, in rank order
+   */
+  async getSprintIssues(
+    sprintId: number,
+    query?: AgileIssueQueryParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraIssue>> {
+    return this.getIssuePage(`/sprint/${sprintId}/issue`, query, options);
+  }
+
+  /**
+   * Iterate over the issues of a sprint, fetching pages as needed
+   * @param sprintId - The sprint ID
+   * @param query - The JQL filter and fields
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the issues
+   */
+  iterateSprintIssues(
+    sprintId: number,
+    query?: Omit<AgileIssueQueryParams, keyof PaginationParams>,
+    options?: IterateOptions
+  ): AsyncGenerator<JiraIssue, void, undefined> {
+    return iterateAll((params, signal) => this.getSprintIssues(sprintId, { ...query, ...params }, { signal }), options);
+  }
+
+  /**
+   * Move issues into a sprint
+   * @param sprintId - The ID of an active or future sprint
+   * @param issueIdOrKeys - The issue IDs or keys; split into requests of 50
+   * @returns Nothing
+   */
+  async moveIssuesToSprint(sprintId: number, issueIdOrKeys: string[]): Promise<void> {
+    for (const issues of chunk(issueIdOrKeys, AGILE_ISSUE_LIMIT)) {
+      await this.post<void>(`/sprint/${sprintId}/issue`, { issues });
+    }
+  }
+
+  /**
+   * Rank issues before or after another issue, keeping their order
+   * @param issueIdOrKeys - The issue IDs or keys, in the order to rank them; split into requests of 50
+   * @param position - The issue to rank them before or after
+   * @returns The outcome for each issue; empty if every issue was ranked
+   * @throws Error if neither `before` nor `after` is set
+   */
+  async rankIssues(issueIdOrKeys: string[], position: RankIssuesOptions): Promise<RankIssueResult[]> {
+    if (!position.before && !position.after) {
+      throw new Error('Either before or after is required to rank issues');
+    }
+
+    const failed: RankIssueResult[] = [];
+    let target: Pick<RankIssuesOptions, 'before' | 'after'> = position;
+
+    for (const issues of chunk(issueIdOrKeys, AGILE_ISSUE_LIMIT)) {
+      const response = await this.put<{ entries?: RankIssueResult[] } | undefined>('/issue/rank', {
+        issues,
+        ...(target.before ? { rankBeforeIssue: target.before } : { rankAfterIssue: target.after }),
+        ...(position.rankCustomFieldId !== undefined ? { rankCustomFieldId: position.rankCustomFieldId } : {}),
+      });
+
+      // Jira answers 204 when every issue is ranked and 207 with an entry per issue otherwise
+      failed.push(...(response?.entries ?? []).filter((entry) => entry.status >= 400));
+      // The next chunk goes right after this one, which keeps the order across requests
+      target = { after: issues[issues.length - 1] };
+    }
+
+    return failed;
+  }
+
+  /**
+   * Get the epics of a board
+   * @param boardId - The board ID
+   * @param query - The pagination parameters and whether to return only done or not done epics
+   * @param options - The request options
+   * @returns The epics
+   */
+  async getEpics(
+    boardId: number,
+    query?: PaginationParams & { done?: boolean },
+    options?: RequestOptions
+  ): Promise<UncountedPaginatedResponse<JiraEpic>> {
+    return this.getValuePage<JiraEpic>(`/board/${boardId}/epic`, query, { done: query?.done }, options);
+  }
+
+  /**
+   * Get an epic
+   * @param epicIdOrKey - The epic issue ID or key
+   * @returns The epic
+   */
+  async getEpic(epicIdOrKey: string): Promise<JiraEpic> {
+    return this.get<JiraEpic>(`/epic/${epicIdOrKey}`);
+  }
+
+  /**
+   * Get the issues of an epic
+   * @param epicIdOrKey - The epic issue ID or key
+   * @param query - The pagination parameters, JQL filter and fields
+   * @param options - The request options
+   * @returns The issues, in rank order
+   */
+  async getEpicIssues(
+    epicIdOrKey: string,
+    query?: AgileIssueQueryParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraIssue>> {
+    return this.getIssuePage(`/epic/${epicIdOrKey}/issue`, query, options);
+  }
+
+  /**
+   * Move issues into an epic
+   * @param epicIdOrKey - The epic issue ID or key
+   * @param issueIdOrKeys - The issue IDs or keys; split into requests of 50
+   * @returns Nothing
+   */
+  async moveIssuesToEpic(epicIdOrKey: string, issueIdOrKeys: string[]): Promise<void> {
+    for (const issues of chunk(issueIdOrKeys, AGILE_ISSUE_LIMIT)) {
+      await this.post<void>(`/epic/${epicIdOrKey}/issue`, { issues });
+    }
+  }
+
+  /**
+   * Remove issues from their epic
+   * @param issueIdOrKeys - The issue IDs or keys; split into requests of 50
+   * @returns Nothing
+   */
+  async removeIssuesFromEpic(issueIdOrKeys: string[]): Promise<void> {
+    await this.moveIssuesToEpic('none', issueIdOrKeys);
+  }
+
+  /**
+   * Get a page of values from an endpoint that reports the last page with `isLast`
+   * @param url - The URL of the endpoint
+   * @param pagination - The pagination parameters
+   * @param filters - The query parameters; undefined ones are left out
+   * @param options - The request options
+   * @returns The page
+   */
+  private async getValuePage<T>(
+    url: string,
+    pagination: PaginationParams | undefined,
+    filters: Record<string, unknown>,
+    options?: RequestOptions
+  ): Promise<UncountedPaginatedResponse<T>> {
+    const params = createPaginationParams(pagination);
+
+    const config: AxiosRequestConfig = {
+      params: {
+        startAt: params.startAt,
+        maxResults: params.maxResults,
+        ...definedParams(filters),
+      },
+      signal: options?.signal,
+    };
+
+    const response = await this.get<AgileValuePage<T>>(url, config);
+
+    return toPaginatedResponse(response.values, params, {
+      strategy: 'isLast',
+      isLast: response.isLast,
+      total: response.total,
+    });
+  }
+
+  /**
+   * Get a page of issues from a board, backlog, sprint or epic
+   * @param url - The URL of the endpoint
+   * @param query - The pagination parameters, JQL filter and fields
+   * @param options - The request options
+   * @returns The page
+   */
+  private async getIssuePage(
+    url: string,
+    query?: AgileIssueQueryParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraIssue>> {
+    const params = createPaginationParams(query);
+
+    const config: AxiosRequestConfig = {
+      params: {
+        startAt: params.startAt,
+        maxResults: params.maxResults,
+        ...definedParams({ jql: query?.jql, fields: query?.fields?.join(',') }),
+      },
+      signal: options?.signal,
+    };
+
+    const response = await this.get<{ issues: JiraIssue[]; total: number }>(url, config);
+
+    return createPaginatedResponse(response.issues, response.total, params);
+  }
+}
+
+/**
+ * Convert sprint data to the format expected by the API
+ * @param data - The sprint data
+ * @returns The request body, with dates as ISO strings
+ */
+function formatSprint<T extends { startDate?: string | Date; endDate?: string | Date }>(data: T): Record<string, unknown> {
+  const { startDate, endDate, ...rest } = data;
+
+  return {
+    ...rest,
+    ...(startDate !== undefined ? { startDate: formatDate(startDate) } : {}),
+    ...(endDate !== undefined ? { endDate: formatDate(endDate) } : {}),
+  };
+}
+
+/**
+ * Format a date for the Agile API
+ * @param date - The date
+ * @returns The date as an ISO string, or the string unchanged
+ */
+function formatDate(date: string | Date): string {
+  return typeof date === 'string' ? date : date.toISOString();
+}
+
+/**
+ * Remove the undefined query parameters
+ * @param params - The query parameters
+ * @returns The query parameters that are set
+ */
+function definedParams(params: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,111 @@
+import { AxiosRequestConfig } from 'axios';
+import FormData from 'form-data';
+import { createReadStream, createWriteStream } from 'fs';
+import { basename } from 'path';
+import { pipeline } from 'stream/promises';
+import { BaseApiClient } from './base';
+import { AttachmentUpload, JiraAttachment, RequestOptions } from '../types';
+
+/**
+ * API client for Jira issue attachments
+ */
+export class AttachmentsApiClient extends BaseApiClient {
+  /**
+   * Attach files to an issue
+   *
+   * Uploads should not be retried: with `retryNonIdempotent`, a retry would resend a body already consumed.
+   * For the same reason an upload rejected with a 401 is not replayed after the auth provider renews the credentials.
+   * @param issueIdOrKey - The issue ID or key
+   * @param files - The files, as paths or as contents with a file name
+   * @param options - The request options
+   * @returns The metadata of the attachments
+   */
+  async addAttachments(
+    issueIdOrKey: string,
+    files: string | AttachmentUpload | Array<string | AttachmentUpload>,
+    options?: RequestOptions
+  ): Promise<JiraAttachment[]> {
+    const form = new FormData();
+
+    for (const file of Array.isArray(files) ? files : [files]) {
+      if (typeof file === 'string') {
+        form.append('file', createReadStream(file), { filename: basename(file) });
+      } else {
+        form.append('file', file.content, {
+          filename: file.filename,
+          contentType: file.contentType,
+          knownLength: file.knownLength,
+        });
+      }
+    }
+
+    const config: AxiosRequestConfig = {
+      headers: { 'X-Atlassian-Token': 'no-check' },
+      signal: options?.signal,
+    };
+
+    return this.post<JiraAttachment[]>(`/issue/${issueIdOrKey}/attachments`, form, config);
+  }
+
+  /**
+   * Get the metadata of the attachments of an issue
+   * @param issueIdOrKey - The issue ID or key
+   * @returns The attachments
+   */
+  async getIssueAttachments(issueIdOrKey: string): Promise<JiraAttachment[]> {
+    const config: AxiosRequestConfig = {
+      params: { fields: 'attachment' },
+    };
+
+    const issue = await this.get<{ fields: { attachment?: JiraAttachment[] } }>(`/issue/${issueIdOrKey}`, config);
+    return issue.fields.attachment ?? [];
+  }
+
+  /**
+   * Get the metadata of an attachment
+   * @param attachmentId - The attachment ID
+   * @returns The attachment
+   */
+  async getAttachment(attachmentId: string): Promise<JiraAttachment> {
+    return this.get<JiraAttachment>(`/attachment/${attachmentId}`);
+  }
+
+  /**
+   * Download the content of an attachment
+   * @param attachmentId - The attachment ID
+   * @param options - The request options
+   * @returns A stream of the file content
+   */
+  async downloadAttachment(attachmentId: string, options?: RequestOptions): Promise<NodeJS.ReadableStream> {
+    const config: AxiosRequestConfig = {
+      // Without redirect=false Jira Cloud redirects to a media host, which would not receive the credentials
+      params: { redirect: false },
+      headers: { 'Accept': '*/*' },
+      responseType: 'stream',
+      signal: options?.signal,
+    };
+
+    return this.get<NodeJS.ReadableStream>(`/attachment/content/${attachmentId}`, config);
+  }
+
+  /**
+   * Download the content of an attachment to a file
+   * @param attachmentId - The attachment ID
+   * @param path - The path of the file to write
+   * @param options - The request options
+   * @returns Nothing
+   */
+  async saveAttachment(attachmentId: string, path: string, options?: RequestOptions): Promise<void> {
+    const content = await this.downloadAttachment(attachmentId, options);
+    await pipeline(content, createWriteStream(path));
+  }
+
+  /**
+   * Delete an attachment
+   * @param attachmentId - The attachment ID
+   * @returns Nothing
+   */
+  async deleteAttachment(attachmentId: string): Promise<void> {
+    await this.delete<void>(`/attachment/${attachmentId}`);
+  }
+}
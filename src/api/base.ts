@@ -1,52 +1,27 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { JiraClientConfig } from '../types';
-import { createConfig } from '../utils/config';
-import { handleApiError } from '../utils/error';
+import { AxiosRequestConfig } from 'axios';
+import { AdfDocument, JiraClientConfig, ResolvedJiraClientConfig } from '../types';
+import { markdownToAdf } from '../utils/markdown';
+import { adfToWiki, markdownToWiki } from '../utils/wiki';
+import { JiraTransport } from './transport';
 
 /**
  * Base API client for Jira
  */
 export class BaseApiClient {
-  /** The Axios instance for making requests */
-  protected client: AxiosInstance;
+  /** The transport for making requests */
+  protected transport: JiraTransport;
   /** The configuration for the client */
-  protected config: Required<JiraClientConfig>;
+  protected config: ResolvedJiraClientConfig;
+  /** The REST base path requests are relative to, e.g. `/rest/agile/1.0` (default: `/rest/api/{apiVersion}`) */
+  protected readonly basePath?: string;
 
   /**
    * Create a new BaseApiClient
-   * @param config - The configuration for the client
+   * @param config - The configuration for the client, or a transport shared with other clients
    */
-  constructor(config: JiraClientConfig) {
-    this.config = createConfig(config);
-    this.client = this.createAxiosInstance();
-  }
-
-  /**
-   * Create an Axios instance for making requests
-   * @returns The Axios instance
-   */
-  private createAxiosInstance(): AxiosInstance {
-    const { baseUrl, token, apiVersion, timeout, email } = this.config;
-
-    let auth = '';
-
-    if (email) {
-      auth = 'Basic ' + Buffer.from(`${email}:${token}`).toString('base64');
-    } else {
-      auth = `Bearer ${token}`;
-    }
-    
-    const instance = axios.create({
-      baseURL: `${baseUrl}/rest/api/${apiVersion}`,
-      timeout,      
-      headers: {
-        'Authorization': auth,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-    });
-
-    return instance;
+  constructor(config: JiraClientConfig | JiraTransport) {
+    this.transport = config instanceof JiraTransport ? config : new JiraTransport(config);
+    this.config = this.transport.config;
   }
 
   /**
@@ -56,12 +31,7 @@ export class BaseApiClient {
    * @returns The response data
    */
   protected async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response = await this.client.get<T>(url, config);
-      return response.data;
-    } catch (error) {
-      throw handleApiError(error);
-    }
+    return this.transport.request<T>('get', url, undefined, this.withBasePath(config));
   }
 
   /**
@@ -72,12 +42,7 @@ export class BaseApiClient {
    * @returns The response data
    */
   protected async post<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response = await this.client.post<T>(url, data, config);
-      return response.data;
-    } catch (error) {
-      throw handleApiError(error);
-    }
+    return this.transport.request<T>('post', url, data, this.withBasePath(config));
   }
 
   /**
@@ -88,12 +53,7 @@ export class BaseApiClient {
    * @returns The response data
    */
   protected async put<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response = await this.client.put<T>(url, data, config);
-      return response.data;
-    } catch (error) {
-      throw handleApiError(error);
-    }
+    return this.transport.request<T>('put', url, data, this.withBasePath(config));
   }
 
   /**
@@ -103,11 +63,32 @@ export class BaseApiClient {
    * @returns The response data
    */
   protected async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response = await this.client.delete<T>(url, config);
-      return response.data;
-    } catch (error) {
-      throw handleApiError(error);
+    return this.transport.request<T>('delete', url, undefined, this.withBasePath(config));
+  }
+
+  /**
+   * Point a request at the REST base path of the client
+   * @param config - The request configuration
+   * @returns The request configuration, with the base URL set if the client has its own base path
+   */
+  private withBasePath(config?: AxiosRequestConfig): AxiosRequestConfig | undefined {
+    if (!this.basePath) {
+      return config;
     }
+
+    return { ...config, baseURL: `${this.config.baseUrl}${this.basePath}` };
+  }
+
+  /**
+   * Convert rich text to the format expected by the API version
+   * @param value - Markdown text or an ADF document
+   * @returns An ADF document in API v3, wiki markup in API v2
+   */
+  protected formatRichText(value: string | AdfDocument): string | AdfDocument {
+    if (this.config.apiVersion >= 3) {
+      return typeof value === 'string' ? markdownToAdf(value) : value;
+    }
+
+    return typeof value === 'string' ? markdownToWiki(value) : adfToWiki(value);
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { AxiosRequestConfig } from 'axios';
+import { BaseApiClient } from './base';
+import {
+  CreateComponentData,
+  IterateOptions,
+  JiraComponent,
+  PaginatedResponse,
+  PaginationParams,
+  RequestOptions,
+  UpdateComponentData
+} from '../types';
+import { createPaginationParams, iterateAll, toPaginatedResponse } from '../utils/pagination';
+
+/**
+ * API client for Jira project components
+ */
+export class ComponentsApiClient extends BaseApiClient {
+  /**
+   * Get the components of a project
+   * @param projectIdOrKey - The project ID or key
+   * @param pagination - The pagination parameters
+   * @param options - The request options
+   * @returns The components
+   */
+  async getComponents(
+    projectIdOrKey: string,
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraComponent>> {
+    const params = createPaginationParams(pagination);
+
+    const config: AxiosRequestConfig = {
+      params: {
+        startAt: params.startAt,
+        maxResults: params.maxResults,
+      },
+      signal: options?.signal,
+    };
+
+    const response = await this.get<{
+      values: JiraComponent[];
+      total: number;
+      isLast: boolean;
+    }>(`/project/${projectIdOrKey}/component`, config);
+
+    return toPaginatedResponse(response.values, params, {
+      strategy: 'isLast',
+      isLast: response.isLast,
+      total: response.total,
+    });
+  }
+
+  /**
+   * Iterate over the components of a project, fetching pages as needed
+   * @param projectIdOrKey - The project ID or key
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the components
+   */
+  iterateComponents(projectIdOrKey: string, options?: IterateOptions): AsyncGenerator<JiraComponent, void, undefined> {
+    return iterateAll((params, signal) => this.getComponents(projectIdOrKey, params, { signal }), options);
+  }
+
+  /**
+   * Get a component
+   * @param componentId - The component ID
+   * @returns The component
+   */
+  async getComponent(componentId: string): Promise<JiraComponent> {
+    return this.get<JiraComponent>(`/component/${componentId}`);
+  }
+
+  /**
+   * Create a component
+   * @param data - The component data
+   * @returns The created component
+   */
+  async createComponent(data: CreateComponentData): Promise<JiraComponent> {
+    return this.post<JiraComponent>('/component', data);
+  }
+
+  /**
+   * Update a component
+   * @param componentId - The component ID
+   * @param data - The fields to change; the others are left unchanged
+   * @returns The updated component
+   */
+  async updateComponent(componentId: string, data: UpdateComponentData): Promise<JiraComponent> {
+    return this.put<JiraComponent>(`/component/${componentId}`, data);
+  }
+
+  /**
+   * Delete a component, optionally moving its issues to another component
+   * @param componentId - The component ID
+   * @param moveIssuesTo - The ID of the component to move the issues to (default: the issues lose the component)
+   * @returns Nothing
+   */
+  async deleteComponent(componentId: string, moveIssuesTo?: string): Promise<void> {
+    const config: AxiosRequestConfig | undefined = moveIssuesTo ? { params: { moveIssuesTo } } : undefined;
+    await this.delete<void>(`/component/${componentId}`, config);
+  }
+
+  /**
+   * Get the number of issues with a component
+   * @param componentId - The component ID
+   * @returns The number of issues
+   */
+  async getRelatedIssueCount(componentId: string): Promise<number> {
+    const response = await this.get<{ issueCount: number }>(`/component/${componentId}/relatedIssueCounts`);
+    return response.issueCount;
+  }
+}
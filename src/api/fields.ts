@@ -0,0 +1,38 @@
+import { BaseApiClient } from './base';
+import { JiraField } from '../types';
+
+/**
+ * API client for Jira field metadata
+ */
+export class FieldsApiClient extends BaseApiClient {
+  /**
+   * Get all system and custom fields
+   * @returns The fields
+   */
+  async getFields(): Promise<JiraField[]> {
+    return this.get<JiraField[]>('/field');
+  }
+
+  /**
+   * Get the custom fields
+   * @returns The custom fields
+   */
+  async getCustomFields(): Promise<JiraField[]> {
+    const fields = await this.getFields();
+    return fields.filter((field) => field.custom);
+  }
+
+  /**
+   * Find a field by ID, name or JQL clause name
+   * @param idOrName - The field ID (e.g. "customfield_10016"), name (e.g. "Story Points") or clause name
+   * @returns The field, or undefined if there is none
+   */
+  async findField(idOrName: string): Promise<JiraField | undefined> {
+    const fields = await this.getFields();
+    const name = idOrName.toLowerCase();
+
+    return fields.find((field) => field.id === idOrName)
+      ?? fields.find((field) => field.name.toLowerCase() === name)
+      ?? fields.find((field) => field.clauseNames?.some((clause) => clause.toLowerCase() === name));
+  }
+}
@@ -0,0 +1,209 @@
+import { AxiosRequestConfig } from 'axios';
+import { BaseApiClient } from './base';
+import {
+  CreateIssueLinkData,
+  IssueLinkRelation,
+  JiraIssueLink,
+  JiraIssueLinkType,
+  JiraRemoteLink,
+  RemoteLinkData
+} from '../types';
+
+/**
+ * API client for Jira issue links and remote links
+ */
+export class IssueLinksApiClient extends BaseApiClient {
+  /**
+   * Get all issue link types
+   * @returns The issue link types
+   */
+  async getLinkTypes(): Promise<JiraIssueLinkType[]> {
+    const response = await this.get<{ issueLinkTypes: JiraIssueLinkType[] }>('/issueLinkType');
+    return response.issueLinkTypes;
+  }
+
+  /**
+   * Get an issue link type
+   * @param linkTypeId - The issue link type ID
+   * @returns The issue link type
+   */
+  async getLinkType(linkTypeId: string): Promise<JiraIssueLinkType> {
+    return this.get<JiraIssueLinkType>(`/issueLinkType/${linkTypeId}`);
+  }
+
+  /**
+   * Get the links of an issue, each seen from that issue
+   * @param issueIdOrKey - The issue ID or key
+   * @returns The links
+   */
+  async getIssueLinks(issueIdOrKey: string): Promise<IssueLinkRelation[]> {
+    const config: AxiosRequestConfig = {
+      params: { fields: 'issuelinks' },
+    };
+
+    const issue = await this.get<{ fields: { issuelinks?: JiraIssueLink[] } }>(`/issue/${issueIdOrKey}`, config);
+    return toIssueLinkRelations(issue.fields.issuelinks ?? []);
+  }
+
+  /**
+   * Get an issue link
+   * @param linkId - The issue link ID
+   * @returns The issue link, with both issues
+   */
+  async getIssueLink(linkId: string): Promise<JiraIssueLink> {
+    return this.get<JiraIssueLink>(`/issueLink/${linkId}`);
+  }
+
+  /**
+   * Create an issue link
+   * @param data - The link type, the two issues and an optional comment
+   * @returns Nothing
+   */
+  async createIssueLink(data: CreateIssueLinkData): Promise<void> {
+    const body = data.comment ? { ...data, comment: { body: this.formatRichText(data.comment.body) } } : data;
+    await this.post<void>('/issueLink', body);
+  }
+
+  /**
+   * Link two issues by how the first relates to the second, e.g. `linkIssues('A-1', 'blocks', 'A-2')`
+   * @param issueIdOrKey - The issue ID or key
+   * @param relation - A link type's outward description (e.g. "blocks"), inward description (e.g. "is blocked by")
+   *   or name (e.g. "Blocks", read as the outward description); matched case-insensitively
+   * @param otherIssueIdOrKey - The ID or key of the issue to link to
+   * @returns Nothing
+   * @throws Error if no link type matches the relation
+   */
+  async linkIssues(issueIdOrKey: string, relation: string, otherIssueIdOrKey: string): Promise<void> {
+    const linkTypes = await this.getLinkTypes();
+    const name = relation.toLowerCase();
+    const outward = linkTypes.find((type) => type.outward.toLowerCase() === name || type.name.toLowerCase() === name);
+    const inward = outward ? undefined : linkTypes.find((type) => type.inward.toLowerCase() === name);
+    const linkType = outward ?? inward;
+
+    if (!linkType) {
+      throw new Error(`Issue link type "${relation}" not found`);
+    }
+
+    // The outward description belongs to the link's inward issue: "A-1 blocks A-2" has A-1 as its inward issue
+    const [inwardIssue, outwardIssue] = outward
+      ? [issueIdOrKey, otherIssueIdOrKey]
+      : [otherIssueIdOrKey, issueIdOrKey];
+
+    await this.createIssueLink({
+      type: { id: linkType.id },
+      inwardIssue: toIssueRef(inwardIssue),
+      outwardIssue: toIssueRef(outwardIssue),
+    });
+  }
+
+  /**
+   * Delete an issue link
+   * @param linkId - The issue link ID
+   * @returns Nothing
+   */
+  async deleteIssueLink(linkId: string): Promise<void> {
+    await this.delete<void>(`/issueLink/${linkId}`);
+  }
+
+  /**
+   * Get the remote links of an issue
+   * @param issueIdOrKey - The issue ID or key
+   * @param globalId - Only return the remote link with this global ID
+   * @returns The remote links
+   */
+  async getRemoteLinks(issueIdOrKey: string, globalId?: string): Promise<JiraRemoteLink[]> {
+    const config: AxiosRequestConfig = {};
+
+    if (globalId) {
+      config.params = { globalId };
+    }
+
+    const response = await this.get<JiraRemoteLink[] | JiraRemoteLink>(`/issue/${issueIdOrKey}/remotelink`, config);
+    return Array.isArray(response) ? response : [response];
+  }
+
+  /**
+   * Get a remote link of an issue
+   * @param issueIdOrKey - The issue ID or key
+   * @param linkId - The remote link ID
+   * @returns The remote link
+   */
+  async getRemoteLink(issueIdOrKey: string, linkId: string | number): Promise<JiraRemoteLink> {
+    return this.get<JiraRemoteLink>(`/issue/${issueIdOrKey}/remotelink/${linkId}`);
+  }
+
+  /**
+   * Create a remote link, or update the remote link with the same global ID
+   * @param issueIdOrKey - The issue ID or key
+   * @param data - The remote link data
+   * @returns The ID and self URL of the remote link
+   */
+  async createRemoteLink(issueIdOrKey: string, data: RemoteLinkData): Promise<{ id: number; self: string }> {
+    return this.post<{ id: number; self: string }>(`/issue/${issueIdOrKey}/remotelink`, data);
+  }
+
+  /**
+   * Update a remote link
+   * @param issueIdOrKey - The issue ID or key
+   * @param linkId - The remote link ID
+   * @param data - The remote link data
+   * @returns Nothing
+   */
+  async updateRemoteLink(issueIdOrKey: string, linkId: string | number, data: RemoteLinkData): Promise<void> {
+    await this.put<void>(`/issue/${issueIdOrKey}/remotelink/${linkId}`, data);
+  }
+
+  /**
+   * Delete a remote link
+   * @param issueIdOrKey - The issue ID or key
+   * @param linkId - The remote link ID
+   * @returns Nothing
+   */
+  async deleteRemoteLink(issueIdOrKey: string, linkId: string | number): Promise<void> {
+    await this.delete<void>(`/issue/${issueIdOrKey}/remotelink/${linkId}`);
+  }
+
+  /**
+   * Delete a remote link by its global ID
+   * @param issueIdOrKey - The issue ID or key
+   * @param globalId - The global ID of the remote link
+   * @returns Nothing
+   */
+  async deleteRemoteLinkByGlobalId(issueIdOrKey: string, globalId: string): Promise<void> {
+    const config: AxiosRequestConfig = {
+      params: { globalId },
+    };
+
+    await this.delete<void>(`/issue/${issueIdOrKey}/remotelink`, config);
+  }
+}
+
+/**
+ * Convert the links of an issue to relations seen from that issue
+ * @param links - The `issuelinks` field of the issue
+ * @returns The relations, skipping links without the other issue
+ */
+function toIssueLinkRelations(links: JiraIssueLink[]): IssueLinkRelation[] {
+  const relations: IssueLinkRelation[] = [];
+
+  for (const link of links) {
+    const { id, type } = link;
+
+    if (link.outwardIssue) {
+      relations.push({ id, type, direction: 'outward', relation: type.outward, issue: link.outwardIssue });
+    } else if (link.inwardIssue) {
+      relations.push({ id, type, direction: 'inward', relation: type.inward, issue: link.inwardIssue });
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * Reference an issue by ID or key
+ * @param issueIdOrKey - The issue ID or key
+ * @returns The issue reference
+ */
+function toIssueRef(issueIdOrKey: string): { id?: string; key?: string } {
+  return /^\d+$/.test(issueIdOrKey) ? { id: issueIdOrKey } : { key: issueIdOrKey };
+}
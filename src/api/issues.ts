@@ -1,53 +1,239 @@
 import { AxiosRequestConfig } from 'axios';
 import { BaseApiClient } from './base';
 import { 
+  AdfDocument,
+  BulkItemResult,
+  BulkOperationResult,
+  BulkOptions,
   CreateIssueData, 
+  CreateIssueOptions,
+  CursorPaginationParams,
+  CustomFieldMap,
+  CustomFieldValues,
+  IssueUpdate,
+  IssueValidationResult,
+  IterateOptions,
+  JiraApiError,
+  JiraChangelogEntry,
   JiraComment, 
+  JiraCreateMetaField,
   JiraIssue, 
+  JiraIssueChangelog,
+  JiraIssueType,
   JiraTransition, 
+  JqlAutocompleteData,
+  JqlParseResult,
+  JqlSearchOptions,
+  JqlSuggestion,
   PaginatedResponse, 
   PaginationParams, 
+  RequestOptions,
+  UncountedPaginatedResponse,
   UpdateIssueData 
 } from '../types';
-import { createPaginationParams, createPaginatedResponse } from '../utils/pagination';
+import { chunk, createBulkResult, runBulk } from '../utils/bulk';
+import { CustomFieldMapper } from '../utils/fields';
+import { JqlQuery, toJql } from '../utils/jql';
+import {
+  createPaginationParams,
+  createPaginatedResponse,
+  fetchAllPages,
+  iterateAll,
+  toPaginatedResponse
+} from '../utils/pagination';
+import { createJiraError, handleApiError, isJiraError, JiraError } from '../utils/error';
+import { createValidationError, validateIssueFields } from '../utils/validation';
+
+/**
+ * Fields returned by issue searches when none are requested
+ */
+const DEFAULT_SEARCH_FIELDS = ['summary', 'status', 'assignee', 'priority', 'issuetype', 'created', 'updated'];
+
+/**
+ * Maximum number of issues Jira creates in one bulk request
+ */
+const BULK_CREATE_LIMIT = 50;
+
+/**
+ * Maximum number of issues whose changelogs Jira returns in one bulk fetch
+ */
+const BULK_CHANGELOG_LIMIT = 1000;
+
+/**
+ * Number of changelog entries requested per page of a bulk fetch, the most Jira returns
+ */
+const BULK_CHANGELOG_PAGE_SIZE = 10000;
+
+/**
+ * Failure of one issue in a bulk create response
+ */
+interface BulkCreateError {
+  /** The HTTP status code */
+  status: number;
+  /** The error details */
+  elementErrors: Partial<JiraApiError>;
+  /** The position of the issue in the request */
+  failedElementNumber: number;
+}
+
+/**
+ * Response of a bulk create request, also sent as the error body when every issue fails
+ */
+interface BulkCreateResponse {
+  /** The created issues */
+  issues: JiraIssue[];
+  /** The failures */
+  errors: BulkCreateError[];
+}
 
 /**
  * API client for Jira issues
+ *
+ * Custom fields declared in the `customFields` option are read and written by their friendly names.
  */
-export class IssuesApiClient extends BaseApiClient {
+export class IssuesApiClient<TCustomFields extends CustomFieldMap = CustomFieldMap> extends BaseApiClient {
+  /** Translates between friendly custom field names and custom field IDs */
+  private readonly fieldMapper = new CustomFieldMapper(this.config.customFields);
+  /** Issue types that can be created, by project ID or key */
+  private readonly createMetaIssueTypes = new Map<string, Promise<JiraIssueType[]>>();
+  /** Fields that can be set when creating an issue, by project ID or key and issue type ID */
+  private readonly createMetaFields = new Map<string, Promise<JiraCreateMetaField[]>>();
+
   /**
    * Get an issue by ID or key
    * @param issueIdOrKey - The issue ID or key
-   * @param fields - The fields to include in the response
+   * @param fields - The fields to include in the response; custom fields may be given by friendly name
+   * @param expand - The entities to expand, e.g. `changelog`, `renderedFields`
    * @returns The issue
    */
-  async getIssue(issueIdOrKey: string, fields?: string[]): Promise<JiraIssue> {
+  async getIssue(
+    issueIdOrKey: string,
+    fields?: string[],
+    expand?: string[]
+  ): Promise<JiraIssue<CustomFieldValues<TCustomFields>>> {
     const config: AxiosRequestConfig = {};
     
     if (fields && fields.length > 0) {
-      config.params = { fields: fields.join(',') };
+      config.params = { fields: this.fieldMapper.toApiNames(fields).join(',') };
+    }
+
+    if (expand && expand.length > 0) {
+      config.params = { ...config.params, expand: expand.join(',') };
     }
     
-    return this.get<JiraIssue>(`/issue/${issueIdOrKey}`, config);
+    const issue = await this.get<JiraIssue<CustomFieldValues<TCustomFields>>>(`/issue/${issueIdOrKey}`, config);
+    return this.fieldMapper.fromApiIssue(issue);
   }
 
   /**
    * Create a new issue
-   * @param data - The issue data
+   * @param data - The issue data; a Markdown description is converted to ADF in API v3
+   * @param options - The create options
    * @returns The created issue
+   * @throws JiraError with status 400 if `validate` is set and the fields do not match the create metadata
    */
-  async createIssue(data: CreateIssueData): Promise<JiraIssue> {
-    return this.post<JiraIssue>('/issue', data);
+  async createIssue(
+    data: CreateIssueData<CustomFieldValues<TCustomFields>>,
+    options: CreateIssueOptions = {}
+  ): Promise<JiraIssue> {
+    const fields = this.formatFields(data.fields);
+
+    if (options.validate) {
+      const result = await this.validateFields(fields);
+
+      if (!result.valid) {
+        throw createValidationError(result);
+      }
+    }
+
+    return this.post<JiraIssue>('/issue', { ...data, fields });
+  }
+
+  /**
+   * Check the fields of a new issue against the create metadata of its project and issue type
+   *
+   * The create metadata is fetched once per project and issue type and cached; see {@link clearCreateMetaCache}.
+   * @param data - The issue data
+   * @returns The problems found, keyed by field ID like the `errors` of a JiraError
+   */
+  async validateCreateIssue(data: CreateIssueData<CustomFieldValues<TCustomFields>>): Promise<IssueValidationResult> {
+    return this.validateFields(this.formatFields(data.fields));
+  }
+
+  /**
+   * Forget the cached create metadata, e.g. after changing a project's fields
+   * @returns Nothing
+   */
+  clearCreateMetaCache(): void {
+    this.createMetaIssueTypes.clear();
+    this.createMetaFields.clear();
+  }
+
+  /**
+   * Create many issues with the bulk endpoint, sending them in requests of up to 50 issues
+   * @param data - The issue data of each issue; Markdown descriptions are converted as in {@link createIssue}
+   * @param options - The create options; with `validate`, invalid issues fail without being sent
+   * @returns The created issue or the error of each item, in input order
+   */
+  async createIssues(
+    data: CreateIssueData<CustomFieldValues<TCustomFields>>[],
+    options: CreateIssueOptions = {}
+  ): Promise<BulkOperationResult<CreateIssueData<CustomFieldValues<TCustomFields>>, JiraIssue>> {
+    const results: BulkItemResult<CreateIssueData<CustomFieldValues<TCustomFields>>, JiraIssue>[] =
+      new Array(data.length);
+    const issueUpdates = data.map((item) => ({ ...item, fields: this.formatFields(item.fields) }));
+    const pending: number[] = [];
+
+    for (let index = 0; index < data.length; index++) {
+      if (options.validate) {
+        const validation = await this.validateFields(issueUpdates[index].fields);
+
+        if (!validation.valid) {
+          results[index] = { index, item: data[index], status: 'rejected', error: createValidationError(validation) };
+          continue;
+        }
+      }
+
+      pending.push(index);
+    }
+
+    for (const indexes of chunk(pending, BULK_CREATE_LIMIT)) {
+      const outcomes = await this.postBulkCreate(indexes.map((index) => issueUpdates[index]));
+
+      indexes.forEach((index, position) => {
+        const outcome = outcomes[position];
+
+        results[index] = outcome instanceof JiraError
+          ? { index, item: data[index], status: 'rejected', error: outcome }
+          : { index, item: data[index], status: 'fulfilled', value: outcome };
+      });
+    }
+
+    return createBulkResult(results);
   }
 
   /**
    * Update an issue
    * @param issueIdOrKey - The issue ID or key
-   * @param data - The update data
+   * @param data - The update data; a Markdown description is converted to ADF in API v3
    * @returns Nothing
    */
-  async updateIssue(issueIdOrKey: string, data: UpdateIssueData): Promise<void> {
-    await this.put<void>(`/issue/${issueIdOrKey}`, data);
+  async updateIssue(issueIdOrKey: string, data: UpdateIssueData<CustomFieldValues<TCustomFields>>): Promise<void> {
+    const body = data.fields ? { ...data, fields: this.formatFields(data.fields) } : data;
+    await this.put<void>(`/issue/${issueIdOrKey}`, body);
+  }
+
+  /**
+   * Update many issues, one request per issue
+   * @param updates - The issue and update data of each update
+   * @param options - The bulk options
+   * @returns The outcome of each update, in input order
+   */
+  async updateIssues(
+    updates: IssueUpdate<CustomFieldValues<TCustomFields>>[],
+    options: BulkOptions = {}
+  ): Promise<BulkOperationResult<IssueUpdate<CustomFieldValues<TCustomFields>>, void>> {
+    return runBulk(updates, (update) => this.updateIssue(update.issueIdOrKey, update.data), options.concurrency);
   }
 
   /**
@@ -66,39 +252,268 @@ export class IssuesApiClient extends BaseApiClient {
 
   /**
    * Search for issues using JQL
-   * @param jql - The JQL query
-   * @param fields - The fields to include in the response
+   *
+   * Atlassian is retiring the `/search` endpoint this uses; prefer {@link searchJql}.
+   * @param jql - The JQL query, as a string or a builder
+   * @param fields - The fields to include in the response; custom fields may be given by friendly name
    * @param pagination - The pagination parameters
+   * @param options - The request options
    * @returns The search results
    */
   async searchIssues(
-    jql: string,
+    jql: JqlQuery,
     fields?: string[],
-    pagination?: PaginationParams
-  ): Promise<PaginatedResponse<JiraIssue>> {
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraIssue<CustomFieldValues<TCustomFields>>>> {
     const params = createPaginationParams(pagination);
     
     const data = {
-      jql,
+      jql: toJql(jql),
       startAt: params.startAt,
       maxResults: params.maxResults,
-      fields: fields || ['summary', 'status', 'assignee', 'priority', 'issuetype', 'created', 'updated'],
+      fields: fields ? this.fieldMapper.toApiNames(fields) : DEFAULT_SEARCH_FIELDS,
     };
     
     const response = await this.post<{
-      issues: JiraIssue[];
+      issues: JiraIssue<CustomFieldValues<TCustomFields>>[];
       total: number;
       startAt: number;
       maxResults: number;
-    }>('/search', data);
+    }>('/search', data, options?.signal ? { signal: options.signal } : undefined);
     
     return createPaginatedResponse(
-      response.issues,
+      response.issues.map((issue) => this.fieldMapper.fromApiIssue(issue)),
       response.total,
       params
     );
   }
 
+  /**
+   * Iterate over every issue matching a JQL query, fetching pages as needed
+   * @param jql - The JQL query, as a string or a builder
+   * @param fields - The fields to include in the response; custom fields may be given by friendly name
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the issues
+   */
+  iterateSearch(
+    jql: JqlQuery,
+    fields?: string[],
+    options?: IterateOptions
+  ): AsyncGenerator<JiraIssue<CustomFieldValues<TCustomFields>>, void, undefined> {
+    const query = toJql(jql);
+    return iterateAll((params, signal) => this.searchIssues(query, fields, params, { signal }), options);
+  }
+
+  /**
+   * Search for issues using JQL with the enhanced search endpoint, which pages with a cursor
+   * @param jql - The JQL query, as a string or a builder
+   * @param searchOptions - The fields, expansions and properties to include in the response; custom fields may
+   *   be given by friendly name
+   * @param pagination - The page size and the token of the page to fetch
+   * @param options - The request options
+   * @returns The search results, with a `nextPageToken` unless this is the last page
+   */
+  async searchJql(
+    jql: JqlQuery,
+    searchOptions: JqlSearchOptions = {},
+    pagination?: CursorPaginationParams,
+    options?: RequestOptions
+  ): Promise<UncountedPaginatedResponse<JiraIssue<CustomFieldValues<TCustomFields>>>> {
+    const params = createPaginationParams(pagination);
+    const { fields, expand, properties, fieldsByKeys } = searchOptions;
+    
+    const data = {
+      jql: toJql(jql),
+      maxResults: params.maxResults,
+      fields: fields ? this.fieldMapper.toApiNames(fields) : DEFAULT_SEARCH_FIELDS,
+      ...(pagination?.nextPageToken ? { nextPageToken: pagination.nextPageToken } : {}),
+      ...(expand && expand.length > 0 ? { expand: expand.join(',') } : {}),
+      ...(properties && properties.length > 0 ? { properties } : {}),
+      ...(fieldsByKeys !== undefined ? { fieldsByKeys } : {}),
+    };
+    
+    const response = await this.post<{
+      issues: JiraIssue<CustomFieldValues<TCustomFields>>[];
+      nextPageToken?: string;
+      isLast?: boolean;
+    }>('/search/jql', data, options?.signal ? { signal: options.signal } : undefined);
+    
+    const issues = response.issues.map((issue) => this.fieldMapper.fromApiIssue(issue));
+    
+    return toPaginatedResponse(issues, params, {
+      strategy: 'cursor',
+      nextPageToken: response.nextPageToken,
+    });
+  }
+
+  /**
+   * Iterate over every issue matching a JQL query with the enhanced search endpoint, fetching pages as needed
+   * @param jql - The JQL query, as a string or a builder
+   * @param searchOptions - The fields, expansions and properties to include in the response; custom fields may
+   *   be given by friendly name
+   * @param options - The page size, starting token, abort signal and prefetch setting
+   * @returns An async iterator over the issues
+   */
+  iterateSearchJql(
+    jql: JqlQuery,
+    searchOptions?: JqlSearchOptions,
+    options?: IterateOptions
+  ): AsyncGenerator<JiraIssue<CustomFieldValues<TCustomFields>>, void, undefined> {
+    const query = toJql(jql);
+    return iterateAll((params, signal) => this.searchJql(query, searchOptions, params, { signal }), options);
+  }
+
+  /**
+   * Get the approximate number of issues matching a JQL query
+   * @param jql - The JQL query, as a string or a builder; it must be bounded (e.g. restricted to a project)
+   * @returns The approximate number of matching issues
+   */
+  async countIssues(jql: JqlQuery): Promise<number> {
+    const response = await this.post<{ count: number }>('/search/approximate-count', { jql: toJql(jql) });
+    return response.count;
+  }
+
+  /**
+   * Parse and validate JQL queries with Jira, which also checks that fields, values and functions exist
+   * @param queries - The JQL queries, as strings or builders
+   * @param validation - How strictly to validate: `strict` reports unknown fields as errors, `warn` as warnings,
+   *   `none` only checks syntax (default: strict)
+   * @returns The parse result for each query, in order
+   */
+  async validateJql(
+    queries: JqlQuery[],
+    validation: 'strict' | 'warn' | 'none' = 'strict'
+  ): Promise<JqlParseResult[]> {
+    const config: AxiosRequestConfig = {
+      params: { validation },
+    };
+    
+    const response = await this.post<{ queries: JqlParseResult[] }>(
+      '/jql/parse',
+      { queries: queries.map(toJql) },
+      config
+    );
+    
+    return response.queries;
+  }
+
+  /**
+   * Get the fields, functions and reserved words available for autocompleting JQL
+   * @returns The autocomplete data
+   */
+  async getJqlAutocompleteData(): Promise<JqlAutocompleteData> {
+    return this.get<JqlAutocompleteData>('/jql/autocompletedata');
+  }
+
+  /**
+   * Get suggested values for a field in a JQL query
+   * @param fieldName - The field name, as used in JQL
+   * @param fieldValue - The partial value typed so far
+   * @returns The suggested values
+   */
+  async getJqlSuggestions(fieldName: string, fieldValue?: string): Promise<JqlSuggestion[]> {
+    const config: AxiosRequestConfig = {
+      params: fieldValue !== undefined ? { fieldName, fieldValue } : { fieldName },
+    };
+    
+    const response = await this.get<{ results: JqlSuggestion[] }>('/jql/autocompletedata/suggestions', config);
+    return response.results;
+  }
+
+  /**
+   * Get the issue types that can be created in a project
+   * @param projectIdOrKey - The project ID or key
+   * @param pagination - The pagination parameters
+   * @param options - The request options
+   * @returns The issue types
+   */
+  async getCreateMetaIssueTypes(
+    projectIdOrKey: string,
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraIssueType>> {
+    const params = createPaginationParams(pagination);
+    
+    const config: AxiosRequestConfig = {
+      params: {
+        startAt: params.startAt,
+        maxResults: params.maxResults,
+      },
+      signal: options?.signal,
+    };
+    
+    const response = await this.get<{
+      issueTypes: JiraIssueType[];
+      total: number;
+    }>(`/issue/createmeta/${projectIdOrKey}/issuetypes`, config);
+    
+    return createPaginatedResponse(response.issueTypes, response.total, params);
+  }
+
+  /**
+   * Iterate over every issue type that can be created in a project, fetching pages as needed
+   * @param projectIdOrKey - The project ID or key
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the issue types
+   */
+  iterateCreateMetaIssueTypes(
+    projectIdOrKey: string,
+    options?: IterateOptions
+  ): AsyncGenerator<JiraIssueType, void, undefined> {
+    return iterateAll((params, signal) => this.getCreateMetaIssueTypes(projectIdOrKey, params, { signal }), options);
+  }
+
+  /**
+   * Get the fields that can be set when creating an issue of a given type in a project
+   * @param projectIdOrKey - The project ID or key
+   * @param issueTypeId - The issue type ID
+   * @param pagination - The pagination parameters
+   * @param options - The request options
+   * @returns The fields, with whether they are required and the values they accept
+   */
+  async getCreateMetaFields(
+    projectIdOrKey: string,
+    issueTypeId: string,
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraCreateMetaField>> {
+    const params = createPaginationParams(pagination);
+    
+    const config: AxiosRequestConfig = {
+      params: {
+        startAt: params.startAt,
+        maxResults: params.maxResults,
+      },
+      signal: options?.signal,
+    };
+    
+    const response = await this.get<{
+      fields: JiraCreateMetaField[];
+      total: number;
+    }>(`/issue/createmeta/${projectIdOrKey}/issuetypes/${issueTypeId}`, config);
+    
+    return createPaginatedResponse(response.fields, response.total, params);
+  }
+
+  /**
+   * Iterate over every field that can be set when creating an issue of a given type, fetching pages as needed
+   * @param projectIdOrKey - The project ID or key
+   * @param issueTypeId - The issue type ID
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the fields
+   */
+  iterateCreateMetaFields(
+    projectIdOrKey: string,
+    issueTypeId: string,
+    options?: IterateOptions
+  ): AsyncGenerator<JiraCreateMetaField, void, undefined> {
+    return iterateAll(
+      (params, signal) => this.getCreateMetaFields(projectIdOrKey, issueTypeId, params, { signal }),
+      options
+    );
+  }
+
   /**
    * Get all transitions available for an issue
    * @param issueIdOrKey - The issue ID or key
@@ -137,15 +552,36 @@ export class IssuesApiClient extends BaseApiClient {
     });
   }
 
+  /**
+   * Transition many issues, one issue at a time per worker
+   * @param issueIdOrKeys - The issue IDs or keys
+   * @param transitionIdOrName - The transition ID or name
+   * @param options - The bulk options
+   * @returns The outcome of each transition, in input order
+   */
+  async transitionIssues(
+    issueIdOrKeys: string[],
+    transitionIdOrName: string,
+    options: BulkOptions = {}
+  ): Promise<BulkOperationResult<string, void>> {
+    return runBulk(
+      issueIdOrKeys,
+      (issueIdOrKey) => this.transitionIssue(issueIdOrKey, transitionIdOrName),
+      options.concurrency
+    );
+  }
+
   /**
    * Get comments for an issue
    * @param issueIdOrKey - The issue ID or key
    * @param pagination - The pagination parameters
+   * @param options - The request options
    * @returns The comments
    */
   async getComments(
     issueIdOrKey: string,
-    pagination?: PaginationParams
+    pagination?: PaginationParams,
+    options?: RequestOptions
   ): Promise<PaginatedResponse<JiraComment>> {
     const params = createPaginationParams(pagination);
     
@@ -154,6 +590,7 @@ export class IssuesApiClient extends BaseApiClient {
         startAt: params.startAt,
         maxResults: params.maxResults,
       },
+      signal: options?.signal,
     };
     
     const response = await this.get<{
@@ -170,25 +607,37 @@ export class IssuesApiClient extends BaseApiClient {
     );
   }
 
+  /**
+   * Iterate over every comment on an issue, fetching pages as needed
+   * @param issueIdOrKey - The issue ID or key
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the comments
+   */
+  iterateComments(issueIdOrKey: string, options?: IterateOptions): AsyncGenerator<JiraComment, void, undefined> {
+    return iterateAll((params, signal) => this.getComments(issueIdOrKey, params, { signal }), options);
+  }
+
   /**
    * Add a comment to an issue
    * @param issueIdOrKey - The issue ID or key
-   * @param body - The comment body
+   * @param body - The comment body; Markdown is converted to ADF in API v3 and wiki markup in API v2
    * @returns The created comment
    */
-  async addComment(issueIdOrKey: string, body: string): Promise<JiraComment> {
-    return this.post<JiraComment>(`/issue/${issueIdOrKey}/comment`, { body });
+  async addComment(issueIdOrKey: string, body: string | AdfDocument): Promise<JiraComment> {
+    return this.post<JiraComment>(`/issue/${issueIdOrKey}/comment`, { body: this.formatRichText(body) });
   }
 
   /**
    * Update a comment
    * @param issueIdOrKey - The issue ID or key
    * @param commentId - The comment ID
-   * @param body - The new comment body
+   * @param body - The new comment body; Markdown is converted to ADF in API v3 and wiki markup in API v2
    * @returns The updated comment
    */
-  async updateComment(issueIdOrKey: string, commentId: string, body: string): Promise<JiraComment> {
-    return this.put<JiraComment>(`/issue/${issueIdOrKey}/comment/${commentId}`, { body });
+  async updateComment(issueIdOrKey: string, commentId: string, body: string | AdfDocument): Promise<JiraComment> {
+    return this.put<JiraComment>(`/issue/${issueIdOrKey}/comment/${commentId}`, {
+      body: this.formatRichText(body),
+    });
   }
 
   /**
@@ -201,6 +650,104 @@ export class IssuesApiClient extends BaseApiClient {
     await this.delete<void>(`/issue/${issueIdOrKey}/comment/${commentId}`);
   }
 
+  /**
+   * Get the changelog of an issue
+   * @param issueIdOrKey - The issue ID or key
+   * @param pagination - The pagination parameters
+   * @param options - The request options
+   * @returns The changelog entries, oldest first
+   */
+  async getChangelog(
+    issueIdOrKey: string,
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraChangelogEntry>> {
+    const params = createPaginationParams(pagination);
+
+    const config: AxiosRequestConfig = {
+      params: {
+        startAt: params.startAt,
+        maxResults: params.maxResults,
+      },
+      signal: options?.signal,
+    };
+
+    const response = await this.get<{
+      values: JiraChangelogEntry[];
+      total: number;
+      startAt: number;
+      maxResults: number;
+    }>(`/issue/${issueIdOrKey}/changelog`, config);
+
+    return createPaginatedResponse(response.values, response.total, params);
+  }
+
+  /**
+   * Iterate over the changelog of an issue, fetching pages as needed
+   * @param issueIdOrKey - The issue ID or key
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the changelog entries
+   */
+  iterateChangelog(issueIdOrKey: string, options?: IterateOptions): AsyncGenerator<JiraChangelogEntry, void, undefined> {
+    return iterateAll((params, signal) => this.getChangelog(issueIdOrKey, params, { signal }), options);
+  }
+
+  /**
+   * Get a page of the changelogs of several issues at once
+   * @param issueIdOrKeys - The issue IDs or keys, up to 1000
+   * @param fieldIds - Only return changes of these fields, up to 10 (default: all fields)
+   * @param pagination - The page size and the token of the page to fetch
+   * @param options - The request options
+   * @returns The changelogs, with a `nextPageToken` unless this is the last page; an issue may span pages
+   */
+  async bulkFetchChangelogs(
+    issueIdOrKeys: string[],
+    fieldIds?: string[],
+    pagination?: CursorPaginationParams,
+    options?: RequestOptions
+  ): Promise<UncountedPaginatedResponse<JiraIssueChangelog>> {
+    const params = createPaginationParams(pagination);
+
+    const data = {
+      issueIdsOrKeys: issueIdOrKeys,
+      maxResults: params.maxResults,
+      ...(fieldIds && fieldIds.length > 0 ? { fieldIds: this.fieldMapper.toApiNames(fieldIds) } : {}),
+      ...(pagination?.nextPageToken ? { nextPageToken: pagination.nextPageToken } : {}),
+    };
+
+    const response = await this.post<{
+      issueChangeLogs: JiraIssueChangelog[];
+      nextPageToken?: string;
+    }>('/changelog/bulkfetch', data, options?.signal ? { signal: options.signal } : undefined);
+
+    return toPaginatedResponse(response.issueChangeLogs, params, {
+      strategy: 'cursor',
+      nextPageToken: response.nextPageToken,
+    });
+  }
+
+  /**
+   * Get the complete changelogs of any number of issues, fetching every page in requests of 1000 issues
+   * @param issueIdOrKeys - The issue IDs or keys
+   * @param fieldIds - Only return changes of these fields, up to 10 (default: all fields)
+   * @returns The changelog entries of each issue with changes, oldest first, keyed by issue ID
+   */
+  async getChangelogs(issueIdOrKeys: string[], fieldIds?: string[]): Promise<Record<string, JiraChangelogEntry[]>> {
+    const changelogs: Record<string, JiraChangelogEntry[]> = {};
+
+    for (const issues of chunk(issueIdOrKeys, BULK_CHANGELOG_LIMIT)) {
+      const pages = await fetchAllPages((params) => this.bulkFetchChangelogs(issues, fieldIds, params), {
+        maxResults: BULK_CHANGELOG_PAGE_SIZE,
+      });
+
+      for (const { issueId, changeHistories } of pages) {
+        changelogs[issueId] = [...(changelogs[issueId] ?? []), ...changeHistories];
+      }
+    }
+
+    return changelogs;
+  }
+
   /**
    * Assign an issue to a user
    * @param issueIdOrKey - The issue ID or key
@@ -211,4 +758,131 @@ export class IssuesApiClient extends BaseApiClient {
     const data = accountId ? { accountId } : { accountId: null };
     await this.put<void>(`/issue/${issueIdOrKey}/assignee`, data);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Check issue fields, keyed by field ID, against the cached create metadata of their project and issue type
+   * @param fields - The issue fields
+   * @returns The validation result
+   */
+  private async validateFields(fields: Record<string, unknown>): Promise<IssueValidationResult> {
+    const project = fields.project as { id?: string; key?: string } | undefined;
+    const issueType = fields.issuetype as { id?: string; name?: string } | undefined;
+    const projectIdOrKey = project?.key || project?.id;
+    const errors: Record<string, string> = {};
+
+    if (!projectIdOrKey) {
+      errors.project = 'Project is required.';
+    }
+
+    if (!issueType?.id && !issueType?.name) {
+      errors.issuetype = 'Issue type is required.';
+    }
+
+    if (!projectIdOrKey || !issueType || Object.keys(errors).length > 0) {
+      return { valid: false, errors, errorMessages: [] };
+    }
+
+    let issueTypes: JiraIssueType[];
+
+    try {
+      issueTypes = await this.cached(this.createMetaIssueTypes, projectIdOrKey, () =>
+        fetchAllPages((params) => this.getCreateMetaIssueTypes(projectIdOrKey, params))
+      );
+    } catch (error) {
+      if (isJiraError(error) && error.status === 404) {
+        errors.project = `Project "${projectIdOrKey}" does not exist or you cannot create issues in it.`;
+        return { valid: false, errors, errorMessages: [] };
+      }
+
+      throw error;
+    }
+
+    const match = issueTypes.find((type) => issueType.id
+      ? type.id === issueType.id
+      : type.name.toLowerCase() === issueType.name?.toLowerCase());
+
+    if (!match) {
+      errors.issuetype = `Issue type "${issueType.id ?? issueType.name}" cannot be created in project ${projectIdOrKey}.`;
+      return { valid: false, errors, errorMessages: [] };
+    }
+
+    const metaFields = await this.cached(this.createMetaFields, `${projectIdOrKey}/${match.id}`, () =>
+      fetchAllPages((params) => this.getCreateMetaFields(projectIdOrKey, match.id, params))
+    );
+    const fieldErrors = validateIssueFields(fields, metaFields);
+
+    return { valid: Object.keys(fieldErrors).length === 0, errors: fieldErrors, errorMessages: [] };
+  }
+
+  /**
+   * Send one bulk create request
+   * @param issueUpdates - The issues to create, with fields formatted for the API
+   * @returns The created issue or the error of each issue, in request order
+   */
+  private async postBulkCreate(issueUpdates: { fields: Record<string, unknown> }[]): Promise<(JiraIssue | JiraError)[]> {
+    let response: BulkCreateResponse;
+
+    try {
+      response = await this.post<BulkCreateResponse>('/issue/bulk', { issueUpdates });
+    } catch (error) {
+      const jiraError = handleApiError(error);
+
+      // When every issue fails, Jira answers 400 with the per-issue errors as the error body
+      if (!isBulkCreateResponse(jiraError.data)) {
+        return issueUpdates.map(() => jiraError);
+      }
+
+      response = jiraError.data;
+    }
+
+    const failures = new Map((response.errors ?? []).map((failure) => [
+      failure.failedElementNumber,
+      createJiraError(failure.elementErrors ?? {}, failure.status, 'Issue creation failed'),
+    ]));
+    let created = 0;
+
+    return issueUpdates.map((_, position) => failures.get(position) ?? response.issues[created++]);
+  }
+
+  /**
+   * Get a value from a cache, loading it on a miss; failed loads are not cached
+   * @param cache - The cache
+   * @param key - The cache key
+   * @param load - Function to load the value
+   * @returns The value
+   */
+  private cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+    let value = cache.get(key);
+
+    if (!value) {
+      value = load();
+      value.catch(() => cache.delete(key));
+      cache.set(key, value);
+    }
+
+    return value;
+  }
+
+  /**
+   * Convert the rich text fields of an issue to the format expected by the API version and key custom fields by ID
+   * @param fields - The issue fields
+   * @returns The fields with rich text converted and custom fields keyed by ID
+   */
+  private formatFields<T extends { description?: string | AdfDocument }>(fields: T): Record<string, unknown> {
+    const formatted = fields.description === undefined
+      ? fields
+      : { ...fields, description: this.formatRichText(fields.description) };
+
+    return this.fieldMapper.toApiFields(formatted);
+  }
+}
+
+/**
+ * Check whether an error body is a bulk create response listing the failure of each issue
+ * @param data - The error body
+ * @returns Whether the body has the issues and per-issue errors of a bulk create response
+ */
+function isBulkCreateResponse(data: unknown): data is BulkCreateResponse {
+  return typeof data === 'object' && data !== null && 'issues' in data && 'errors' in data &&
+    Array.isArray(data.issues) && Array.isArray(data.errors);
+}
\ No newline at end of file
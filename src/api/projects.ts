@@ -1,23 +1,35 @@
 import { AxiosRequestConfig } from 'axios';
 import { BaseApiClient } from './base';
 import { 
+  CreateProjectData,
+  IterateOptions,
+  JiraComponent,
   JiraIssueType, 
   JiraProject, 
+  JiraProjectIdentifiers,
+  JiraTask,
+  JiraVersion,
   PaginatedResponse, 
-  PaginationParams 
+  PaginationParams,
+  RequestOptions,
+  UpdateProjectData
 } from '../types';
-import { createPaginationParams, createPaginatedResponse } from '../utils/pagination';
+import { createPaginationParams, iterateAll, toPaginatedResponse } from '../utils/pagination';
 
 /**
  * API client for Jira projects
  */
 export class ProjectsApiClient extends BaseApiClient {
   /**
-   * Get all projects
+   * Get a page of all projects
    * @param pagination - The pagination parameters
+   * @param options - The request options
    * @returns The projects
    */
-  async getAllProjects(pagination?: PaginationParams): Promise<PaginatedResponse<JiraProject>> {
+  async getAllProjects(
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraProject>> {
     const params = createPaginationParams(pagination);
     
     const config: AxiosRequestConfig = {
@@ -25,15 +37,30 @@ export class ProjectsApiClient extends BaseApiClient {
         startAt: params.startAt,
         maxResults: params.maxResults,
       },
+      signal: options?.signal,
     };
     
-    const projects = await this.get<JiraProject[]>('/project', config);
+    // GET /project ignores paging and returns every project, so page through the search endpoint
+    const response = await this.get<{
+      values: JiraProject[];
+      total: number;
+      isLast: boolean;
+    }>('/project/search', config);
     
-    return createPaginatedResponse(
-      projects,
-      projects.length, // Jira API doesn't return total count for projects
-      params
-    );
+    return toPaginatedResponse(response.values, params, {
+      strategy: 'isLast',
+      isLast: response.isLast,
+      total: response.total,
+    });
+  }
+
+  /**
+   * Iterate over every project, fetching pages as needed
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the projects
+   */
+  iterateAll(options?: IterateOptions): AsyncGenerator<JiraProject, void, undefined> {
+    return iterateAll((params, signal) => this.getAllProjects(params, { signal }), options);
   }
 
   /**
@@ -55,21 +82,21 @@ export class ProjectsApiClient extends BaseApiClient {
   }
 
   /**
-   * Get project components
+   * Get all project components; `ComponentsApiClient` manages them
    * @param projectIdOrKey - The project ID or key
    * @returns The project components
    */
-  async getProjectComponents(projectIdOrKey: string): Promise<Record<string, unknown>[]> {
-    return this.get<Record<string, unknown>[]>(`/project/${projectIdOrKey}/components`);
+  async getProjectComponents(projectIdOrKey: string): Promise<JiraComponent[]> {
+    return this.get<JiraComponent[]>(`/project/${projectIdOrKey}/components`);
   }
 
   /**
-   * Get project versions
+   * Get all project versions; `VersionsApiClient` manages them
    * @param projectIdOrKey - The project ID or key
    * @returns The project versions
    */
-  async getProjectVersions(projectIdOrKey: string): Promise<Record<string, unknown>[]> {
-    return this.get<Record<string, unknown>[]>(`/project/${projectIdOrKey}/versions`);
+  async getProjectVersions(projectIdOrKey: string): Promise<JiraVersion[]> {
+    return this.get<JiraVersion[]>(`/project/${projectIdOrKey}/versions`);
   }
 
   /**
@@ -85,11 +112,13 @@ export class ProjectsApiClient extends BaseApiClient {
    * Search for projects
    * @param query - The search query
    * @param pagination - The pagination parameters
+   * @param options - The request options
    * @returns The search results
    */
   async searchProjects(
     query: string,
-    pagination?: PaginationParams
+    pagination?: PaginationParams,
+    options?: RequestOptions
   ): Promise<PaginatedResponse<JiraProject>> {
     const params = createPaginationParams(pagination);
     
@@ -99,6 +128,7 @@ export class ProjectsApiClient extends BaseApiClient {
         startAt: params.startAt,
         maxResults: params.maxResults,
       },
+      signal: options?.signal,
     };
     
     const response = await this.get<{
@@ -107,12 +137,78 @@ export class ProjectsApiClient extends BaseApiClient {
       isLast: boolean;
     }>('/project/search', config);
     
-    return {
-      values: response.values,
-      total: response.total,
-      startAt: params.startAt,
-      maxResults: params.maxResults,
+    return toPaginatedResponse(response.values, params, {
+      strategy: 'isLast',
       isLast: response.isLast,
-    };
+      total: response.total,
+    });
+  }
+
+  /**
+   * Iterate over every project matching a search query, fetching pages as needed
+   * @param query - The search query
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the projects
+   */
+  iterateSearch(query: string, options?: IterateOptions): AsyncGenerator<JiraProject, void, undefined> {
+    return iterateAll((params, signal) => this.searchProjects(query, params, { signal }), options);
+  }
+
+  /**
+   * Create a project
+   * @param data - The project key, name, type, template, lead and schemes
+   * @returns The ID and key of the created project
+   */
+  async createProject(data: CreateProjectData): Promise<JiraProjectIdentifiers> {
+    return this.post<JiraProjectIdentifiers>('/project', data);
+  }
+
+  /**
+   * Update a project
+   * @param projectIdOrKey - The project ID or key
+   * @param data - The fields to change, e.g. the lead, category or description; the others are left unchanged
+   * @returns The updated project
+   */
+  async updateProject(projectIdOrKey: string, data: UpdateProjectData): Promise<JiraProject> {
+    return this.put<JiraProject>(`/project/${projectIdOrKey}`, data);
+  }
+
+  /**
+   * Archive a project, making it read-only and hiding it from searches
+   * @param projectIdOrKey - The project ID or key
+   * @returns Nothing
+   */
+  async archiveProject(projectIdOrKey: string): Promise<void> {
+    await this.post<void>(`/project/${projectIdOrKey}/archive`);
+  }
+
+  /**
+   * Restore an archived project, or a deleted project from the trash
+   * @param projectIdOrKey - The project ID or key
+   * @returns The restored project
+   */
+  async restoreProject(projectIdOrKey: string): Promise<JiraProject> {
+    return this.post<JiraProject>(`/project/${projectIdOrKey}/restore`);
+  }
+
+  /**
+   * Delete a project
+   * @param projectIdOrKey - The project ID or key
+   * @param enableUndo - Whether the project moves to the trash, where it can be restored for 60 days,
+   *   instead of being deleted at once (default: true)
+   * @returns Nothing
+   */
+  async deleteProject(projectIdOrKey: string, enableUndo: boolean = true): Promise<void> {
+    await this.delete<void>(`/project/${projectIdOrKey}`, { params: { enableUndo } });
+  }
+
+  /**
+   * Start deleting a project in the background, for projects too large to delete within a request
+   * @param projectIdOrKey - The project ID or key
+   * @returns The deletion task; wait for it with `TasksApiClient.waitForTask`
+   */
+  async deleteProjectAsync(projectIdOrKey: string): Promise<JiraTask> {
+    // Jira answers with a redirect to the task, which Axios follows
+    return this.post<JiraTask>(`/project/${projectIdOrKey}/delete`);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { BaseApiClient } from './base';
+import { JiraTask, JiraTaskStatus, WaitForTaskOptions } from '../types';
+import { JiraError, JiraTaskError } from '../utils/error';
+
+/**
+ * Default time between polls of a task, in milliseconds
+ */
+const DEFAULT_TASK_POLL_INTERVAL = 1000;
+
+/**
+ * Statuses of a task that has stopped without completing
+ */
+const FAILED_TASK_STATUSES: JiraTaskStatus[] = ['FAILED', 'CANCELLED', 'DEAD'];
+
+/**
+ * API client for Jira long-running tasks
+ */
+export class TasksApiClient extends BaseApiClient {
+  /**
+   * Get the status of a task
+   * @param taskId - The task ID
+   * @returns The task
+   */
+  async getTask(taskId: string): Promise<JiraTask> {
+    return this.get<JiraTask>(`/task/${taskId}`);
+  }
+
+  /**
+   * Request the cancellation of a task
+   * @param taskId - The task ID
+   * @returns Nothing
+   */
+  async cancelTask(taskId: string): Promise<void> {
+    await this.post<void>(`/task/${taskId}/cancel`);
+  }
+
+  /**
+   * Poll a task until it completes
+   * @param taskId - The task ID
+   * @param options - The poll interval, timeout, progress callback and abort signal
+   * @returns The completed task, with its result
+   * @throws JiraTaskError if the task fails, is cancelled or does not complete within the timeout
+   * @throws JiraError with status 0 if the signal aborts the wait
+   */
+  async waitForTask(taskId: string, options: WaitForTaskOptions = {}): Promise<JiraTask> {
+    const { interval = DEFAULT_TASK_POLL_INTERVAL, timeout, onProgress, signal } = options;
+    const deadline = timeout !== undefined ? Date.now() + timeout : Infinity;
+
+    for (;;) {
+      const task = await this.get<JiraTask>(`/task/${taskId}`, { signal });
+      onProgress?.(task);
+
+      if (task.status === 'COMPLETE') {
+        return task;
+      }
+
+      if (FAILED_TASK_STATUSES.includes(task.status)) {
+        throw new JiraTaskError(`Task ${taskId} ended with status ${task.status}${task.message ? `: ${task.message}` : ''}`, task);
+      }
+
+      if (Date.now() + interval > deadline) {
+        throw new JiraTaskError(`Task ${taskId} did not complete within ${timeout} ms`, task, 408);
+      }
+
+      await delay(interval, signal);
+    }
+  }
+}
+
+/**
+ * Wait for a time, unless aborted
+ * @param ms - The time to wait, in milliseconds
+ * @param signal - Signal that ends the wait early
+ * @returns Nothing
+ * @throws JiraError with status 0 if the signal aborts the wait
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = (): void => {
+      clearTimeout(timer);
+      reject(new JiraError('Request aborted', 0));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+  });
+}
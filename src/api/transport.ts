@@ -0,0 +1,213 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Stream } from 'stream';
+import {
+  AuthProvider,
+  HttpMethod,
+  JiraClientConfig,
+  JiraMiddleware,
+  JiraRequest,
+  JiraResponse,
+  ResolvedJiraClientConfig
+} from '../types';
+import { createAuthHeaders, SessionAuthProvider } from '../utils/auth';
+import { createConfig } from '../utils/config';
+import { handleApiError, isJiraError } from '../utils/error';
+import { normalizeHeaders } from '../utils/headers';
+import { RateLimiter } from '../utils/rate-limiter';
+import { getRetryDelay, sleep } from '../utils/retry';
+
+/**
+ * HTTP transport shared by the Jira API clients
+ */
+export class JiraTransport {
+  /** The configuration for the transport */
+  readonly config: ResolvedJiraClientConfig;
+  /** The rate limiter that requests are scheduled through */
+  readonly limiter: RateLimiter;
+  /** The Axios instance for making requests */
+  private readonly client: AxiosInstance;
+  /** The provider of per-request credentials, if the authentication mode needs one */
+  private readonly authProvider?: AuthProvider;
+  /** The registered middleware, outermost first */
+  private readonly middleware: JiraMiddleware[] = [];
+
+  /**
+   * Create a new JiraTransport
+   * @param config - The configuration for the transport
+   */
+  constructor(config: JiraClientConfig) {
+    this.config = createConfig(config);
+    this.limiter = new RateLimiter(this.config.rateLimit);
+    this.authProvider = this.createAuthProvider();
+    this.client = this.createAxiosInstance();
+  }
+
+  /**
+   * Create the provider of per-request credentials for the configured authentication mode
+   * @returns The auth provider, or undefined if the credentials do not change
+   */
+  private createAuthProvider(): AuthProvider | undefined {
+    const { auth, authProvider, baseUrl, timeout } = this.config;
+
+    if (auth?.type === 'session') {
+      return new SessionAuthProvider(auth, baseUrl, timeout);
+    }
+
+    return authProvider;
+  }
+
+  /**
+   * Create an Axios instance for making requests
+   * @returns The Axios instance
+   */
+  private createAxiosInstance(): AxiosInstance {
+    const { baseUrl, apiVersion, timeout, auth } = this.config;
+
+    // Credentials from an auth provider can change, so they are added to each request instead.
+    // Axios sets the Content-Type per request: application/json for objects, multipart for form data.
+    const headers: Record<string, string> = {
+      ...(auth && !this.authProvider ? createAuthHeaders(auth) : {}),
+      'Accept': 'application/json',
+    };
+    
+    const instance = axios.create({
+      baseURL: `${baseUrl}/rest/api/${apiVersion}`,
+      timeout,      
+      headers,
+    });
+
+    return instance;
+  }
+
+  /**
+   * Add a middleware to the request pipeline
+   * @param middleware - The middleware to add; middleware added first runs outermost
+   * @returns The transport, for chaining
+   */
+  use(middleware: JiraMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Send a request through the rate limiter, retrying it according to the retry configuration
+   * @param method - The HTTP method of the request
+   * @param url - The URL of the request
+   * @param data - The data to send
+   * @param config - The request configuration
+   * @returns The response data
+   */
+  async request<T>(
+    method: HttpMethod,
+    url: string,
+    data?: unknown,
+    config?: AxiosRequestConfig
+  ): Promise<T> {
+    const { retry } = this.config;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.limiter.schedule(() => this.dispatch({ method, url, data, config }));
+        return response.data as T;
+      } catch (error) {
+        const jiraError = handleApiError(error);
+        const delay = getRetryDelay(jiraError, method, attempt, retry);
+
+        if (delay === undefined) {
+          throw jiraError;
+        }
+
+        retry.onRetry?.({ method, url, attempt, delay, error: jiraError });
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Run a single attempt of a request through the middleware pipeline
+   * @param request - The request to send
+   * @returns The response
+   */
+  private dispatch(request: JiraRequest): Promise<JiraResponse> {
+    const run = (index: number, current: JiraRequest): Promise<JiraResponse> => {
+      if (index === this.middleware.length) {
+        return this.send(current);
+      }
+
+      return this.middleware[index](current, (next) => run(index + 1, next));
+    };
+
+    return run(0, request);
+  }
+
+  /**
+   * Send a single request, replaying it once with renewed credentials if the auth provider can refresh them
+   *
+   * Requests with a stream body, such as attachment uploads, are not replayed: the first attempt consumed the body.
+   * The credentials are still renewed, so sending the request again succeeds.
+   * @param request - The request to send
+   * @returns The response
+   */
+  private async send(request: JiraRequest): Promise<JiraResponse> {
+    const { authProvider } = this;
+
+    try {
+      return await this.sendAuthorized(request);
+    } catch (error) {
+      if (!authProvider?.refresh || !isJiraError(error) || error.status !== 401) {
+        throw error;
+      }
+
+      if (!(await authProvider.refresh()) || request.data instanceof Stream) {
+        throw error;
+      }
+
+      return this.sendAuthorized(request);
+    }
+  }
+
+  /**
+   * Add the auth provider headers to a request and send it with the Axios instance
+   * @param request - The request to send
+   * @returns The response
+   */
+  private async sendAuthorized(request: JiraRequest): Promise<JiraResponse> {
+    const { authProvider } = this;
+
+    if (authProvider) {
+      const authHeaders = await authProvider.getHeaders();
+      request = {
+        ...request,
+        config: { ...request.config, headers: { ...request.config?.headers, ...authHeaders } },
+      };
+    }
+
+    const { method, url, data, config } = request;
+    let response: AxiosResponse<unknown>;
+
+    try {
+      switch (method) {
+        case 'get':
+          response = await this.client.get(url, config);
+          break;
+        case 'post':
+          response = await this.client.post(url, data, config);
+          break;
+        case 'put':
+          response = await this.client.put(url, data, config);
+          break;
+        case 'delete':
+          response = await this.client.delete(url, config);
+          break;
+      }
+    } catch (error) {
+      throw handleApiError(error);
+    }
+
+    return {
+      status: response.status,
+      headers: normalizeHeaders(response.headers),
+      data: response.data,
+    };
+  }
+}
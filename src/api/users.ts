@@ -1,11 +1,13 @@
 import { AxiosRequestConfig } from 'axios';
 import { BaseApiClient } from './base';
 import { 
+  IterateOptions,
   JiraUser, 
-  PaginatedResponse, 
-  PaginationParams 
+  PaginationParams,
+  RequestOptions,
+  UncountedPaginatedResponse
 } from '../types';
-import { createPaginationParams, createPaginatedResponse } from '../utils/pagination';
+import { createPaginationParams, iterateAll, toPaginatedResponse } from '../utils/pagination';
 
 /**
  * API client for Jira users
@@ -36,12 +38,14 @@ export class UsersApiClient extends BaseApiClient {
    * Search for users
    * @param query - The search query
    * @param pagination - The pagination parameters
+   * @param options - The request options
    * @returns The search results
    */
   async searchUsers(
     query: string,
-    pagination?: PaginationParams
-  ): Promise<PaginatedResponse<JiraUser>> {
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<UncountedPaginatedResponse<JiraUser>> {
     const params = createPaginationParams(pagination);
     
     const config: AxiosRequestConfig = {
@@ -50,27 +54,37 @@ export class UsersApiClient extends BaseApiClient {
         startAt: params.startAt,
         maxResults: params.maxResults,
       },
+      signal: options?.signal,
     };
     
     const users = await this.get<JiraUser[]>('/user/search', config);
     
-    return createPaginatedResponse(
-      users,
-      users.length, // Jira API doesn't return total count for user search
-      params
-    );
+    // Jira API doesn't return total count for user search
+    return toPaginatedResponse(users, params, { strategy: 'shortPage' });
+  }
+
+  /**
+   * Iterate over every user matching a search query, fetching pages as needed
+   * @param query - The search query
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the users
+   */
+  iterateSearch(query: string, options?: IterateOptions): AsyncGenerator<JiraUser, void, undefined> {
+    return iterateAll((params, signal) => this.searchUsers(query, params, { signal }), options);
   }
 
   /**
    * Get all users assignable to a project
    * @param projectIdOrKey - The project ID or key
    * @param pagination - The pagination parameters
+   * @param options - The request options
    * @returns The assignable users
    */
   async getAssignableUsers(
     projectIdOrKey: string,
-    pagination?: PaginationParams
-  ): Promise<PaginatedResponse<JiraUser>> {
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<UncountedPaginatedResponse<JiraUser>> {
     const params = createPaginationParams(pagination);
     
     const config: AxiosRequestConfig = {
@@ -79,14 +93,22 @@ export class UsersApiClient extends BaseApiClient {
         startAt: params.startAt,
         maxResults: params.maxResults,
       },
+      signal: options?.signal,
     };
     
     const users = await this.get<JiraUser[]>('/user/assignable/search', config);
     
-    return createPaginatedResponse(
-      users,
-      users.length, // Jira API doesn't return total count for assignable users
-      params
-    );
+    // Jira API doesn't return total count for assignable users
+    return toPaginatedResponse(users, params, { strategy: 'shortPage' });
+  }
+
+  /**
+   * Iterate over every user assignable to a project, fetching pages as needed
+   * @param projectIdOrKey - The project ID or key
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the users
+   */
+  iterateAssignableUsers(projectIdOrKey: string, options?: IterateOptions): AsyncGenerator<JiraUser, void, undefined> {
+    return iterateAll((params, signal) => this.getAssignableUsers(projectIdOrKey, params, { signal }), options);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { AxiosRequestConfig } from 'axios';
+import { BaseApiClient } from './base';
+import {
+  CreateVersionData,
+  DeleteVersionOptions,
+  IterateOptions,
+  JiraVersion,
+  JiraVersionIssueCounts,
+  JiraVersionUnresolvedIssueCount,
+  PaginatedResponse,
+  RequestOptions,
+  UpdateVersionData,
+  VersionPosition,
+  VersionQueryParams
+} from '../types';
+import { createPaginationParams, iterateAll, toPaginatedResponse } from '../utils/pagination';
+
+/**
+ * API client for Jira project versions
+ */
+export class VersionsApiClient extends BaseApiClient {
+  /**
+   * Get the versions of a project
+   * @param projectIdOrKey - The project ID or key
+   * @param query - The pagination parameters, filters and order
+   * @param options - The request options
+   * @returns The versions
+   */
+  async getVersions(
+    projectIdOrKey: string,
+    query?: VersionQueryParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraVersion>> {
+    const params = createPaginationParams(query);
+
+    const config: AxiosRequestConfig = {
+      params: {
+        startAt: params.startAt,
+        maxResults: params.maxResults,
+        ...(query?.query ? { query: query.query } : {}),
+        ...(query?.status && query.status.length > 0 ? { status: query.status.join(',') } : {}),
+        ...(query?.orderBy ? { orderBy: query.orderBy } : {}),
+      },
+      signal: options?.signal,
+    };
+
+    const response = await this.get<{
+      values: JiraVersion[];
+      total: number;
+      isLast: boolean;
+    }>(`/project/${projectIdOrKey}/version`, config);
+
+    return toPaginatedResponse(response.values, params, {
+      strategy: 'isLast',
+      isLast: response.isLast,
+      total: response.total,
+    });
+  }
+
+  /**
+   * Iterate over the versions of a project, fetching pages as needed
+   * @param projectIdOrKey - The project ID or key
+   * @param query - The filters and order
+   * @param options - The pagination parameters, abort signal and prefetch setting
+   * @returns An async iterator over the versions
+   */
+  iterateVersions(
+    projectIdOrKey: string,
+    query?: Omit<VersionQueryParams, 'startAt' | 'maxResults'>,
+    options?: IterateOptions
+  ): AsyncGenerator<JiraVersion, void, undefined> {
+    return iterateAll((params, signal) => this.getVersions(projectIdOrKey, { ...query, ...params }, { signal }), options);
+  }
+
+  /**
+   * Get a version
+   * @param versionId - The version ID
+   * @returns The version
+   */
+  async getVersion(versionId: string): Promise<JiraVersion> {
+    return this.get<JiraVersion>(`/version/${versionId}`);
+  }
+
+  /**
+   * Create a version
+   * @param data - The version data
+   * @returns The created version
+   */
+  async createVersion(data: CreateVersionData): Promise<JiraVersion> {
+    return this.post<JiraVersion>('/version', formatVersion(data));
+  }
+
+  /**
+   * Update a version
+   * @param versionId - The version ID
+   * @param data - The fields to change; the others are left unchanged
+   * @returns The updated version
+   */
+  async updateVersion(versionId: string, data: UpdateVersionData): Promise<JiraVersion> {
+    return this.put<JiraVersion>(`/version/${versionId}`, formatVersion(data));
+  }
+
+  /**
+   * Release a version
+   * @param versionId - The version ID
+   * @param releaseDate - The release date (default: today)
+   * @returns The released version
+   */
+  async releaseVersion(versionId: string, releaseDate: string | Date = new Date()): Promise<JiraVersion> {
+    return this.updateVersion(versionId, { released: true, releaseDate });
+  }
+
+  /**
+   * Archive a version, hiding it from the version pickers
+   * @param versionId - The version ID
+   * @returns The archived version
+   */
+  async archiveVersion(versionId: string): Promise<JiraVersion> {
+    return this.updateVersion(versionId, { archived: true });
+  }
+
+  /**
+   * Merge a version into another: its issues move to the other version and it is deleted
+   * @param versionId - The ID of the version to merge and delete
+   * @param targetVersionId - The ID of the version to move the issues to
+   * @returns Nothing
+   */
+  async mergeVersion(versionId: string, targetVersionId: string): Promise<void> {
+    await this.put<void>(`/version/${versionId}/mergeto/${targetVersionId}`);
+  }
+
+  /**
+   * Move a version in the version order of its project
+   * @param versionId - The version ID
+   * @param position - `First`, `Last`, `Earlier`, `Later`, or the version to place it after
+   * @returns The moved version
+   */
+  async moveVersion(versionId: string, position: VersionPosition): Promise<JiraVersion> {
+    const data = typeof position === 'string'
+      ? { position }
+      // Jira identifies the version to move after by its URL
+      : { after: `${this.config.baseUrl}/rest/api/${this.config.apiVersion}/version/${position.after}` };
+
+    return this.post<JiraVersion>(`/version/${versionId}/move`, data);
+  }
+
+  /**
+   * Delete a version, optionally moving its issues to other versions
+   * @param versionId - The version ID
+   * @param options - The versions to move the fix and affects version issues to
+   * @returns Nothing
+   */
+  async deleteVersion(versionId: string, options: DeleteVersionOptions = {}): Promise<void> {
+    await this.post<void>(`/version/${versionId}/removeAndSwap`, options);
+  }
+
+  /**
+   * Get the numbers of issues that use a version
+   * @param versionId - The version ID
+   * @returns The numbers of issues with the version as fix version, affects version or in a custom field
+   */
+  async getRelatedIssueCounts(versionId: string): Promise<JiraVersionIssueCounts> {
+    return this.get<JiraVersionIssueCounts>(`/version/${versionId}/relatedIssueCounts`);
+  }
+
+  /**
+   * Get the numbers of all and of unresolved issues with a version as fix version
+   * @param versionId - The version ID
+   * @returns The issue counts
+   */
+  async getUnresolvedIssueCount(versionId: string): Promise<JiraVersionUnresolvedIssueCount> {
+    return this.get<JiraVersionUnresolvedIssueCount>(`/version/${versionId}/unresolvedIssueCount`);
+  }
+}
+
+/**
+ * Convert version data to the format expected by the API
+ * @param data - The version data
+ * @returns The request body, with dates as YYYY-MM-DD
+ */
+function formatVersion(data: UpdateVersionData): Record<string, unknown> {
+  const { startDate, releaseDate, ...rest } = data;
+
+  return {
+    ...rest,
+    ...(startDate !== undefined ? { startDate: formatDate(startDate) } : {}),
+    ...(releaseDate !== undefined ? { releaseDate: formatDate(releaseDate) } : {}),
+  };
+}
+
+/**
+ * Format a version date
+ * @param date - The date
+ * @returns The date as YYYY-MM-DD, or the string unchanged
+ */
+function formatDate(date: string | Date): string {
+  return typeof date === 'string' ? date : date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,290 @@
+import { AxiosRequestConfig } from 'axios';
+import { BaseApiClient } from './base';
+import {
+  IterateOptions,
+  JiraWorklog,
+  JiraWorklogChangePage,
+  PaginatedResponse,
+  RequestOptions,
+  WorklogData,
+  WorklogOptions,
+  WorklogQueryParams,
+  WorklogSyncResult
+} from '../types';
+import { chunk } from '../utils/bulk';
+import { createPaginatedResponse, createPaginationParams, iterateAll } from '../utils/pagination';
+
+/**
+ * Maximum number of worklogs Jira returns in one `/worklog/list` request
+ */
+const WORKLOG_LIST_LIMIT = 1000;
+
+/**
+ * API client for the time logged on Jira issues
+ */
+export class WorklogsApiClient extends BaseApiClient {
+  /**
+   * Get the worklogs of an issue
+   * @param issueIdOrKey - The issue ID or key
+   * @param query - The pagination parameters and the range of start times
+   * @param options - The request options
+   * @returns The worklogs, oldest first
+   */
+  async getWorklogs(
+    issueIdOrKey: string,
+    query?: WorklogQueryParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<JiraWorklog>> {
+    const params = createPaginationParams(query);
+
+    const config: AxiosRequestConfig = {
+      params: {
+        startAt: params.startAt,
+        maxResults: params.maxResults,
+        ...(query?.startedAfter !== undefined ? { startedAfter: toEpochMillis(query.startedAfter) } : {}),
+        ...(query?.startedBefore !== undefined ? { startedBefore: toEpochMillis(query.startedBefore) } : {}),
+      },
+      signal: options?.signal,
+    };
+
+    const response = await this.get<{
+      worklogs: JiraWorklog[];
+      total: number;
+      startAt: number;
+      maxResults: number;
+    }>(`/issue/${issueIdOrKey}/worklog`, config);
+
+    return createPaginatedResponse(response.worklogs, response.total, params);
+  }
+
+  /**
+   * Iterate over every worklog of an issue, fetching pages as needed
+   * @param issueIdOrKey - The issue ID or key
+   * @param options - The pagination parameters, range of start times, abort signal and prefetch setting
+   * @returns An async iterator over the worklogs
+   */
+  iterateWorklogs(
+    issueIdOrKey: string,
+    options?: IterateOptions & Pick<WorklogQueryParams, 'startedAfter' | 'startedBefore'>
+  ): AsyncGenerator<JiraWorklog, void, undefined> {
+    const { startedAfter, startedBefore, ...iterateOptions } = options ?? {};
+
+    return iterateAll(
+      (params, signal) => this.getWorklogs(issueIdOrKey, { ...params, startedAfter, startedBefore }, { signal }),
+      iterateOptions
+    );
+  }
+
+  /**
+   * Get a worklog
+   * @param issueIdOrKey - The issue ID or key
+   * @param worklogId - The worklog ID
+   * @returns The worklog
+   */
+  async getWorklog(issueIdOrKey: string, worklogId: string): Promise<JiraWorklog> {
+    return this.get<JiraWorklog>(`/issue/${issueIdOrKey}/worklog/${worklogId}`);
+  }
+
+  /**
+   * Log time on an issue
+   * @param issueIdOrKey - The issue ID or key
+   * @param data - The time spent, start time, comment and visibility
+   * @param options - How the remaining estimate is updated and whether watchers are notified
+   * @returns The created worklog
+   */
+  async addWorklog(issueIdOrKey: string, data: WorklogData, options?: WorklogOptions): Promise<JiraWorklog> {
+    return this.post<JiraWorklog>(
+      `/issue/${issueIdOrKey}/worklog`,
+      this.formatWorklog({ started: new Date(), ...data }),
+      toWorklogConfig(options, ['newEstimate', 'reduceBy'])
+    );
+  }
+
+  /**
+   * Update a worklog
+   * @param issueIdOrKey - The issue ID or key
+   * @param worklogId - The worklog ID
+   * @param data - The fields to change
+   * @param options - How the remaining estimate is updated and whether watchers are notified
+   * @returns The updated worklog
+   */
+  async updateWorklog(
+    issueIdOrKey: string,
+    worklogId: string,
+    data: WorklogData,
+    options?: WorklogOptions
+  ): Promise<JiraWorklog> {
+    return this.put<JiraWorklog>(
+      `/issue/${issueIdOrKey}/worklog/${worklogId}`,
+      this.formatWorklog(data),
+      toWorklogConfig(options, ['newEstimate'])
+    );
+  }
+
+  /**
+   * Delete a worklog
+   * @param issueIdOrKey - The issue ID or key
+   * @param worklogId - The worklog ID
+   * @param options - How the remaining estimate is updated and whether watchers are notified
+   * @returns Nothing
+   */
+  async deleteWorklog(issueIdOrKey: string, worklogId: string, options?: WorklogOptions): Promise<void> {
+    await this.delete<void>(
+      `/issue/${issueIdOrKey}/worklog/${worklogId}`,
+      toWorklogConfig(options, ['newEstimate', 'increaseBy'])
+    );
+  }
+
+  /**
+   * Get a page of the IDs of worklogs created or updated since a point in time, across all issues
+   * @param since - The start of the page; the `until` of the previous page
+   * @param options - The request options
+   * @returns The page, with up to 1000 worklog IDs
+   */
+  async getUpdatedWorklogs(since: Date | number, options?: RequestOptions): Promise<JiraWorklogChangePage> {
+    return this.get<JiraWorklogChangePage>('/worklog/updated', {
+      params: { since: toEpochMillis(since) },
+      signal: options?.signal,
+    });
+  }
+
+  /**
+   * Get a page of the IDs of worklogs deleted since a point in time, across all issues
+   * @param since - The start of the page; the `until` of the previous page
+   * @param options - The request options
+   * @returns The page, with up to 1000 worklog IDs
+   */
+  async getDeletedWorklogs(since: Date | number, options?: RequestOptions): Promise<JiraWorklogChangePage> {
+    return this.get<JiraWorklogChangePage>('/worklog/deleted', {
+      params: { since: toEpochMillis(since) },
+      signal: options?.signal,
+    });
+  }
+
+  /**
+   * Get worklogs by ID, across all issues
+   * @param worklogIds - The worklog IDs; split into requests of 1000
+   * @param options - The request options
+   * @returns The worklogs the user can see; worklogs that do not exist are left out
+   */
+  async getWorklogsByIds(worklogIds: Array<string | number>, options?: RequestOptions): Promise<JiraWorklog[]> {
+    const worklogs: JiraWorklog[] = [];
+
+    for (const ids of chunk(worklogIds.map(Number), WORKLOG_LIST_LIMIT)) {
+      const response = await this.post<JiraWorklog[]>('/worklog/list', { ids }, { signal: options?.signal });
+      worklogs.push(...response);
+    }
+
+    return worklogs;
+  }
+
+  /**
+   * Get every worklog created, updated or deleted since the previous sync, across all issues
+   * @param since - The `until` of the previous sync, or the time to start from
+   * @param options - The request options
+   * @returns The updated worklogs, the IDs of the deleted ones and the `since` for the next sync
+   */
+  async syncWorklogs(since: Date | number, options?: RequestOptions): Promise<WorklogSyncResult> {
+    const updated = await this.collectChanges((page) => this.getUpdatedWorklogs(page, options), since);
+    const deleted = await this.collectChanges((page) => this.getDeletedWorklogs(page, options), since);
+    const worklogs = await this.getWorklogsByIds(updated.ids, options);
+
+    return {
+      worklogs,
+      deletedIds: deleted.ids,
+      // Resuming from the earlier of the two ends may report a change twice, but never misses one
+      until: Math.min(updated.until, deleted.until),
+    };
+  }
+
+  /**
+   * Read every page of a worklog change feed
+   * @param fetchPage - Function to fetch the page starting at a point in time
+   * @param since - The start of the first page
+   * @returns The worklog IDs and the end of the last page
+   */
+  private async collectChanges(
+    fetchPage: (since: number) => Promise<JiraWorklogChangePage>,
+    since: Date | number
+  ): Promise<{ ids: number[]; until: number }> {
+    const ids: number[] = [];
+    let page = await fetchPage(toEpochMillis(since));
+
+    for (;;) {
+      ids.push(...page.values.map((change) => change.worklogId));
+
+      // An empty page is treated as the last, so an unexpected response cannot cause an endless loop
+      if (page.lastPage || page.values.length === 0) {
+        return { ids, until: page.until };
+      }
+
+      page = await fetchPage(page.until);
+    }
+  }
+
+  /**
+   * Convert worklog data to the format expected by the API
+   * @param data - The worklog data
+   * @returns The request body
+   */
+  private formatWorklog(data: WorklogData): Record<string, unknown> {
+    const { started, comment, ...rest } = data;
+
+    return {
+      ...rest,
+      ...(started !== undefined ? { started: formatWorklogDate(started) } : {}),
+      ...(comment !== undefined ? { comment: this.formatRichText(comment) } : {}),
+    };
+  }
+}
+
+/**
+ * Create the request configuration for adding, updating or deleting a worklog
+ * @param options - The worklog options
+ * @param estimateParams - The estimate parameters the endpoint accepts
+ * @returns The request configuration
+ */
+function toWorklogConfig(
+  options: WorklogOptions | undefined,
+  estimateParams: Array<'newEstimate' | 'reduceBy' | 'increaseBy'>
+): AxiosRequestConfig | undefined {
+  if (!options) {
+    return undefined;
+  }
+
+  const params: Record<string, unknown> = {};
+
+  if (options.adjustEstimate !== undefined) {
+    params.adjustEstimate = options.adjustEstimate;
+  }
+
+  for (const name of estimateParams) {
+    if (options[name] !== undefined) {
+      params[name] = options[name];
+    }
+  }
+
+  if (options.notifyUsers !== undefined) {
+    params.notifyUsers = options.notifyUsers;
+  }
+
+  return { params, signal: options.signal };
+}
+
+/**
+ * Format a worklog start time the way Jira expects
+ * @param started - The start time
+ * @returns The time as "2024-01-31T09:00:00.000+0000", or the string unchanged
+ */
+function formatWorklogDate(started: string | Date): string {
+  return typeof started === 'string' ? started : started.toISOString().replace('Z', '+0000');
+}
+
+/**
+ * Convert a point in time to milliseconds since the epoch
+ * @param time - The time
+ * @returns The milliseconds since the epoch
+ */
+function toEpochMillis(time: Date | number): number {
+  return typeof time === 'number' ? time : time.getTime();
+}
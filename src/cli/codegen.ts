@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'fs';
+import { JiraClient } from '../index';
+import { JiraFieldMetadata } from '../types';
+import { fetchFieldMetadata, generateFieldTypes } from '../utils/codegen';
+
+/**
+ * Usage of the jira-codegen command
+ */
+const USAGE = `Usage: jira-codegen [options]
+
+Generate TypeScript types for the custom fields and issue types of a Jira site.
+Credentials are read from the JIRA_* environment variables or a .env file.
+
+Options:
+  -p, --project <keys>         Projects to generate issue type interfaces for (comma separated, repeatable);
+                               with --input, limits the output to these projects
+  -i, --input <file>           Read saved field metadata instead of fetching it (works offline)
+  -s, --save-metadata <file>   Save the fetched field metadata for later offline runs
+  -o, --output <file>          Write the generated types to a file instead of stdout
+      --import-from <module>   Module to import customField from (default: jira-api-client)
+  -h, --help                   Show this help`;
+
+/**
+ * Options of the jira-codegen command
+ */
+export interface CodegenCliOptions {
+  /** The project keys */
+  projects: string[];
+  /** The saved field metadata file to read */
+  input?: string;
+  /** The file to save fetched field metadata to */
+  saveMetadata?: string;
+  /** The file to write the generated types to */
+  output?: string;
+  /** The module the generated file imports from */
+  importFrom?: string;
+  /** Whether to show the usage */
+  help: boolean;
+}
+
+/**
+ * Parse the arguments of the jira-codegen command
+ * @param args - The command line arguments, without the node and script paths
+ * @returns The parsed options
+ * @throws Error if an option is unknown or misses its value
+ */
+export function parseCodegenArgs(args: string[]): CodegenCliOptions {
+  const options: CodegenCliOptions = { projects: [], help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '-h' || arg === '--help') {
+      options.help = true;
+      continue;
+    }
+
+    const value = args[i + 1];
+
+    if (value === undefined || value.startsWith('-')) {
+      throw new Error(`Unknown option or missing value: ${arg}`);
+    }
+
+    switch (arg) {
+      case '-p':
+      case '--project':
+        options.projects.push(...value.split(',').map((key) => key.trim()).filter(Boolean));
+        break;
+      case '-i':
+      case '--input':
+        options.input = value;
+        break;
+      case '-s':
+      case '--save-metadata':
+        options.saveMetadata = value;
+        break;
+      case '-o':
+      case '--output':
+        options.output = value;
+        break;
+      case '--import-from':
+        options.importFrom = value;
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+
+    i++;
+  }
+
+  return options;
+}
+
+/**
+ * Run the jira-codegen command
+ * @param args - The command line arguments, without the node and script paths
+ * @returns Nothing
+ */
+export async function runCodegen(args: string[]): Promise<void> {
+  const options = parseCodegenArgs(args);
+
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  let metadata: JiraFieldMetadata;
+
+  if (options.input) {
+    metadata = JSON.parse(readFileSync(options.input, 'utf8')) as JiraFieldMetadata;
+
+    if (options.projects.length > 0) {
+      metadata = { ...metadata, projects: metadata.projects.filter((project) => options.projects.includes(project.key)) };
+    }
+  } else {
+    metadata = await fetchFieldMetadata(JiraClient.fromEnv(), options.projects);
+
+    if (options.saveMetadata) {
+      writeFileSync(options.saveMetadata, `${JSON.stringify(metadata, null, 2)}\n`);
+    }
+  }
+
+  const source = generateFieldTypes(metadata, { importFrom: options.importFrom });
+
+  if (options.output) {
+    writeFileSync(options.output, source);
+  } else {
+    process.stdout.write(source);
+  }
+}
+
+if (require.main === module) {
+  runCodegen(process.argv.slice(2)).catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
@@ -1,29 +1,92 @@
+import { AgileApiClient } from './api/agile';
+import { AttachmentsApiClient } from './api/attachments';
+import { ComponentsApiClient } from './api/components';
+import { FieldsApiClient } from './api/fields';
+import { IssueLinksApiClient } from './api/issue-links';
 import { IssuesApiClient } from './api/issues';
 import { ProjectsApiClient } from './api/projects';
+import { TasksApiClient } from './api/tasks';
+import { JiraTransport } from './api/transport';
 import { UsersApiClient } from './api/users';
-import { JiraClientConfig } from './types';
+import { VersionsApiClient } from './api/versions';
+import { WorklogsApiClient } from './api/worklogs';
+import { CustomFieldMap, JiraClientConfig, JiraMiddleware, ReleaseNotes, ReleaseNotesOptions } from './types';
 import { createConfigFromEnv } from './utils/config';
+import { RateLimiter } from './utils/rate-limiter';
+import { generateReleaseNotes } from './utils/release-notes';
 import { fetchAllPages } from './utils/pagination';
 
 /**
  * Main Jira API client
  */
-export class JiraClient {
+export class JiraClient<TCustomFields extends CustomFieldMap = CustomFieldMap> {
   /** The issues API client */
-  readonly issues: IssuesApiClient;
+  readonly issues: IssuesApiClient<TCustomFields>;
+  /** The fields API client */
+  readonly fields: FieldsApiClient;
+  /** The issue links and remote links API client */
+  readonly issueLinks: IssueLinksApiClient;
+  /** The attachments API client */
+  readonly attachments: AttachmentsApiClient;
+  /** The worklogs API client */
+  readonly worklogs: WorklogsApiClient;
+  /** The Jira Software boards, sprints and epics API client */
+  readonly agile: AgileApiClient;
   /** The projects API client */
   readonly projects: ProjectsApiClient;
+  /** The project versions API client */
+  readonly versions: VersionsApiClient;
+  /** The project components API client */
+  readonly components: ComponentsApiClient;
   /** The users API client */
   readonly users: UsersApiClient;
+  /** The long-running tasks API client */
+  readonly tasks: TasksApiClient;
+  /** The HTTP transport shared by all API clients */
+  readonly transport: JiraTransport;
+  /** The rate limiter shared by all API clients */
+  readonly limiter: RateLimiter;
 
   /**
    * Create a new JiraClient
    * @param config - The configuration for the client
    */
-  constructor(config: JiraClientConfig) {
-    this.issues = new IssuesApiClient(config);
-    this.projects = new ProjectsApiClient(config);
-    this.users = new UsersApiClient(config);
+  constructor(config: JiraClientConfig<TCustomFields>) {
+    this.transport = new JiraTransport(config);
+    this.limiter = this.transport.limiter;
+    this.issues = new IssuesApiClient<TCustomFields>(this.transport);
+    this.fields = new FieldsApiClient(this.transport);
+    this.issueLinks = new IssueLinksApiClient(this.transport);
+    this.attachments = new AttachmentsApiClient(this.transport);
+    this.worklogs = new WorklogsApiClient(this.transport);
+    this.agile = new AgileApiClient(this.transport);
+    this.projects = new ProjectsApiClient(this.transport);
+    this.versions = new VersionsApiClient(this.transport);
+    this.components = new ComponentsApiClient(this.transport);
+    this.users = new UsersApiClient(this.transport);
+    this.tasks = new TasksApiClient(this.transport);
+  }
+
+  /**
+   * Add a request/response middleware to every API client
+   * @param middleware - The middleware to add; middleware added first runs outermost
+   * @returns The client, for chaining
+   */
+  use(middleware: JiraMiddleware): this {
+    this.transport.use(middleware);
+    return this;
+  }
+
+  /**
+   * Generate release notes for a version from the issues with it as fix version
+   * @param projectKey - The project key
+   * @param versionName - The version name
+   * @param options - The format, grouping, templates and filters
+   * @returns The release notes
+   * @throws Error if the project has no version with that name
+   */
+  generateReleaseNotes(projectKey: string, versionName: string, options?: ReleaseNotesOptions): Promise<ReleaseNotes> {
+    return generateReleaseNotes(this, projectKey, versionName, options);
   }
 
   /**
@@ -38,9 +101,26 @@ export class JiraClient {
 
 // Export types
 export * from './types';
+export * from './api/base';
+export * from './api/transport';
 export * from './utils/error';
+export * from './utils/fields';
+export * from './utils/history';
+export * from './utils/markdown';
 export * from './utils/pagination';
+export * from './utils/adf';
+export * from './utils/auth';
+export * from './utils/bulk';
+export * from './utils/codegen';
 export * from './utils/config';
+export * from './utils/duration';
+export * from './utils/jql';
+export * from './utils/jql-parser';
+export * from './utils/rate-limiter';
+export * from './utils/release-notes';
+export * from './utils/retry';
+export * from './utils/validation';
+export * from './utils/wiki';
 
 // Export utility functions
 export { fetchAllPages };
@@ -0,0 +1,211 @@
+/**
+ * Atlassian Document Format (ADF) text mark
+ */
+export type AdfMark =
+  | { type: 'strong' }
+  | { type: 'em' }
+  | { type: 'code' }
+  | { type: 'strike' }
+  | { type: 'underline' }
+  | { type: 'link'; attrs: { href: string; title?: string } };
+
+/**
+ * ADF text node
+ */
+export interface AdfText {
+  type: 'text';
+  /** The text content */
+  text: string;
+  /** The formatting applied to the text */
+  marks?: AdfMark[];
+}
+
+/**
+ * ADF hard line break
+ */
+export interface AdfHardBreak {
+  type: 'hardBreak';
+}
+
+/**
+ * ADF user mention
+ */
+export interface AdfMention {
+  type: 'mention';
+  attrs: {
+    /** The account ID of the mentioned user */
+    id: string;
+    /** The display text, e.g. "@Jane Doe" */
+    text?: string;
+  };
+}
+
+/**
+ * ADF emoji
+ */
+export interface AdfEmoji {
+  type: 'emoji';
+  attrs: {
+    /** The emoji short name, e.g. ":smile:" */
+    shortName: string;
+    /** The emoji text, e.g. "😄" */
+    text?: string;
+  };
+}
+
+/**
+ * ADF inline smart link
+ */
+export interface AdfInlineCard {
+  type: 'inlineCard';
+  attrs: {
+    /** The linked URL */
+    url: string;
+  };
+}
+
+/**
+ * ADF inline node
+ */
+export type AdfInlineNode = AdfText | AdfHardBreak | AdfMention | AdfEmoji | AdfInlineCard;
+
+/**
+ * ADF paragraph
+ */
+export interface AdfParagraph {
+  type: 'paragraph';
+  content?: AdfInlineNode[];
+}
+
+/**
+ * ADF heading
+ */
+export interface AdfHeading {
+  type: 'heading';
+  attrs: {
+    /** The heading level (1-6) */
+    level: 1 | 2 | 3 | 4 | 5 | 6;
+  };
+  content?: AdfInlineNode[];
+}
+
+/**
+ * ADF list item
+ */
+export interface AdfListItem {
+  type: 'listItem';
+  content: AdfBlockNode[];
+}
+
+/**
+ * ADF bulleted list
+ */
+export interface AdfBulletList {
+  type: 'bulletList';
+  content: AdfListItem[];
+}
+
+/**
+ * ADF numbered list
+ */
+export interface AdfOrderedList {
+  type: 'orderedList';
+  attrs?: {
+    /** The number of the first item (default: 1) */
+    order?: number;
+  };
+  content: AdfListItem[];
+}
+
+/**
+ * ADF code block
+ */
+export interface AdfCodeBlock {
+  type: 'codeBlock';
+  attrs?: {
+    /** The language used for syntax highlighting */
+    language?: string;
+  };
+  content?: AdfText[];
+}
+
+/**
+ * ADF block quote
+ */
+export interface AdfBlockquote {
+  type: 'blockquote';
+  content: AdfBlockNode[];
+}
+
+/**
+ * ADF horizontal rule
+ */
+export interface AdfRule {
+  type: 'rule';
+}
+
+/**
+ * ADF panel
+ */
+export interface AdfPanel {
+  type: 'panel';
+  attrs: {
+    /** The panel type */
+    panelType: 'info' | 'note' | 'warning' | 'success' | 'error';
+  };
+  content: AdfBlockNode[];
+}
+
+/**
+ * ADF table cell
+ */
+export interface AdfTableCell {
+  type: 'tableCell' | 'tableHeader';
+  attrs?: Record<string, unknown>;
+  content: AdfBlockNode[];
+}
+
+/**
+ * ADF table row
+ */
+export interface AdfTableRow {
+  type: 'tableRow';
+  content: AdfTableCell[];
+}
+
+/**
+ * ADF table
+ */
+export interface AdfTable {
+  type: 'table';
+  attrs?: Record<string, unknown>;
+  content: AdfTableRow[];
+}
+
+/**
+ * ADF block node
+ */
+export type AdfBlockNode =
+  | AdfParagraph
+  | AdfHeading
+  | AdfBulletList
+  | AdfOrderedList
+  | AdfCodeBlock
+  | AdfBlockquote
+  | AdfRule
+  | AdfPanel
+  | AdfTable;
+
+/**
+ * Any ADF node
+ */
+export type AdfNode = AdfBlockNode | AdfInlineNode | AdfListItem | AdfTableRow | AdfTableCell;
+
+/**
+ * ADF document, used for rich text fields and comments in Jira REST API v3
+ */
+export interface AdfDocument {
+  version: 1;
+  type: 'doc';
+  content: AdfBlockNode[];
+}
@@ -1,19 +1,284 @@
+import type { AxiosRequestConfig } from 'axios';
+import type { JiraError } from '../utils/error';
+import type { JqlQuery } from '../utils/jql';
+import type { AdfDocument } from './adf';
+
+export * from './adf';
+export * from './jql';
+
 /**
  * Configuration options for the Jira API client
  */
-export interface JiraClientConfig {
-  /** Base URL of the Jira instance (e.g., https://your-domain.atlassian.net) */
-  baseUrl: string;
-  /** Jira username */
+export interface JiraClientConfig<TCustomFields extends CustomFieldMap = CustomFieldMap> {
+  /** Base URL of the Jira instance (e.g., https://your-domain.atlassian.net); not needed when cloudId is set */
+  baseUrl?: string;
+  /** Cloud ID of the Jira site; requests go to https://api.atlassian.com/ex/jira/{cloudId} (used with OAuth 2.0) */
+  cloudId?: string;
+  /** Jira username (legacy; prefer auth) */
   email?: string;
-  /** Bearer token for authentication */
-  token: string;
+  /** Bearer token for authentication (legacy; prefer auth) */
+  token?: string;
+  /** Authentication mode; takes precedence over email and token */
+  auth?: JiraAuthConfig;
+  /** Provider of per-request credentials, e.g. an OAuth2AuthProvider; takes precedence over auth */
+  authProvider?: AuthProvider;
   /** API version to use (default: 3) */
   apiVersion?: number;
   /** Request timeout in milliseconds (default: 30000) */
   timeout?: number;
+  /** Retry behaviour for failed requests (default: no retries) */
+  retry?: RetryOptions;
+  /** Client-side rate limiting shared by all API clients (default: unlimited) */
+  rateLimit?: RateLimitOptions;
+  /** Custom fields to read and write by friendly name instead of by ID, declared with `customField` */
+  customFields?: TCustomFields;
+}
+
+/**
+ * Basic authentication with an email and API token (Jira Cloud) or a username and password (Jira Data Center)
+ */
+export interface BasicAuthConfig {
+  type: 'basic';
+  /** The email address (Jira Cloud) or username (Jira Data Center) */
+  email: string;
+  /** The API token (Jira Cloud) or password (Jira Data Center) */
+  token: string;
+}
+
+/**
+ * Bearer token authentication, e.g. with a Jira Data Center personal access token
+ */
+export interface BearerAuthConfig {
+  type: 'bearer' | 'pat';
+  /** The bearer token or personal access token */
+  token: string;
+}
+
+/**
+ * Cookie-based session authentication through /rest/auth/1/session (Jira Data Center)
+ */
+export interface SessionAuthConfig {
+  type: 'session';
+  /** The username */
+  username: string;
+  /** The password */
+  password: string;
+}
+
+/**
+ * Authentication with a custom header, e.g. for a proxy in front of Jira
+ */
+export interface HeaderAuthConfig {
+  type: 'header';
+  /** The header name */
+  name: string;
+  /** The header value */
+  value: string;
+}
+
+/**
+ * Authentication modes supported by the client
+ */
+export type JiraAuthConfig = BasicAuthConfig | BearerAuthConfig | SessionAuthConfig | HeaderAuthConfig;
+
+/**
+ * Source of credentials that can change over time, such as expiring OAuth 2.0 tokens
+ */
+export interface AuthProvider {
+  /**
+   * Get the headers that authenticate a request
+   * @returns The authentication headers
+   */
+  getHeaders(): Promise<Record<string, string>>;
+  /**
+   * Renew the credentials after the server rejected them with a 401
+   * @returns Whether new credentials are available and the request should be replayed
+   */
+  refresh?(): Promise<boolean>;
+}
+
+/**
+ * OAuth 2.0 tokens
+ */
+export interface OAuth2Tokens {
+  /** The access token */
+  accessToken: string;
+  /** The refresh token (rotated by Atlassian on every refresh) */
+  refreshToken?: string;
+  /** When the access token expires, in milliseconds since the epoch */
+  expiresAt?: number;
+  /** The granted scopes */
+  scope?: string;
+}
+
+/**
+ * Options for OAuth 2.0 (3LO) authentication
+ */
+export interface OAuth2Options extends OAuth2Tokens {
+  /** The OAuth 2.0 client ID of the app */
+  clientId: string;
+  /** The OAuth 2.0 client secret of the app */
+  clientSecret: string;
+  /** The token endpoint (default: https://auth.atlassian.com/oauth/token) */
+  tokenUrl?: string;
+  /** How long before expiry the access token is refreshed, in milliseconds (default: 60000) */
+  refreshMargin?: number;
+  /** Called with the new tokens after every refresh, e.g. to persist them */
+  onTokenRefresh?: (tokens: OAuth2Tokens) => void | Promise<void>;
+}
+
+/**
+ * Jira site the OAuth 2.0 app has been granted access to
+ */
+export interface OAuth2AccessibleResource {
+  /** The cloud ID of the site */
+  id: string;
+  /** The site URL */
+  url: string;
+  /** The site name */
+  name: string;
+  /** The scopes granted for the site */
+  scopes: string[];
+  /** The site avatar URL */
+  avatarUrl?: string;
+}
+
+/**
+ * Client-side rate limiting options
+ */
+export interface RateLimitOptions {
+  /** Maximum number of requests started per interval (default: unlimited) */
+  requestsPerInterval?: number;
+  /** Length of the interval in milliseconds (default: 1000) */
+  interval?: number;
+  /** Maximum number of requests that can be started at once after an idle period (default: requestsPerInterval) */
+  burst?: number;
+  /** Maximum number of requests in flight at the same time (default: unlimited) */
+  maxConcurrent?: number;
+}
+
+/**
+ * Snapshot of the state of a rate limiter
+ */
+export interface RateLimiterMetrics {
+  /** The number of requests waiting to be started */
+  queued: number;
+  /** The number of requests currently in flight */
+  inFlight: number;
+  /** The number of tokens currently available */
+  availableTokens: number;
+  /** The largest number of requests that have been waiting at once */
+  maxQueued: number;
+  /** The total number of requests started */
+  started: number;
+}
+
+/**
+ * Retry options for failed Jira API requests
+ */
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt (default: 0) */
+  maxRetries?: number;
+  /** Base delay in milliseconds for exponential backoff (default: 1000) */
+  baseDelay?: number;
+  /** Maximum delay in milliseconds before a retry; longer server-requested waits are not retried (default: 60000) */
+  maxDelay?: number;
+  /** Whether to randomise the backoff delay (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry (default: 429, 500, 502, 503, 504) */
+  retryOn?: number[];
+  /** Network error codes of requests without a response that trigger a retry (default: ECONNABORTED, ETIMEDOUT, ECONNRESET) */
+  retryOnCodes?: string[];
+  /** Whether to retry non-idempotent methods such as POST (default: false) */
+  retryNonIdempotent?: boolean;
+  /** Called before each retry is scheduled */
+  onRetry?: (context: RetryContext) => void;
+}
+
+/**
+ * Retry options with defaults applied
+ */
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'onRetry'>> & Pick<RetryOptions, 'onRetry'>;
+
+/**
+ * Details about a retry passed to the onRetry hook
+ */
+export interface RetryContext {
+  /** The HTTP method of the request */
+  method: string;
+  /** The URL of the request */
+  url: string;
+  /** The number of the retry about to be made (starting at 1) */
+  attempt: number;
+  /** The delay in milliseconds before the retry */
+  delay: number;
+  /** The error that caused the retry */
+  error: JiraError;
+}
+
+/**
+ * HTTP methods used by the Jira API clients
+ */
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+/**
+ * Outgoing request passed through the middleware pipeline
+ */
+export interface JiraRequest {
+  /** The HTTP method */
+  method: HttpMethod;
+  /** The URL, relative to the REST API base URL (`config.baseURL` for APIs other than `/rest/api/{apiVersion}`) */
+  url: string;
+  /** The request body */
+  data?: unknown;
+  /** Additional Axios request configuration (headers, params, ...) */
+  config?: AxiosRequestConfig;
+}
+
+/**
+ * Response passed back through the middleware pipeline
+ */
+export interface JiraResponse<T = unknown> {
+  /** The HTTP status code */
+  status: number;
+  /** The response headers (lower-cased names) */
+  headers: Record<string, string>;
+  /** The response body */
+  data: T;
 }
 
+/**
+ * Function that passes a request on to the next middleware, or sends it
+ */
+export type JiraMiddlewareNext = (request: JiraRequest) => Promise<JiraResponse>;
+
+/**
+ * Request/response middleware
+ *
+ * A middleware can rewrite the request before calling `next`, inspect or replace the
+ * response it returns, and catch the `JiraError` it throws. Middleware runs for every
+ * attempt, so retried requests pass through it again.
+ */
+export type JiraMiddleware = (request: JiraRequest, next: JiraMiddlewareNext) => Promise<JiraResponse>;
+
+/**
+ * Configuration for the Jira API client with defaults applied
+ */
+export type ResolvedJiraClientConfig = Required<
+  Omit<JiraClientConfig, 'auth' | 'authProvider' | 'retry' | 'rateLimit' | 'customFields'>
+> & {
+  /** The authentication mode, unless an auth provider is used */
+  auth?: JiraAuthConfig;
+  /** The provider of per-request credentials, if any */
+  authProvider?: AuthProvider;
+  /** The retry options */
+  retry: ResolvedRetryOptions;
+  /** The rate limiting options */
+  rateLimit: Required<RateLimitOptions>;
+  /** The custom fields read and written by friendly name */
+  customFields: CustomFieldMap;
+};
+
 /**
  * Pagination parameters for Jira API requests
  */
@@ -25,25 +290,86 @@ export interface PaginationParams {
 }
 
 /**
- * Response structure for paginated Jira API responses
+ * Pagination parameters for resources paged with a cursor
+ */
+export interface CursorPaginationParams extends PaginationParams {
+  /** The token of the page to fetch, from the previous response (default: the first page) */
+  nextPageToken?: string;
+}
+
+/**
+ * Pagination parameters for fetching one page, including the cursor for cursor-paginated resources
+ */
+export interface PageParams extends Required<PaginationParams> {
+  /** The token of the page to fetch, from the previous response */
+  nextPageToken?: string;
+}
+
+/**
+ * How the last page of a paginated resource is detected
+ * - `total`: the response reports the total number of results
+ * - `shortPage`: the response has no total, so a page with fewer results than requested is the last
+ * - `isLast`: the response has an `isLast` flag
+ * - `cursor`: the response has a `nextPageToken` for the next page, absent on the last page
+ */
+export type PaginationStrategy = 'total' | 'shortPage' | 'isLast' | 'cursor';
+
+/**
+ * The pagination strategy of an endpoint and the paging details from its response
+ */
+export type PageInfo =
+  | { strategy: 'total'; total: number }
+  | { strategy: 'shortPage'; total?: undefined }
+  | { strategy: 'isLast'; isLast: boolean; total?: number }
+  | { strategy: 'cursor'; nextPageToken?: string; total?: number };
+
+/**
+ * Options for a single request
+ */
+export interface RequestOptions {
+  /** Signal that cancels the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for iterating over a paginated resource
+ */
+export interface IterateOptions extends CursorPaginationParams, RequestOptions {
+  /** Whether to request the next page once the last result of the current one is consumed (default: true) */
+  prefetch?: boolean;
+}
+
+/**
+ * Response structure for paginated Jira API responses whose endpoint may not report the total,
+ * such as endpoints paginated by cursor or without a total
  */
-export interface PaginatedResponse<T> {
+export interface UncountedPaginatedResponse<T> {
   /** The list of results */
   values: T[];
   /** The maximum number of results per page */
   maxResults: number;
   /** The index of the first result */
   startAt: number;
+  /** The total number of results, if the endpoint reports it */
+  total?: number;
+  /** The token of the next page, for cursor-paginated endpoints */
+  nextPageToken?: string;
+  /** Whether this is the last page */
+  isLast: boolean;
+}
+
+/**
+ * Response structure for paginated Jira API responses
+ */
+export interface PaginatedResponse<T> extends UncountedPaginatedResponse<T> {
   /** The total number of results */
   total: number;
-  /** Whether there are more results */
-  isLast: boolean;
 }
 
 /**
  * Basic Jira issue fields
  */
-export interface JiraIssue {
+export interface JiraIssue<TFields extends object = object> {
   /** The issue ID */
   id: string;
   /** The issue key (e.g., PROJECT-123) */
@@ -54,8 +380,8 @@ export interface JiraIssue {
   fields: {
     /** The issue summary */
     summary: string;
-    /** The issue description */
-    description?: string;
+    /** The issue description (ADF in API v3, wiki markup in API v2) */
+    description?: string | AdfDocument;
     /** The issue type */
     issuetype: {
       id: string;
@@ -99,15 +425,37 @@ export interface JiraIssue {
     created: string;
     /** The issue update date */
     updated: string;
+    /** The links to other issues */
+    issuelinks?: JiraIssueLink[];
+    /** The attachments */
+    attachment?: JiraAttachment[];
+    /** The first worklogs; use `WorklogsApiClient.getWorklogs` for the rest */
+    worklog?: {
+      startAt: number;
+      maxResults: number;
+      total: number;
+      worklogs: JiraWorklog[];
+    };
     /** Additional fields */
     [key: string]: unknown;
+  } & TFields;
+  /** The changelog, when `changelog` is expanded; it may be truncated, `IssuesApiClient.getChangelog` has every entry */
+  changelog?: {
+    startAt: number;
+    maxResults: number;
+    total: number;
+    histories: JiraChangelogEntry[];
   };
+  /** The rendered (HTML) field values, when `renderedFields` is expanded */
+  renderedFields?: Record<string, unknown>;
+  /** The issue properties requested by key */
+  properties?: Record<string, unknown>;
 }
 
 /**
  * Data for creating a new Jira issue
  */
-export interface CreateIssueData {
+export interface CreateIssueData<TFields extends object = object> {
   /** The fields to set on the new issue */
   fields: {
     /** The project key or ID */
@@ -117,8 +465,8 @@ export interface CreateIssueData {
     };
     /** The issue summary */
     summary: string;
-    /** The issue description */
-    description?: string;
+    /** The issue description; Markdown strings are converted to ADF in API v3 and wiki markup in API v2 */
+    description?: string | AdfDocument;
     /** The issue type ID or name */
     issuetype: {
       id?: string;
@@ -135,19 +483,19 @@ export interface CreateIssueData {
     };
     /** Additional fields */
     [key: string]: unknown;
-  };
+  } & TFields;
 }
 
 /**
  * Data for updating an existing Jira issue
  */
-export interface UpdateIssueData {
+export interface UpdateIssueData<TFields extends object = object> {
   /** The fields to update on the issue */
   fields?: {
     /** The issue summary */
     summary?: string;
-    /** The issue description */
-    description?: string;
+    /** The issue description; Markdown strings are converted to ADF in API v3 and wiki markup in API v2 */
+    description?: string | AdfDocument;
     /** The issue assignee account ID */
     assignee?: {
       accountId: string;
@@ -159,7 +507,7 @@ export interface UpdateIssueData {
     };
     /** Additional fields */
     [key: string]: unknown;
-  };
+  } & TFields;
   /** The issue transition ID or name */
   transition?: {
     id?: string;
@@ -167,6 +515,196 @@ export interface UpdateIssueData {
   };
 }
 
+/**
+ * Options for creating an issue
+ */
+export interface CreateIssueOptions {
+  /** Whether to check the fields against the create metadata before sending them (default: false) */
+  validate?: boolean;
+}
+
+/**
+ * Result of checking issue fields against the create metadata of their project and issue type
+ */
+export interface IssueValidationResult {
+  /** Whether no problems were found */
+  valid: boolean;
+  /** The problems with individual fields, keyed by field ID */
+  errors: Record<string, string>;
+  /** The problems not tied to a field, e.g. an unknown issue type */
+  errorMessages: string[];
+}
+
+/**
+ * Options for bulk operations that send one request per item
+ */
+export interface BulkOptions {
+  /** The maximum number of requests in flight (default: 5) */
+  concurrency?: number;
+}
+
+/**
+ * Update of one issue in a bulk update
+ */
+export interface IssueUpdate<TFields extends object = object> {
+  /** The issue ID or key */
+  issueIdOrKey: string;
+  /** The update data */
+  data: UpdateIssueData<TFields>;
+}
+
+/**
+ * Outcome of one item of a bulk operation
+ */
+export type BulkItemResult<TItem, TValue> =
+  | {
+    /** The position of the item in the input */
+    index: number;
+    /** The item */
+    item: TItem;
+    status: 'fulfilled';
+    /** The result of the item */
+    value: TValue;
+  }
+  | {
+    /** The position of the item in the input */
+    index: number;
+    /** The item */
+    item: TItem;
+    status: 'rejected';
+    /** Why the item failed */
+    error: JiraError;
+  };
+
+/**
+ * Report of a bulk operation
+ */
+export interface BulkOperationResult<TItem, TValue> {
+  /** The outcome of every item, in input order */
+  results: BulkItemResult<TItem, TValue>[];
+  /** The items that succeeded */
+  succeeded: Extract<BulkItemResult<TItem, TValue>, { status: 'fulfilled' }>[];
+  /** The items that failed */
+  failed: Extract<BulkItemResult<TItem, TValue>, { status: 'rejected' }>[];
+}
+
+/**
+ * Custom field declared for the `customFields` option; the type parameter is the type of its value
+ */
+export interface CustomFieldDefinition<T = unknown> {
+  /** The custom field ID, e.g. "customfield_10016" */
+  id: string;
+  /** Marker carrying the value type; never set at runtime */
+  readonly valueType?: T;
+}
+
+/**
+ * Custom fields by friendly name
+ */
+export type CustomFieldMap = Record<string, CustomFieldDefinition>;
+
+/**
+ * Issue field values for a custom field map, keyed by friendly name
+ */
+export type CustomFieldValues<TCustomFields extends CustomFieldMap> = {
+  [K in keyof TCustomFields]?: TCustomFields[K] extends CustomFieldDefinition<infer T> ? T | null : never;
+};
+
+/**
+ * Jira field metadata
+ */
+export interface JiraField {
+  /** The field ID, e.g. "summary" or "customfield_10016" */
+  id: string;
+  /** The field key */
+  key?: string;
+  /** The field name */
+  name: string;
+  /** Whether the field is a custom field */
+  custom: boolean;
+  /** Whether the field can be used in ORDER BY */
+  orderable?: boolean;
+  /** Whether the field can be shown in the issue navigator */
+  navigable?: boolean;
+  /** Whether the field can be searched */
+  searchable?: boolean;
+  /** The names of the field in JQL */
+  clauseNames?: string[];
+  /** The field data type */
+  schema?: JiraFieldSchema;
+}
+
+/**
+ * Data type of a Jira field
+ */
+export interface JiraFieldSchema {
+  /** The data type, e.g. "number", "array", "user" */
+  type: string;
+  /** The type of the items of an array field */
+  items?: string;
+  /** The system field type */
+  system?: string;
+  /** The custom field type */
+  custom?: string;
+  /** The custom field ID */
+  customId?: number;
+}
+
+/**
+ * Field that can be set when creating an issue of a given project and issue type
+ */
+export interface JiraCreateMetaField {
+  /** The field ID, e.g. "summary" or "customfield_10016" */
+  fieldId: string;
+  /** The field key */
+  key?: string;
+  /** The field name */
+  name: string;
+  /** Whether the field must be set */
+  required: boolean;
+  /** The field data type */
+  schema?: JiraFieldSchema;
+  /** Whether the field has a default value */
+  hasDefaultValue?: boolean;
+  /** The default value */
+  defaultValue?: unknown;
+  /** The values the field accepts, for fields with a fixed set of values */
+  allowedValues?: unknown[];
+  /** The operations the field supports when editing, e.g. "set", "add" */
+  operations?: string[];
+  /** The URL suggesting values for the field */
+  autoCompleteUrl?: string;
+}
+
+/**
+ * Field metadata of a Jira site, as saved by the code generator
+ */
+export interface JiraFieldMetadata {
+  /** All system and custom fields */
+  fields: JiraField[];
+  /** The create metadata of each project */
+  projects: Array<{
+    /** The project key */
+    key: string;
+    /** The issue types of the project with the fields that can be set when creating them */
+    issueTypes: Array<JiraIssueType & { fields: JiraCreateMetaField[] }>;
+  }>;
+}
+
+/**
+ * Options for an enhanced JQL search
+ */
+export interface JqlSearchOptions {
+  /** The fields to include in the response (default: summary, status, assignee, priority, issue type and dates) */
+  fields?: string[];
+  /** The entities to expand, e.g. `renderedFields`, `names`, `changelog` */
+  expand?: string[];
+  /** The keys of the issue properties to include in the response */
+  properties?: string[];
+  /** Whether `fields` lists field keys instead of field IDs */
+  fieldsByKeys?: boolean;
+}
+
 /**
  * Basic Jira project fields
  */
@@ -205,6 +743,345 @@ export interface JiraProject {
   isPrivate: boolean;
 }
 
+/**
+ * Data for creating a project
+ */
+export interface CreateProjectData {
+  /** The project key: upper case letters and digits, starting with a letter */
+  key: string;
+  /** The project name */
+  name: string;
+  /** The project type */
+  projectTypeKey: 'software' | 'business' | 'service_desk';
+  /** The template the project is created from, e.g. `com.pyxis.greenhopper.jira:gh-simplified-kanban-classic` */
+  projectTemplateKey?: string;
+  /** The account ID of the project lead */
+  leadAccountId: string;
+  /** The project description */
+  description?: string;
+  /** A URL with information about the project */
+  url?: string;
+  /** Who new issues are assigned to by default */
+  assigneeType?: 'PROJECT_LEAD' | 'UNASSIGNED';
+  /** The ID of the project category */
+  categoryId?: number;
+  /** The ID of the project avatar */
+  avatarId?: number;
+  /** The ID of the permission scheme */
+  permissionScheme?: number;
+  /** The ID of the notification scheme */
+  notificationScheme?: number;
+  /** The ID of the issue security scheme */
+  issueSecurityScheme?: number;
+}
+
+/**
+ * Data for updating a project; only the given fields change
+ */
+export type UpdateProjectData = Partial<Omit<CreateProjectData, 'projectTypeKey' | 'projectTemplateKey'>>;
+
+/**
+ * Identifiers of a created project
+ */
+export interface JiraProjectIdentifiers {
+  /** The project ID */
+  id: number;
+  /** The project key */
+  key: string;
+  /** The project self URL */
+  self: string;
+}
+
+/**
+ * Status of a long-running task
+ */
+export type JiraTaskStatus =
+  | 'ENQUEUED'
+  | 'RUNNING'
+  | 'COMPLETE'
+  | 'FAILED'
+  | 'CANCEL_REQUESTED'
+  | 'CANCELLED'
+  | 'DEAD';
+
+/**
+ * Long-running task, such as an asynchronous project deletion
+ */
+export interface JiraTask {
+  /** The task ID */
+  id: string;
+  /** The task self URL */
+  self: string;
+  /** The task description */
+  description?: string;
+  /** The task status */
+  status: JiraTaskStatus;
+  /** The latest progress or error message */
+  message?: string;
+  /** The result of the task, once complete */
+  result?: unknown;
+  /** The ID of the user who submitted the task */
+  submittedBy: number;
+  /** The progress, in percent */
+  progress: number;
+  /** The run time so far, in milliseconds */
+  elapsedRuntime: number;
+  /** When the task was submitted, in milliseconds since the epoch */
+  submitted: number;
+  /** When the task started, in milliseconds since the epoch */
+  started?: number;
+  /** When the task finished, in milliseconds since the epoch */
+  finished?: number;
+  /** When the task was last updated, in milliseconds since the epoch */
+  lastUpdate: number;
+}
+
+/**
+ * Options for waiting for a long-running task
+ */
+export interface WaitForTaskOptions extends RequestOptions {
+  /** The time between polls, in milliseconds (default: 1000) */
+  interval?: number;
+  /** The time to wait before giving up, in milliseconds (default: no limit) */
+  timeout?: number;
+  /** Called with the task after every poll */
+  onProgress?: (task: JiraTask) => void;
+}
+
+/**
+ * Jira project version, used in the fix and affects version fields
+ */
+export interface JiraVersion {
+  /** The version ID */
+  id: string;
+  /** The version self URL */
+  self: string;
+  /** The version name */
+  name: string;
+  /** The version description */
+  description?: string;
+  /** The ID of the project */
+  projectId: number;
+  /** Whether the version is archived */
+  archived: boolean;
+  /** Whether the version is released */
+  released: boolean;
+  /** Whether the release date has passed without the version being released */
+  overdue?: boolean;
+  /** The start date, as YYYY-MM-DD */
+  startDate?: string;
+  /** The release date, as YYYY-MM-DD */
+  releaseDate?: string;
+  /** The start date, formatted for the user */
+  userStartDate?: string;
+  /** The release date, formatted for the user */
+  userReleaseDate?: string;
+}
+
+/**
+ * Data for creating a version
+ */
+export interface CreateVersionData {
+  /** The version name */
+  name: string;
+  /** The ID of the project */
+  projectId: number;
+  /** The version description */
+  description?: string;
+  /** The start date, as a Date or YYYY-MM-DD */
+  startDate?: string | Date;
+  /** The release date, as a Date or YYYY-MM-DD */
+  releaseDate?: string | Date;
+  /** Whether the version is released */
+  released?: boolean;
+  /** Whether the version is archived */
+  archived?: boolean;
+}
+
+/**
+ * Data for updating a version; only the given fields change
+ */
+export type UpdateVersionData = Partial<Omit<CreateVersionData, 'projectId'>>;
+
+/**
+ * Parameters for listing the versions of a project
+ */
+export interface VersionQueryParams extends PaginationParams {
+  /** Only return versions whose name or description contains this text */
+  query?: string;
+  /** Only return versions with these statuses */
+  status?: Array<'released' | 'unreleased' | 'archived'>;
+  /** The field to order by, e.g. `sequence`, `name` or `-releaseDate` for descending */
+  orderBy?: string;
+}
+
+/**
+ * Where to move a version in the version order: first, last, one step, or after another version (by ID)
+ */
+export type VersionPosition = 'First' | 'Last' | 'Earlier' | 'Later' | { after: string };
+
+/**
+ * Versions to move the issues of a deleted version to; issues are left without the version if not given
+ */
+export interface DeleteVersionOptions {
+  /** The ID of the version to set as fix version instead */
+  moveFixIssuesTo?: string;
+  /** The ID of the version to set as affects version instead */
+  moveAffectedIssuesTo?: string;
+}
+
+/**
+ * Numbers of issues that use a version
+ */
+export interface JiraVersionIssueCounts {
+  /** The number of issues with the version as fix version */
+  issuesFixedCount: number;
+  /** The number of issues with the version as affects version */
+  issuesAffectedCount: number;
+  /** The number of issues with the version in a custom field */
+  issueCountWithCustomFieldsShowingVersion: number;
+}
+
+/**
+ * Numbers of issues with a version as fix version
+ */
+export interface JiraVersionUnresolvedIssueCount {
+  /** The number of unresolved issues */
+  issuesUnresolvedCount: number;
+  /** The number of issues */
+  issuesCount: number;
+}
+
+/**
+ * Who new issues of a component are assigned to
+ */
+export type ComponentAssigneeType = 'PROJECT_DEFAULT' | 'COMPONENT_LEAD' | 'PROJECT_LEAD' | 'UNASSIGNED';
+
+/**
+ * Jira project component
+ */
+export interface JiraComponent {
+  /** The component ID */
+  id: string;
+  /** The component self URL */
+  self: string;
+  /** The component name */
+  name: string;
+  /** The component description */
+  description?: string;
+  /** The component lead */
+  lead?: {
+    accountId: string;
+    displayName: string;
+    self: string;
+  };
+  /** Who new issues of the component are assigned to */
+  assigneeType?: ComponentAssigneeType;
+  /** The user new issues are assigned to */
+  assignee?: {
+    accountId: string;
+    displayName: string;
+    self: string;
+  };
+  /** The key of the project */
+  project: string;
+  /** The ID of the project */
+  projectId: number;
+}
+
+/**
+ * Data for creating a component
+ */
+export interface CreateComponentData {
+  /** The component name */
+  name: string;
+  /** The key of the project */
+  project: string;
+  /** The component description */
+  description?: string;
+  /** The account ID of the component lead */
+  leadAccountId?: string;
+  /** Who new issues of the component are assigned to */
+  assigneeType?: ComponentAssigneeType;
+}
+
+/**
+ * Data for updating a component; only the given fields change
+ */
+export type UpdateComponentData = Partial<Omit<CreateComponentData, 'project'>>;
+
+/**
+ * Output format of release notes
+ */
+export type ReleaseNotesFormat = 'markdown' | 'html' | 'json';
+
+/**
+ * How the issues of release notes are grouped
+ */
+export type ReleaseNotesGroupBy = 'issueType' | 'component' | 'none';
+
+/**
+ * Templates of the parts of Markdown and HTML release notes, with `{placeholder}`s replaced by values
+ */
+export interface ReleaseNotesTemplates {
+  /** The title; placeholders: `{project}`, `{version}`, `{releaseDate}`, `{description}`, `{issueCount}` */
+  title?: string;
+  /** The heading of each group; placeholders: `{group}`, `{issueCount}` */
+  group?: string;
+  /**
+   * The line of each issue; placeholders: `{key}`, `{summary}`, `{url}`, `{type}`, `{status}`, `{priority}`,
+   * `{assignee}`, `{components}`
+   */
+  issue?: string;
+}
+
+/**
+ * Options for generating release notes
+ */
+export interface ReleaseNotesOptions {
+  /** The output format (default: markdown) */
+  format?: ReleaseNotesFormat;
+  /** How the issues are grouped (default: issueType); an issue with several components is listed under each */
+  groupBy?: ReleaseNotesGroupBy;
+  /** The templates overriding the defaults of the format */
+  templates?: ReleaseNotesTemplates;
+  /**
+   * JQL further filtering the issues, e.g. `statusCategory = Done`; the issues are ordered by key, so a string
+   * must not have an ORDER BY clause and the ORDER BY of a builder is ignored
+   */
+  jql?: JqlQuery;
+  /** The groups to list first, in this order; the others follow alphabetically */
+  groupOrder?: string[];
+  /** The title of the group of issues without a component, or of every issue when not grouping (default: Other) */
+  ungroupedTitle?: string;
+  /** The site URL issue links point to (default: taken from the issue self URLs) */
+  browseUrl?: string;
+}
+
+/**
+ * Issues of release notes under one heading
+ */
+export interface ReleaseNotesGroup {
+  /** The group title, e.g. an issue type or component name */
+  title: string;
+  /** The issues, ordered by key */
+  issues: JiraIssue[];
+}
+
+/**
+ * Generated release notes
+ */
+export interface ReleaseNotes {
+  /** The version the notes are for */
+  version: JiraVersion;
+  /** The grouped issues */
+  groups: ReleaseNotesGroup[];
+  /** The number of issues */
+  issueCount: number;
+  /** The rendered notes */
+  content: string;
+}
+
 /**
  * Error response from the Jira API
  */
@@ -225,8 +1102,8 @@ export interface JiraComment {
   id: string;
   /** The comment self URL */
   self: string;
-  /** The comment body */
-  body: string;
+  /** The comment body (ADF in API v3, wiki markup in API v2) */
+  body: string | AdfDocument;
   /** The comment author */
   author: {
     accountId: string;
@@ -239,6 +1116,595 @@ export interface JiraComment {
   updated: string;
 }
 
+/**
+ * Change of one field in a changelog entry
+ */
+export interface JiraChangelogItem {
+  /** The field name, e.g. "status" or "Story Points" */
+  field: string;
+  /** The field type: `jira` for system fields, `custom` for custom fields */
+  fieldtype: string;
+  /** The field ID, e.g. "status" or "customfield_10016" */
+  fieldId?: string;
+  /** The value before the change, e.g. a status ID; null if the field was empty */
+  from: string | null;
+  /** The display value before the change, e.g. a status name */
+  fromString: string | null;
+  /** The value after the change; null if the field was cleared */
+  to: string | null;
+  /** The display value after the change */
+  toString: string | null;
+}
+
+/**
+ * Changes made to an issue by one user at one time
+ */
+export interface JiraChangelogEntry {
+  /** The changelog entry ID */
+  id: string;
+  /** The user who made the changes; absent for anonymous and automated changes */
+  author?: {
+    accountId: string;
+    displayName: string;
+    self: string;
+  };
+  /** When the changes were made */
+  created: string;
+  /** The changed fields */
+  items: JiraChangelogItem[];
+}
+
+/**
+ * Changelog of one issue from a bulk fetch
+ */
+export interface JiraIssueChangelog {
+  /** The issue ID */
+  issueId: string;
+  /** The changelog entries, oldest first */
+  changeHistories: JiraChangelogEntry[];
+}
+
+/**
+ * Jira issue link type, e.g. "Blocks" with the descriptions "blocks" and "is blocked by"
+ */
+export interface JiraIssueLinkType {
+  /** The link type ID */
+  id: string;
+  /** The link type name */
+  name: string;
+  /** How the inward issue relates to the outward issue, e.g. "is blocked by" */
+  inward: string;
+  /** How the outward issue relates to the inward issue, e.g. "blocks" */
+  outward: string;
+  /** The link type self URL */
+  self?: string;
+}
+
+/**
+ * Issue at the other end of an issue link
+ */
+export interface JiraLinkedIssue {
+  /** The issue ID */
+  id: string;
+  /** The issue key */
+  key: string;
+  /** The issue self URL */
+  self: string;
+  /** The main fields of the issue */
+  fields?: {
+    summary?: string;
+    status?: {
+      id: string;
+      name: string;
+      self?: string;
+    };
+    priority?: {
+      id: string;
+      name: string;
+      self?: string;
+    };
+    issuetype?: {
+      id: string;
+      name: string;
+      self?: string;
+    };
+  };
+}
+
+/**
+ * Link between two issues
+ *
+ * In the links of an issue, each link has only the other issue: an `outwardIssue` when the issue relates to it
+ * by the `outward` description ("blocks"), an `inwardIssue` when by the `inward` one ("is blocked by").
+ * A link fetched by ID has both.
+ */
+export interface JiraIssueLink {
+  /** The link ID */
+  id: string;
+  /** The link self URL */
+  self?: string;
+  /** The link type */
+  type: JiraIssueLinkType;
+  /** The inward issue, e.g. the blocking issue of a "Blocks" link */
+  inwardIssue?: JiraLinkedIssue;
+  /** The outward issue, e.g. the blocked issue of a "Blocks" link */
+  outwardIssue?: JiraLinkedIssue;
+}
+
+/**
+ * Data for linking two issues
+ */
+export interface CreateIssueLinkData {
+  /** The link type ID or name */
+  type: {
+    id?: string;
+    name?: string;
+  };
+  /** The issue the `outward` description applies to, e.g. the blocking issue of a "Blocks" link */
+  inwardIssue: {
+    id?: string;
+    key?: string;
+  };
+  /** The issue the `inward` description applies to, e.g. the blocked issue of a "Blocks" link */
+  outwardIssue: {
+    id?: string;
+    key?: string;
+  };
+  /** A comment to add to the outward issue; Markdown is converted to ADF in API v3 and wiki markup in API v2 */
+  comment?: {
+    body: string | AdfDocument;
+  };
+}
+
+/**
+ * Link on an issue seen from that issue
+ */
+export interface IssueLinkRelation {
+  /** The link ID */
+  id: string;
+  /** The link type */
+  type: JiraIssueLinkType;
+  /** Which end of the link the other issue is */
+  direction: 'inward' | 'outward';
+  /** How this issue relates to the other one, e.g. "blocks" or "is blocked by" */
+  relation: string;
+  /** The other issue */
+  issue: JiraLinkedIssue;
+}
+
+/**
+ * Link from an issue to a resource outside Jira
+ */
+export interface JiraRemoteLink {
+  /** The remote link ID */
+  id: number;
+  /** The remote link self URL */
+  self: string;
+  /** The ID identifying the remote resource across issues, used to update the link */
+  globalId?: string;
+  /** The application the remote resource belongs to */
+  application?: {
+    type?: string;
+    name?: string;
+  };
+  /** How the issue relates to the remote resource, e.g. "mentioned in" */
+  relationship?: string;
+  /** The remote resource */
+  object: {
+    /** The resource URL */
+    url: string;
+    /** The resource title */
+    title: string;
+    /** The resource summary */
+    summary?: string;
+    /** The resource icon */
+    icon?: {
+      url16x16?: string;
+      title?: string;
+      link?: string;
+    };
+    /** The resource status */
+    status?: {
+      resolved?: boolean;
+      icon?: {
+        url16x16?: string;
+        title?: string;
+        link?: string;
+      };
+    };
+  };
+}
+
+/**
+ * Data for creating or updating a remote link
+ */
+export type RemoteLinkData = Omit<JiraRemoteLink, 'id' | 'self'>;
+
+/**
+ * Metadata of a file attached to an issue
+ */
+export interface JiraAttachment {
+  /** The attachment ID */
+  id: string;
+  /** The attachment self URL */
+  self: string;
+  /** The file name */
+  filename: string;
+  /** The user who attached the file */
+  author?: {
+    accountId: string;
+    displayName: string;
+    self: string;
+  };
+  /** The attachment creation date */
+  created: string;
+  /** The file size in bytes */
+  size: number;
+  /** The file MIME type */
+  mimeType: string;
+  /** The URL of the file content */
+  content: string;
+  /** The URL of the thumbnail, for images */
+  thumbnail?: string;
+}
+
+/**
+ * File to upload as an attachment
+ */
+export interface AttachmentUpload {
+  /** The file content */
+  content: Buffer | NodeJS.ReadableStream;
+  /** The file name shown in Jira */
+  filename: string;
+  /** The file MIME type (default: guessed from the file name) */
+  contentType?: string;
+  /** The content length in bytes, needed for streams whose length cannot be determined */
+  knownLength?: number;
+}
+
+/**
+ * Restriction of who can see a worklog
+ */
+export interface JiraVisibility {
+  /** Whether the restriction is to a group or a project role */
+  type: 'group' | 'role';
+  /** The group or role name */
+  value?: string;
+  /** The group ID, preferred to the name for groups */
+  identifier?: string;
+}
+
+/**
+ * Time logged on an issue
+ */
+export interface JiraWorklog {
+  /** The worklog ID */
+  id: string;
+  /** The worklog self URL */
+  self: string;
+  /** The ID of the issue */
+  issueId: string;
+  /** The user who logged the time */
+  author?: {
+    accountId: string;
+    displayName: string;
+    self: string;
+  };
+  /** The user who last updated the worklog */
+  updateAuthor?: {
+    accountId: string;
+    displayName: string;
+    self: string;
+  };
+  /** The worklog comment (ADF in API v3, wiki markup in API v2) */
+  comment?: string | AdfDocument;
+  /** When the work started */
+  started: string;
+  /** The time spent, as a Jira duration such as "1d 2h" */
+  timeSpent: string;
+  /** The time spent in seconds */
+  timeSpentSeconds: number;
+  /** The worklog creation date */
+  created: string;
+  /** The worklog update date */
+  updated: string;
+  /** Who can see the worklog */
+  visibility?: JiraVisibility;
+}
+
+/**
+ * Data for adding or updating a worklog; set either `timeSpent` or `timeSpentSeconds`
+ */
+export interface WorklogData {
+  /** The time spent, as a Jira duration such as "1d 2h" */
+  timeSpent?: string;
+  /** The time spent in seconds */
+  timeSpentSeconds?: number;
+  /** When the work started (default: now) */
+  started?: string | Date;
+  /** The worklog comment; Markdown is converted to ADF in API v3 and wiki markup in API v2 */
+  comment?: string | AdfDocument;
+  /** Who can see the worklog */
+  visibility?: JiraVisibility;
+}
+
+/**
+ * How logging, changing or deleting time updates the remaining estimate of the issue
+ * - `auto`: reduce it by the time logged (the default)
+ * - `leave`: leave it unchanged
+ * - `new`: set it to `newEstimate`
+ * - `manual`: reduce it by `reduceBy` when logging, increase it by `increaseBy` when deleting
+ */
+export type WorklogAdjustEstimate = 'auto' | 'leave' | 'new' | 'manual';
+
+/**
+ * Options for adding, updating or deleting a worklog
+ */
+export interface WorklogOptions extends RequestOptions {
+  /** How the remaining estimate is updated (default: auto) */
+  adjustEstimate?: WorklogAdjustEstimate;
+  /** The new remaining estimate, as a Jira duration, for `adjustEstimate: 'new'` */
+  newEstimate?: string;
+  /** The duration to reduce the remaining estimate by, for `adjustEstimate: 'manual'` when adding */
+  reduceBy?: string;
+  /** The duration to increase the remaining estimate by, for `adjustEstimate: 'manual'` when deleting */
+  increaseBy?: string;
+  /** Whether watchers are notified (default: true) */
+  notifyUsers?: boolean;
+}
+
+/**
+ * Parameters for listing the worklogs of an issue
+ */
+export interface WorklogQueryParams extends PaginationParams {
+  /** Only return worklogs started at or after this time */
+  startedAfter?: Date | number;
+  /** Only return worklogs started before this time */
+  startedBefore?: Date | number;
+}
+
+/**
+ * Worklog reported as updated or deleted since a point in time
+ */
+export interface JiraWorklogChange {
+  /** The worklog ID */
+  worklogId: number;
+  /** When the worklog was updated or deleted, in milliseconds since the epoch */
+  updatedTime: number;
+  /** The worklog properties requested */
+  properties: Array<{ key: string; value: unknown }>;
+}
+
+/**
+ * Page of worklogs updated or deleted since a point in time
+ */
+export interface JiraWorklogChangePage {
+  /** The changed worklogs, oldest first */
+  values: JiraWorklogChange[];
+  /** The start of the page, in milliseconds since the epoch */
+  since: number;
+  /** The end of the page, in milliseconds since the epoch; pass it as `since` to fetch the next page */
+  until: number;
+  /** Whether this is the last page */
+  lastPage: boolean;
+  /** The URL of the next page */
+  nextPage?: string;
+  /** The page self URL */
+  self?: string;
+}
+
+/**
+ * Worklogs updated since a point in time, with where to continue the next sync from
+ */
+export interface WorklogSyncResult {
+  /** The updated worklogs */
+  worklogs: JiraWorklog[];
+  /** The IDs of the deleted worklogs */
+  deletedIds: number[];
+  /** The time to pass as `since` on the next sync, in milliseconds since the epoch */
+  until: number;
+}
+
+/**
+ * Jira Software board
+ */
+export interface JiraBoard {
+  /** The board ID */
+  id: number;
+  /** The board self URL */
+  self: string;
+  /** The board name */
+  name: string;
+  /** The board type */
+  type: 'scrum' | 'kanban' | 'simple';
+  /** The project or user the board belongs to */
+  location?: {
+    projectId?: number;
+    projectKey?: string;
+    projectName?: string;
+    displayName?: string;
+    projectTypeKey?: string;
+  };
+}
+
+/**
+ * Parameters for listing boards
+ */
+export interface BoardQueryParams extends PaginationParams {
+  /** Only return boards of this type */
+  type?: JiraBoard['type'];
+  /** Only return boards whose name contains this text */
+  name?: string;
+  /** Only return boards of this project */
+  projectKeyOrId?: string;
+}
+
+/**
+ * Configuration of a board: its filter, columns, estimation and ranking
+ */
+export interface JiraBoardConfiguration {
+  /** The board ID */
+  id: number;
+  /** The board name */
+  name: string;
+  /** The board self URL */
+  self: string;
+  /** The board type */
+  type: JiraBoard['type'];
+  /** The saved filter selecting the issues of the board */
+  filter: {
+    id: string;
+    self: string;
+  };
+  /** The columns of the board and the statuses mapped to each */
+  columnConfig: {
+    columns: Array<{
+      name: string;
+      statuses: Array<{ id: string; self: string }>;
+      min?: number;
+      max?: number;
+    }>;
+    constraintType?: string;
+  };
+  /** How issues are estimated */
+  estimation?: {
+    type: string;
+    field?: {
+      fieldId: string;
+      displayName: string;
+    };
+  };
+  /** The custom field holding the rank of issues */
+  ranking?: {
+    rankCustomFieldId: number;
+  };
+  /** The JQL that hides issues from a kanban board, e.g. released issues */
+  subQuery?: {
+    query: string;
+  };
+}
+
+/**
+ * State of a sprint
+ */
+export type JiraSprintState = 'future' | 'active' | 'closed';
+
+/**
+ * Jira Software sprint
+ */
+export interface JiraSprint {
+  /** The sprint ID */
+  id: number;
+  /** The sprint self URL */
+  self: string;
+  /** The sprint state */
+  state: JiraSprintState;
+  /** The sprint name */
+  name: string;
+  /** The sprint start date */
+  startDate?: string;
+  /** The sprint end date */
+  endDate?: string;
+  /** When the sprint was completed */
+  completeDate?: string;
+  /** The sprint creation date */
+  createdDate?: string;
+  /** The ID of the board the sprint was created on */
+  originBoardId?: number;
+  /** The sprint goal */
+  goal?: string;
+}
+
+/**
+ * Data for creating a sprint
+ */
+export interface CreateSprintData {
+  /** The sprint name */
+  name: string;
+  /** The ID of the board to create the sprint on */
+  originBoardId: number;
+  /** The sprint start date */
+  startDate?: string | Date;
+  /** The sprint end date */
+  endDate?: string | Date;
+  /** The sprint goal */
+  goal?: string;
+}
+
+/**
+ * Data for updating a sprint; only the given fields change
+ */
+export interface UpdateSprintData {
+  /** The sprint name */
+  name?: string;
+  /** The sprint state; use `startSprint` and `completeSprint` to change it */
+  state?: JiraSprintState;
+  /** The sprint start date */
+  startDate?: string | Date;
+  /** The sprint end date */
+  endDate?: string | Date;
+  /** The sprint goal */
+  goal?: string;
+}
+
+/**
+ * Parameters for listing the issues of a board, sprint, backlog or epic
+ */
+export interface AgileIssueQueryParams extends PaginationParams {
+  /** JQL further filtering the issues */
+  jql?: string;
+  /** The fields to return (default: all navigable fields) */
+  fields?: string[];
+}
+
+/**
+ * Jira Software epic
+ */
+export interface JiraEpic {
+  /** The epic issue ID */
+  id: number;
+  /** The epic issue key */
+  key: string;
+  /** The epic self URL */
+  self: string;
+  /** The epic name */
+  name: string;
+  /** The epic summary */
+  summary: string;
+  /** The epic color */
+  color?: {
+    key: string;
+  };
+  /** Whether the epic is done */
+  done: boolean;
+}
+
+/**
+ * Where to rank issues; set either `before` or `after`
+ */
+export interface RankIssuesOptions {
+  /** The key or ID of the issue to rank the issues before */
+  before?: string;
+  /** The key or ID of the issue to rank the issues after */
+  after?: string;
+  /** The ID of the rank custom field (default: the rank field of the site) */
+  rankCustomFieldId?: number;
+}
+
+/**
+ * Outcome of ranking one issue
+ */
+export interface RankIssueResult {
+  /** The issue ID */
+  issueId: number;
+  /** The issue key */
+  issueKey: string;
+  /** The HTTP status of the operation on this issue */
+  status: number;
+  /** The error messages, if ranking failed */
+  errors?: string[];
+}
+
 /**
  * Jira issue transition
  */
@@ -0,0 +1,180 @@
+/**
+ * JQL clause operator
+ */
+export type JqlOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | '~'
+  | '!~'
+  | 'in'
+  | 'not in'
+  | 'is'
+  | 'is not'
+  | 'was'
+  | 'was not'
+  | 'was in'
+  | 'was not in'
+  | 'changed';
+
+/**
+ * Position of a node in the JQL source
+ */
+export interface JqlSourceRange {
+  /** Offset of the first character */
+  start: number;
+  /** Offset after the last character */
+  end: number;
+}
+
+/**
+ * JQL operand: a value, a function call, a list, or EMPTY/NULL
+ */
+export type JqlOperand =
+  | ({ type: 'value'; value: string; quoted: boolean } & JqlSourceRange)
+  | ({ type: 'function'; name: string; args: string[] } & JqlSourceRange)
+  | ({ type: 'list'; values: JqlOperand[] } & JqlSourceRange)
+  | ({ type: 'empty' } & JqlSourceRange);
+
+/**
+ * Predicate narrowing a WAS or CHANGED clause, e.g. `BY currentUser()` or `DURING ("2024-01-01", "2024-02-01")`
+ */
+export interface JqlPredicate extends JqlSourceRange {
+  /** The predicate keyword */
+  type: 'from' | 'to' | 'by' | 'after' | 'before' | 'on' | 'during';
+  /** The predicate operand; DURING has a list of two dates */
+  operand: JqlOperand;
+}
+
+/**
+ * JQL clause comparing a field with an operand
+ */
+export interface JqlClauseNode extends JqlSourceRange {
+  type: 'clause';
+  /** The field name, without quotes */
+  field: string;
+  /** The operator */
+  operator: JqlOperator;
+  /** The operand; absent for CHANGED */
+  operand?: JqlOperand;
+  /** The history predicates of a WAS or CHANGED clause */
+  predicates: JqlPredicate[];
+}
+
+/**
+ * JQL clauses joined with AND or OR
+ */
+export interface JqlLogicalNode extends JqlSourceRange {
+  type: 'and' | 'or';
+  /** The joined clauses */
+  clauses: JqlNode[];
+}
+
+/**
+ * Negated JQL clause
+ */
+export interface JqlNotNode extends JqlSourceRange {
+  type: 'not';
+  /** The negated clause */
+  clause: JqlNode;
+}
+
+/**
+ * Node of a JQL syntax tree
+ */
+export type JqlNode = JqlClauseNode | JqlLogicalNode | JqlNotNode;
+
+/**
+ * ORDER BY field of a JQL query
+ */
+export interface JqlOrderByField extends JqlSourceRange {
+  /** The field name, without quotes */
+  field: string;
+  /** The sort direction, if given */
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Syntax tree of a JQL query
+ */
+export interface JqlAst {
+  /** The conditions, absent for a query that only sorts */
+  where?: JqlNode;
+  /** The ORDER BY fields */
+  orderBy: JqlOrderByField[];
+}
+
+/**
+ * Result of parsing a query with Jira's `/jql/parse` endpoint
+ */
+export interface JqlParseResult {
+  /** The query */
+  query: string;
+  /** The syntax tree returned by Jira, if the query is valid */
+  structure?: Record<string, unknown>;
+  /** The errors found, if any */
+  errors?: string[];
+  /** The warnings found, if any */
+  warnings?: string[];
+}
+
+/**
+ * Field that can be used in JQL, from Jira's autocomplete data
+ */
+export interface JqlFieldReference {
+  /** The field name as used in JQL */
+  value: string;
+  /** The display name of the field */
+  displayName: string;
+  /** Whether the field can be used in ORDER BY */
+  orderable?: string;
+  /** Whether the field can be searched */
+  searchable?: string;
+  /** Whether the field supports autocompleting values */
+  auto?: string;
+  /** The ID of a custom field */
+  cfid?: string;
+  /** The operators the field supports */
+  operators?: string[];
+  /** The data types of the field */
+  types?: string[];
+}
+
+/**
+ * Function that can be used in JQL, from Jira's autocomplete data
+ */
+export interface JqlFunctionReference {
+  /** The function call as used in JQL, e.g. "currentUser()" */
+  value: string;
+  /** The display name of the function */
+  displayName: string;
+  /** Whether the function returns a list */
+  isList?: string;
+  /** The data types the function returns */
+  types?: string[];
+}
+
+/**
+ * Data for autocompleting JQL queries
+ */
+export interface JqlAutocompleteData {
+  /** The fields the user can search */
+  visibleFieldNames: JqlFieldReference[];
+  /** The functions the user can use */
+  visibleFunctionNames: JqlFunctionReference[];
+  /** The words JQL reserves */
+  jqlReservedWords: string[];
+}
+
+/**
+ * Suggested value for a field in a JQL query
+ */
+export interface JqlSuggestion {
+  /** The value as used in JQL */
+  value: string;
+  /** The display name, with the matching text in bold */
+  displayName: string;
+}
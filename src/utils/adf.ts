@@ -0,0 +1,416 @@
+import {
+  AdfBlockNode,
+  AdfDocument,
+  AdfInlineNode,
+  AdfListItem,
+  AdfMark,
+  AdfNode,
+  AdfPanel,
+  AdfTableCell,
+  AdfText
+} from '../types';
+
+/**
+ * Content for a block: plain text, or a function that fills an inline builder
+ */
+export type AdfInlineContent = string | ((builder: AdfInlineBuilder) => void);
+
+/**
+ * Content for a container such as a list item or table cell: plain text, or a function that fills a block builder
+ */
+export type AdfBlockContent = string | ((builder: AdfBuilder) => void);
+
+/**
+ * Fluent builder for inline ADF content (text, marks, mentions, links)
+ */
+export class AdfInlineBuilder {
+  /** The inline nodes built so far */
+  private readonly nodes: AdfInlineNode[] = [];
+
+  /**
+   * Add text
+   * @param text - The text
+   * @param marks - The formatting to apply
+   * @returns The builder, for chaining
+   */
+  text(text: string, marks?: AdfMark[]): this {
+    if (text) {
+      const node: AdfText = { type: 'text', text };
+
+      if (marks && marks.length > 0) {
+        node.marks = marks;
+      }
+
+      this.nodes.push(node);
+    }
+
+    return this;
+  }
+
+  /**
+   * Add bold text
+   * @param text - The text
+   * @returns The builder, for chaining
+   */
+  strong(text: string): this {
+    return this.text(text, [{ type: 'strong' }]);
+  }
+
+  /**
+   * Add italic text
+   * @param text - The text
+   * @returns The builder, for chaining
+   */
+  em(text: string): this {
+    return this.text(text, [{ type: 'em' }]);
+  }
+
+  /**
+   * Add inline code
+   * @param text - The code
+   * @returns The builder, for chaining
+   */
+  code(text: string): this {
+    return this.text(text, [{ type: 'code' }]);
+  }
+
+  /**
+   * Add struck-through text
+   * @param text - The text
+   * @returns The builder, for chaining
+   */
+  strike(text: string): this {
+    return this.text(text, [{ type: 'strike' }]);
+  }
+
+  /**
+   * Add underlined text
+   * @param text - The text
+   * @returns The builder, for chaining
+   */
+  underline(text: string): this {
+    return this.text(text, [{ type: 'underline' }]);
+  }
+
+  /**
+   * Add a link
+   * @param text - The link text
+   * @param href - The link target
+   * @returns The builder, for chaining
+   */
+  link(text: string, href: string): this {
+    return this.text(text, [{ type: 'link', attrs: { href } }]);
+  }
+
+  /**
+   * Add a user mention
+   * @param accountId - The account ID of the user
+   * @param displayName - The name to display
+   * @returns The builder, for chaining
+   */
+  mention(accountId: string, displayName?: string): this {
+    this.nodes.push({
+      type: 'mention',
+      attrs: displayName ? { id: accountId, text: `@${displayName}` } : { id: accountId },
+    });
+    return this;
+  }
+
+  /**
+   * Add an emoji
+   * @param shortName - The emoji short name, e.g. ":smile:"
+   * @returns The builder, for chaining
+   */
+  emoji(shortName: string): this {
+    this.nodes.push({ type: 'emoji', attrs: { shortName } });
+    return this;
+  }
+
+  /**
+   * Add a hard line break
+   * @returns The builder, for chaining
+   */
+  hardBreak(): this {
+    this.nodes.push({ type: 'hardBreak' });
+    return this;
+  }
+
+  /**
+   * Get the inline nodes
+   * @returns The inline nodes
+   */
+  build(): AdfInlineNode[] {
+    return [...this.nodes];
+  }
+}
+
+/**
+ * Fluent builder for ADF documents
+ *
+ * @example
+ * const doc = adf()
+ *   .heading(2, 'Release plan')
+ *   .paragraph((p) => p.text('Owner: ').mention('5b10a2844c20165700ede21g', 'Jane Doe'))
+ *   .bulletList(['Freeze', 'Test', 'Ship'])
+ *   .build();
+ */
+export class AdfBuilder {
+  /** The block nodes built so far */
+  private readonly nodes: AdfBlockNode[] = [];
+
+  /**
+   * Add a paragraph
+   * @param content - The paragraph content
+   * @returns The builder, for chaining
+   */
+  paragraph(content: AdfInlineContent = ''): this {
+    const inline = buildInline(content);
+    this.nodes.push(inline.length > 0 ? { type: 'paragraph', content: inline } : { type: 'paragraph' });
+    return this;
+  }
+
+  /**
+   * Add a heading
+   * @param level - The heading level (1-6)
+   * @param content - The heading content
+   * @returns The builder, for chaining
+   */
+  heading(level: 1 | 2 | 3 | 4 | 5 | 6, content: AdfInlineContent): this {
+    this.nodes.push({ type: 'heading', attrs: { level }, content: buildInline(content) });
+    return this;
+  }
+
+  /**
+   * Add a bulleted list
+   * @param items - The list items
+   * @returns The builder, for chaining
+   */
+  bulletList(items: AdfBlockContent[]): this {
+    this.nodes.push({ type: 'bulletList', content: items.map(buildListItem) });
+    return this;
+  }
+
+  /**
+   * Add a numbered list
+   * @param items - The list items
+   * @param order - The number of the first item
+   * @returns The builder, for chaining
+   */
+  orderedList(items: AdfBlockContent[], order?: number): this {
+    this.nodes.push({
+      type: 'orderedList',
+      ...(order !== undefined && order !== 1 ? { attrs: { order } } : {}),
+      content: items.map(buildListItem),
+    });
+    return this;
+  }
+
+  /**
+   * Add a code block
+   * @param code - The code
+   * @param language - The language used for syntax highlighting
+   * @returns The builder, for chaining
+   */
+  codeBlock(code: string, language?: string): this {
+    this.nodes.push({
+      type: 'codeBlock',
+      ...(language ? { attrs: { language } } : {}),
+      ...(code ? { content: [{ type: 'text', text: code }] } : {}),
+    });
+    return this;
+  }
+
+  /**
+   * Add a block quote
+   * @param content - The quoted content
+   * @returns The builder, for chaining
+   */
+  blockquote(content: AdfBlockContent): this {
+    this.nodes.push({ type: 'blockquote', content: buildBlocks(content) });
+    return this;
+  }
+
+  /**
+   * Add a panel
+   * @param panelType - The panel type
+   * @param content - The panel content
+   * @returns The builder, for chaining
+   */
+  panel(panelType: AdfPanel['attrs']['panelType'], content: AdfBlockContent): this {
+    this.nodes.push({ type: 'panel', attrs: { panelType }, content: buildBlocks(content) });
+    return this;
+  }
+
+  /**
+   * Add a horizontal rule
+   * @returns The builder, for chaining
+   */
+  rule(): this {
+    this.nodes.push({ type: 'rule' });
+    return this;
+  }
+
+  /**
+   * Add a table
+   * @param rows - The table rows, each a list of cells
+   * @param options - Whether the first row is a header row (default: true)
+   * @returns The builder, for chaining
+   */
+  table(rows: AdfBlockContent[][], options: { header?: boolean } = {}): this {
+    const header = options.header ?? true;
+
+    this.nodes.push({
+      type: 'table',
+      content: rows.map((cells, index) => ({
+        type: 'tableRow',
+        content: cells.map((cell): AdfTableCell => ({
+          type: header && index === 0 ? 'tableHeader' : 'tableCell',
+          content: buildBlocks(cell),
+        })),
+      })),
+    });
+    return this;
+  }
+
+  /**
+   * Add existing block nodes
+   * @param nodes - The block nodes
+   * @returns The builder, for chaining
+   */
+  append(...nodes: AdfBlockNode[]): this {
+    this.nodes.push(...nodes);
+    return this;
+  }
+
+  /**
+   * Get the block nodes
+   * @returns The block nodes
+   */
+  buildContent(): AdfBlockNode[] {
+    return [...this.nodes];
+  }
+
+  /**
+   * Get the document
+   * @returns The ADF document
+   */
+  build(): AdfDocument {
+    return createAdfDocument(this.buildContent());
+  }
+}
+
+/**
+ * Start building an ADF document
+ * @returns A new ADF builder
+ */
+export function adf(): AdfBuilder {
+  return new AdfBuilder();
+}
+
+/**
+ * Create an ADF document from block nodes
+ * @param content - The block nodes
+ * @returns The ADF document
+ */
+export function createAdfDocument(content: AdfBlockNode[]): AdfDocument {
+  return { version: 1, type: 'doc', content };
+}
+
+/**
+ * Check if a value is an ADF document
+ * @param value - The value to check
+ * @returns Whether the value is an ADF document
+ */
+export function isAdfDocument(value: unknown): value is AdfDocument {
+  return typeof value === 'object'
+    && value !== null
+    && (value as AdfDocument).type === 'doc'
+    && Array.isArray((value as AdfDocument).content);
+}
+
+/**
+ * Build inline nodes from inline content
+ * @param content - The inline content
+ * @returns The inline nodes
+ */
+function buildInline(content: AdfInlineContent): AdfInlineNode[] {
+  const builder = new AdfInlineBuilder();
+
+  if (typeof content === 'string') {
+    builder.text(content);
+  } else {
+    content(builder);
+  }
+
+  return builder.build();
+}
+
+/**
+ * Build block nodes from block content
+ * @param content - The block content
+ * @returns The block nodes
+ */
+function buildBlocks(content: AdfBlockContent): AdfBlockNode[] {
+  const builder = new AdfBuilder();
+
+  if (typeof content === 'string') {
+    builder.paragraph(content);
+  } else {
+    content(builder);
+  }
+
+  return builder.buildContent();
+}
+
+/**
+ * Build a list item from block content
+ * @param content - The block content
+ * @returns The list item
+ */
+function buildListItem(content: AdfBlockContent): AdfListItem {
+  return { type: 'listItem', content: buildBlocks(content) };
+}
+
+/**
+ * Convert an ADF document or node to plain text
+ * @param node - The ADF document or node
+ * @returns The plain text, with blocks separated by blank lines
+ */
+export function adfToPlainText(node: AdfDocument | AdfNode): string {
+  return blockText(node).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Convert a node to plain text
+ * @param node - The node
+ * @returns The plain text
+ */
+function blockText(node: AdfDocument | AdfNode): string {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'hardBreak':
+      return '\n';
+    case 'mention':
+      return node.attrs.text ?? `@${node.attrs.id}`;
+    case 'emoji':
+      return node.attrs.text ?? node.attrs.shortName;
+    case 'inlineCard':
+      return node.attrs.url;
+    case 'rule':
+      return '\n\n';
+    case 'paragraph':
+    case 'heading':
+    case 'codeBlock':
+      return `${(node.content ?? []).map(blockText).join('')}\n\n`;
+    case 'bulletList':
+    case 'orderedList':
+      return `${node.content.map((item) => `${blockText(item).trim()}\n`).join('')}\n`;
+    case 'tableRow':
+      return `${node.content.map((cell) => blockText(cell).trim()).join('\t')}\n`;
+    case 'table':
+      return `${node.content.map(blockText).join('')}\n`;
+    default:
+      return ((node as { content?: AdfNode[] }).content ?? []).map(blockText).join('');
+  }
+}
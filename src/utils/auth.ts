@@ -0,0 +1,276 @@
+import axios from 'axios';
+import {
+  AuthProvider,
+  JiraAuthConfig,
+  OAuth2AccessibleResource,
+  OAuth2Options,
+  OAuth2Tokens,
+  SessionAuthConfig
+} from '../types';
+import { ATLASSIAN_API_URL } from './config';
+import { handleApiError } from './error';
+
+/**
+ * Default Atlassian OAuth 2.0 token endpoint
+ */
+export const OAUTH2_TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+
+/**
+ * Default time before expiry at which access tokens are refreshed
+ */
+const DEFAULT_REFRESH_MARGIN = 60000;
+
+/**
+ * Create the headers for an authentication mode whose credentials do not change
+ * @param auth - The authentication mode
+ * @returns The headers, or undefined if the mode needs an auth provider
+ */
+export function createAuthHeaders(auth: JiraAuthConfig): Record<string, string> | undefined {
+  switch (auth.type) {
+    case 'basic':
+      return { 'Authorization': 'Basic ' + Buffer.from(`${auth.email}:${auth.token}`).toString('base64') };
+    case 'bearer':
+    case 'pat':
+      return { 'Authorization': `Bearer ${auth.token}` };
+    case 'header':
+      return { [auth.name]: auth.value };
+    case 'session':
+      return undefined;
+  }
+}
+
+/**
+ * Token endpoint response
+ */
+interface OAuth2TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * Request tokens from an OAuth 2.0 token endpoint
+ * @param tokenUrl - The token endpoint
+ * @param body - The token request
+ * @returns The tokens
+ */
+async function requestTokens(tokenUrl: string, body: Record<string, string>): Promise<OAuth2Tokens> {
+  try {
+    const response = await axios.post<OAuth2TokenResponse>(tokenUrl, body, {
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const { access_token, refresh_token, expires_in, scope } = response.data;
+
+    return {
+      accessToken: access_token,
+      refreshToken: refresh_token,
+      expiresAt: expires_in !== undefined ? Date.now() + expires_in * 1000 : undefined,
+      scope,
+    };
+  } catch (error) {
+    throw handleApiError(error);
+  }
+}
+
+/**
+ * Exchange an authorization code from the OAuth 2.0 (3LO) consent flow for tokens
+ * @param options - The app credentials, the authorization code and the redirect URI used in the consent flow
+ * @returns The tokens
+ */
+export async function exchangeAuthorizationCode(options: {
+  clientId: string;
+  clientSecret: string;
+  code: string;
+  redirectUri: string;
+  tokenUrl?: string;
+}): Promise<OAuth2Tokens> {
+  return requestTokens(options.tokenUrl ?? OAUTH2_TOKEN_URL, {
+    grant_type: 'authorization_code',
+    client_id: options.clientId,
+    client_secret: options.clientSecret,
+    code: options.code,
+    redirect_uri: options.redirectUri,
+  });
+}
+
+/**
+ * Get the Jira sites an OAuth 2.0 access token has been granted access to
+ * @param accessToken - The access token
+ * @returns The sites, whose IDs can be used as cloudId
+ */
+export async function getAccessibleResources(accessToken: string): Promise<OAuth2AccessibleResource[]> {
+  try {
+    const response = await axios.get<OAuth2AccessibleResource[]>(
+      `${ATLASSIAN_API_URL}/oauth/token/accessible-resources`,
+      { headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' } }
+    );
+
+    return response.data;
+  } catch (error) {
+    throw handleApiError(error);
+  }
+}
+
+/**
+ * OAuth 2.0 (3LO) authentication that refreshes the access token before it expires
+ * and after the server rejects it
+ */
+export class OAuth2AuthProvider implements AuthProvider {
+  /** The OAuth 2.0 options */
+  private readonly options: OAuth2Options;
+  /** The current tokens */
+  private tokens: OAuth2Tokens;
+  /** The refresh in progress, shared by concurrent requests */
+  private pendingRefresh?: Promise<boolean>;
+
+  /**
+   * Create a new OAuth2AuthProvider
+   * @param options - The OAuth 2.0 options and the current tokens
+   */
+  constructor(options: OAuth2Options) {
+    this.options = options;
+    this.tokens = {
+      accessToken: options.accessToken,
+      refreshToken: options.refreshToken,
+      expiresAt: options.expiresAt,
+      scope: options.scope,
+    };
+  }
+
+  /**
+   * Get the current tokens
+   * @returns The current tokens
+   */
+  getTokens(): OAuth2Tokens {
+    return { ...this.tokens };
+  }
+
+  /**
+   * Get the headers that authenticate a request, refreshing the access token if it is about to expire
+   * @returns The authentication headers
+   */
+  async getHeaders(): Promise<Record<string, string>> {
+    const { expiresAt } = this.tokens;
+    const margin = this.options.refreshMargin ?? DEFAULT_REFRESH_MARGIN;
+
+    if (expiresAt !== undefined && expiresAt - margin <= Date.now()) {
+      await this.refresh();
+    }
+
+    return { 'Authorization': `Bearer ${this.tokens.accessToken}` };
+  }
+
+  /**
+   * Refresh the access token with the refresh token
+   * @returns Whether a new access token was obtained
+   */
+  async refresh(): Promise<boolean> {
+    if (!this.tokens.refreshToken) {
+      return false;
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshTokens().finally(() => {
+        this.pendingRefresh = undefined;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Request new tokens and notify the onTokenRefresh callback
+   * @returns Whether a new access token was obtained
+   */
+  private async refreshTokens(): Promise<boolean> {
+    const tokens = await requestTokens(this.options.tokenUrl ?? OAUTH2_TOKEN_URL, {
+      grant_type: 'refresh_token',
+      client_id: this.options.clientId,
+      client_secret: this.options.clientSecret,
+      refresh_token: this.tokens.refreshToken!,
+    });
+
+    this.tokens = {
+      ...tokens,
+      refreshToken: tokens.refreshToken ?? this.tokens.refreshToken,
+    };
+
+    await this.options.onTokenRefresh?.(this.getTokens());
+    return true;
+  }
+}
+
+/**
+ * Cookie-based session authentication for Jira Data Center, logging in again when the session expires
+ */
+export class SessionAuthProvider implements AuthProvider {
+  /** The session credentials */
+  private readonly auth: SessionAuthConfig;
+  /** Base URL of the Jira instance */
+  private readonly baseUrl: string;
+  /** Request timeout in milliseconds */
+  private readonly timeout?: number;
+  /** The session cookie, once logged in */
+  private cookie?: string;
+  /** The login in progress, shared by concurrent requests */
+  private pendingLogin?: Promise<boolean>;
+
+  /**
+   * Create a new SessionAuthProvider
+   * @param auth - The session credentials
+   * @param baseUrl - Base URL of the Jira instance
+   * @param timeout - Request timeout in milliseconds
+   */
+  constructor(auth: SessionAuthConfig, baseUrl: string, timeout?: number) {
+    this.auth = auth;
+    this.baseUrl = baseUrl;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Get the session cookie header, logging in first if needed
+   * @returns The authentication headers
+   */
+  async getHeaders(): Promise<Record<string, string>> {
+    if (!this.cookie) {
+      await this.refresh();
+    }
+
+    return { 'Cookie': this.cookie! };
+  }
+
+  /**
+   * Log in again to get a new session
+   * @returns Whether a new session was created
+   */
+  async refresh(): Promise<boolean> {
+    if (!this.pendingLogin) {
+      this.pendingLogin = this.login().finally(() => {
+        this.pendingLogin = undefined;
+      });
+    }
+
+    return this.pendingLogin;
+  }
+
+  /**
+   * Create a session through /rest/auth/1/session
+   * @returns Whether a new session was created
+   */
+  private async login(): Promise<boolean> {
+    try {
+      const response = await axios.post<{ session: { name: string; value: string } }>(
+        `${this.baseUrl}/rest/auth/1/session`,
+        { username: this.auth.username, password: this.auth.password },
+        { timeout: this.timeout, headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' } }
+      );
+      const { name, value } = response.data.session;
+
+      this.cookie = `${name}=${value}`;
+      return true;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+}
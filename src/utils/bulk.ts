@@ -0,0 +1,79 @@
+import { BulkItemResult, BulkOperationResult } from '../types';
+import { handleApiError } from './error';
+
+/**
+ * Default number of requests a bulk operation keeps in flight
+ */
+export const DEFAULT_BULK_CONCURRENCY = 5;
+
+/**
+ * Run a task for every item with limited concurrency, collecting each outcome instead of stopping at the first failure
+ * @param items - The items
+ * @param task - The task to run for each item
+ * @param concurrency - The maximum number of tasks running at once
+ * @returns The report of what succeeded and what failed
+ */
+export async function runBulk<TItem, TValue>(
+  items: TItem[],
+  task: (item: TItem, index: number) => Promise<TValue>,
+  concurrency: number = DEFAULT_BULK_CONCURRENCY
+): Promise<BulkOperationResult<TItem, TValue>> {
+  const results: BulkItemResult<TItem, TValue>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+
+      try {
+        results[index] = { index, item, status: 'fulfilled', value: await task(item, index) };
+      } catch (error) {
+        results[index] = { index, item, status: 'rejected', error: handleApiError(error) };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+
+  return createBulkResult(results);
+}
+
+/**
+ * Create the report of a bulk operation
+ * @param results - The outcome of every item, in input order
+ * @returns The report, with the successes and failures split out
+ */
+export function createBulkResult<TItem, TValue>(
+  results: BulkItemResult<TItem, TValue>[]
+): BulkOperationResult<TItem, TValue> {
+  const succeeded: BulkOperationResult<TItem, TValue>['succeeded'] = [];
+  const failed: BulkOperationResult<TItem, TValue>['failed'] = [];
+
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      succeeded.push(result);
+    } else {
+      failed.push(result);
+    }
+  }
+
+  return { results, succeeded, failed };
+}
+
+/**
+ * Split items into chunks
+ * @param items - The items
+ * @param size - The maximum chunk size
+ * @returns The chunks, in order
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+
+  return chunks;
+}
@@ -0,0 +1,285 @@
+import { FieldsApiClient } from '../api/fields';
+import { IssuesApiClient } from '../api/issues';
+import { JiraCreateMetaField, JiraField, JiraFieldMetadata, JiraFieldSchema } from '../types';
+import { fetchAllPages } from './pagination';
+
+/**
+ * Options for generating field types
+ */
+export interface CodegenOptions {
+  /** The module the generated file imports `customField` from (default: jira-api-client) */
+  importFrom?: string;
+}
+
+/**
+ * Custom field in the generated map
+ */
+interface GeneratedCustomField {
+  /** The friendly name */
+  name: string;
+  /** The custom field ID */
+  id: string;
+  /** The field name shown in Jira */
+  label: string;
+  /** The TypeScript type of the value */
+  type: string;
+}
+
+/**
+ * System fields holding rich text
+ */
+const RICH_TEXT_FIELDS = ['description', 'environment'];
+
+/**
+ * Custom field type of multi-line text fields
+ */
+const TEXTAREA_FIELD = 'com.atlassian.jira.plugin.system.customfieldtypes:textarea';
+
+/**
+ * TypeScript types of field values by schema type, in the shape accepted when creating or updating an issue
+ */
+const SCHEMA_TYPES: Record<string, string> = {
+  string: 'string',
+  number: 'number',
+  date: 'string',
+  datetime: 'string',
+  user: '{ accountId: string }',
+  group: '{ name?: string; groupId?: string }',
+  option: '{ id?: string; value?: string }',
+  'option-with-child': '{ id?: string; value?: string; child?: { id?: string; value?: string } }',
+  priority: '{ id?: string; name?: string }',
+  issuetype: '{ id?: string; name?: string }',
+  resolution: '{ id?: string; name?: string }',
+  securitylevel: '{ id?: string; name?: string }',
+  version: '{ id?: string; name?: string }',
+  component: '{ id?: string; name?: string }',
+  project: '{ id?: string; key?: string }',
+  issuelink: '{ id?: string; key?: string }',
+  timetracking: '{ originalEstimate?: string; remainingEstimate?: string }',
+};
+
+/**
+ * Fetch the field metadata the code generator needs from a Jira site
+ * @param client - The clients to fetch with, e.g. a JiraClient
+ * @param projectKeys - The projects to fetch the create metadata of
+ * @returns The field metadata
+ */
+export async function fetchFieldMetadata(
+  client: { fields: FieldsApiClient; issues: IssuesApiClient },
+  projectKeys: string[]
+): Promise<JiraFieldMetadata> {
+  const fields = await client.fields.getFields();
+  const projects: JiraFieldMetadata['projects'] = [];
+
+  for (const key of projectKeys) {
+    const issueTypes = await fetchAllPages((params) => client.issues.getCreateMetaIssueTypes(key, params));
+    const project: JiraFieldMetadata['projects'][number] = { key, issueTypes: [] };
+
+    for (const issueType of issueTypes) {
+      const issueTypeFields = await fetchAllPages(
+        (params) => client.issues.getCreateMetaFields(key, issueType.id, params)
+      );
+      project.issueTypes.push({ ...issueType, fields: issueTypeFields });
+    }
+
+    projects.push(project);
+  }
+
+  return { fields, projects };
+}
+
+/**
+ * Generate a TypeScript module typing the custom fields and the issue types of a Jira site
+ *
+ * The module exports a `customFields` map for the `customFields` option, its type `CustomFields` for
+ * `JiraClient<CustomFields>` and `IssuesApiClient<CustomFields>`, and an interface per project and issue type
+ * with the fields that can be set when creating an issue, for `CreateIssueData<T>`.
+ * @param metadata - The field metadata, from {@link fetchFieldMetadata} or a saved file
+ * @param options - The generator options
+ * @returns The TypeScript source
+ */
+export function generateFieldTypes(metadata: JiraFieldMetadata, options: CodegenOptions = {}): string {
+  const customFields = collectCustomFields(metadata);
+  const namesById = new Map(customFields.map((field) => [field.id, field.name]));
+  const interfaces: string[] = [];
+  const interfaceNames = new Set<string>();
+
+  for (const project of metadata.projects) {
+    for (const issueType of project.issueTypes) {
+      let name = `${toTypeName(project.key)}${toTypeName(issueType.name)}Fields`;
+
+      if (interfaceNames.has(name)) {
+        name = `${name.slice(0, -'Fields'.length)}${issueType.id}Fields`;
+      }
+
+      interfaceNames.add(name);
+      interfaces.push(generateInterface(name, `${project.key} ${issueType.name}`, issueType.fields, namesById));
+    }
+  }
+
+  const source = [...customFields.map((field) => field.type), ...interfaces].join('\n');
+  const imports = source.includes('AdfDocument') ? 'AdfDocument, customField' : 'customField';
+  const lines = [
+    '// Generated by jira-codegen. Do not edit.',
+    `import { ${imports} } from '${options.importFrom ?? 'jira-api-client'}';`,
+    '',
+    '/**',
+    ' * Custom fields by friendly name',
+    ' */',
+    'export const customFields = {',
+    ...customFields.flatMap((field) => [
+      `  /** ${escapeComment(field.label)} (${field.id}) */`,
+      `  ${formatKey(field.name)}: customField<${field.type}>('${field.id}'),`,
+    ]),
+    '};',
+    '',
+    '/**',
+    ' * Custom field map type, for `JiraClient<CustomFields>` and `IssuesApiClient<CustomFields>`',
+    ' */',
+    'export type CustomFields = typeof customFields;',
+  ];
+
+  for (const declaration of interfaces) {
+    lines.push('', declaration);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Convert a field name to a camelCase identifier, e.g. "Story Points" to "storyPoints"
+ * @param name - The field name
+ * @returns The identifier, or an empty string if the name has no letters or digits
+ */
+export function toFieldName(name: string): string {
+  const identifier = toTypeName(name);
+  const camelCase = identifier.charAt(0).toLowerCase() + identifier.slice(1);
+
+  return /^\d/.test(camelCase) ? `field${identifier}` : camelCase;
+}
+
+/**
+ * Collect the custom fields of the metadata and give each a unique friendly name
+ * @param metadata - The field metadata
+ * @returns The custom fields, sorted by friendly name
+ */
+function collectCustomFields(metadata: JiraFieldMetadata): GeneratedCustomField[] {
+  const fields = new Map<string, Pick<JiraField, 'id' | 'name' | 'schema'>>();
+
+  for (const field of metadata.fields) {
+    if (field.custom) {
+      fields.set(field.id, field);
+    }
+  }
+
+  for (const project of metadata.projects) {
+    for (const issueType of project.issueTypes) {
+      for (const field of issueType.fields) {
+        if (field.fieldId.startsWith('customfield_') && !fields.has(field.fieldId)) {
+          fields.set(field.fieldId, { id: field.fieldId, name: field.name, schema: field.schema });
+        }
+      }
+    }
+  }
+
+  // System field IDs are reserved so the client never mistakes a custom field for them
+  const reserved = new Set(metadata.fields.filter((field) => !field.custom).map((field) => field.id));
+  const counts = new Map<string, number>();
+
+  for (const field of fields.values()) {
+    const name = toFieldName(field.name);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+
+  return Array.from(fields.values())
+    .map((field) => {
+      let name = toFieldName(field.name);
+
+      if (!name || reserved.has(name) || (counts.get(name) ?? 0) > 1) {
+        name = `${name || 'customField'}${field.id.replace(/^customfield_/, '')}`;
+      }
+
+      return { name, id: field.id, label: field.name, type: toValueType(field.schema) };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Generate the interface of the fields that can be set when creating an issue
+ * @param name - The interface name
+ * @param label - The project key and issue type name
+ * @param fields - The create metadata fields
+ * @param namesById - The friendly names of the custom fields by ID
+ * @returns The interface declaration
+ */
+function generateInterface(
+  name: string,
+  label: string,
+  fields: JiraCreateMetaField[],
+  namesById: Map<string, string>
+): string {
+  const lines = ['/**', ` * Fields of a ${escapeComment(label)} when creating it`, ' */', `export interface ${name} {`];
+
+  for (const field of fields) {
+    const key = namesById.get(field.fieldId) ?? field.fieldId;
+    const optional = field.required && !field.hasDefaultValue ? '' : '?';
+
+    lines.push(`  /** ${escapeComment(field.name)} */`);
+    lines.push(`  ${formatKey(key)}${optional}: ${toValueType(field.schema)};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Get the TypeScript type of a field value
+ * @param schema - The field data type
+ * @returns The TypeScript type
+ */
+function toValueType(schema?: JiraFieldSchema): string {
+  if (!schema) {
+    return 'unknown';
+  }
+
+  if (schema.type === 'array') {
+    return `${toValueType(schema.items ? { type: schema.items } : undefined)}[]`;
+  }
+
+  if (schema.type === 'string' && (RICH_TEXT_FIELDS.includes(schema.system ?? '') || schema.custom === TEXTAREA_FIELD)) {
+    return 'string | AdfDocument';
+  }
+
+  return SCHEMA_TYPES[schema.type] ?? 'unknown';
+}
+
+/**
+ * Convert a name to a PascalCase identifier, e.g. "Sub-task" to "SubTask"
+ * @param name - The name
+ * @returns The identifier
+ */
+function toTypeName(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+}
+
+/**
+ * Format an object key, quoting it if it is not a valid identifier
+ * @param key - The key
+ * @returns The key as written in TypeScript
+ */
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Escape text for a block comment
+ * @param text - The text
+ * @returns The text, unable to close the comment
+ */
+function escapeComment(text: string): string {
+  return text.replace(/\*\//g, '*\\/');
+}
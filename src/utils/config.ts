@@ -1,5 +1,7 @@
 import dotenv from 'dotenv';
-import { JiraClientConfig } from '../types';
+import { JiraAuthConfig, JiraClientConfig, ResolvedJiraClientConfig } from '../types';
+import { createRateLimitOptions } from './rate-limiter';
+import { createRetryOptions } from './retry';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -12,36 +14,91 @@ export const DEFAULT_CONFIG: Partial<JiraClientConfig> = {
   timeout: 30000,
 };
 
+/**
+ * Atlassian API gateway used for OAuth 2.0 requests
+ */
+export const ATLASSIAN_API_URL = 'https://api.atlassian.com';
+
 /**
  * Create a configuration object from environment variables
  * @returns The configuration object
- * @throws Error if required environment variables are missing
+ * @throws Error if required environment variables are missing or JIRA_AUTH_TYPE is not supported
  */
 export function createConfigFromEnv(): JiraClientConfig {
   const baseUrl = process.env.JIRA_BASE_URL;
   const token = process.env.JIRA_TOKEN;
   const email = process.env.JIRA_EMAIL;
+  const authType = process.env.JIRA_AUTH_TYPE;
   const apiVersion = process.env.JIRA_API_VERSION 
     ? parseInt(process.env.JIRA_API_VERSION, 10) 
     : DEFAULT_CONFIG.apiVersion;
   const timeout = process.env.JIRA_REQUEST_TIMEOUT 
     ? parseInt(process.env.JIRA_REQUEST_TIMEOUT, 10) 
     : DEFAULT_CONFIG.timeout;
+  const retry = process.env.JIRA_MAX_RETRIES
+    ? { maxRetries: parseInt(process.env.JIRA_MAX_RETRIES, 10) }
+    : undefined;
 
   if (!baseUrl) {
     throw new Error('JIRA_BASE_URL environment variable is required');
   }
 
+  if (authType !== undefined && !['basic', 'bearer', 'pat', 'session'].includes(authType)) {
+    throw new Error(`Unsupported JIRA_AUTH_TYPE: ${authType} (expected basic, bearer, pat or session)`);
+  }
+
+  if (authType === 'session') {
+    const username = process.env.JIRA_USERNAME;
+    const password = process.env.JIRA_PASSWORD;
+
+    if (!username || !password) {
+      throw new Error('JIRA_USERNAME and JIRA_PASSWORD environment variables are required for session authentication');
+    }
+
+    return {
+      baseUrl,
+      auth: { type: 'session', username, password },
+      apiVersion,
+      timeout,
+      retry,
+    };
+  }
+
   if (!token) {
     throw new Error('JIRA_TOKEN environment variable is required');
   }
 
+  if (authType === 'basic') {
+    if (!email) {
+      throw new Error('JIRA_EMAIL environment variable is required for basic authentication');
+    }
+
+    return {
+      baseUrl,
+      auth: { type: 'basic', email, token },
+      apiVersion,
+      timeout,
+      retry,
+    };
+  }
+
+  if (authType === 'pat' || authType === 'bearer') {
+    return {
+      baseUrl,
+      auth: { type: authType, token },
+      apiVersion,
+      timeout,
+      retry,
+    };
+  }
+
   return {
     baseUrl,
     token,
     email,
     apiVersion,
     timeout,
+    retry,
   };
 }
 
@@ -49,13 +106,74 @@ export function createConfigFromEnv(): JiraClientConfig {
  * Create a configuration object from the provided options
  * @param config - The configuration options
  * @returns The configuration object with defaults applied
+ * @throws Error if the base URL or credentials are missing or incomplete
  */
-export function createConfig(config: JiraClientConfig): Required<JiraClientConfig> {
+export function createConfig(config: JiraClientConfig): ResolvedJiraClientConfig {
+  if (!config.baseUrl && !config.cloudId) {
+    throw new Error('Either baseUrl or cloudId is required');
+  }
+
+  const auth = config.authProvider ? undefined : resolveAuthConfig(config);
+
   return {
-    baseUrl: config.baseUrl,
+    baseUrl: config.cloudId ? `${ATLASSIAN_API_URL}/ex/jira/${config.cloudId}` : config.baseUrl!,
+    cloudId: config.cloudId ?? '',
     email: config.email ?? '',
-    token: config.token,
+    token: config.token ?? '',
+    auth,
+    authProvider: config.authProvider,
     apiVersion: config.apiVersion ?? DEFAULT_CONFIG.apiVersion!,
     timeout: config.timeout ?? DEFAULT_CONFIG.timeout!,
+    retry: createRetryOptions(config.retry),
+    rateLimit: createRateLimitOptions(config.rateLimit),
+    customFields: config.customFields ?? {},
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Work out the authentication mode, falling back to the legacy email and token options
+ * @param config - The configuration options
+ * @returns The validated authentication mode
+ * @throws Error if the credentials are missing or incomplete
+ */
+function resolveAuthConfig(config: JiraClientConfig): JiraAuthConfig {
+  if (!config.auth) {
+    if (!config.token) {
+      throw new Error('Either auth, token or authProvider is required');
+    }
+
+    return config.email
+      ? { type: 'basic', email: config.email, token: config.token }
+      : { type: 'bearer', token: config.token };
+  }
+
+  const auth = config.auth;
+  const requireFields = (fields: string[]): void => {
+    const values = auth as unknown as Record<string, unknown>;
+    const missing = fields.filter((field) => !values[field]);
+
+    if (missing.length > 0) {
+      throw new Error(`${auth.type} authentication requires ${missing.map((field) => `auth.${field}`).join(' and ')}`);
+    }
+  };
+
+  switch (auth.type) {
+    case 'basic':
+      requireFields(['email', 'token']);
+      break;
+    case 'bearer':
+    case 'pat':
+      requireFields(['token']);
+      break;
+    case 'session':
+      requireFields(['username', 'password']);
+      break;
+    case 'header':
+      requireFields(['name', 'value']);
+      break;
+    default:
+      throw new Error(`Unsupported authentication type: ${(auth as { type?: unknown }).type}`);
+  }
+
+  return auth;
+}
@@ -0,0 +1,104 @@
+/**
+ * Time tracking settings used to convert days and weeks to seconds
+ */
+export interface DurationOptions {
+  /** Working hours in a day (default: 8) */
+  hoursPerDay?: number;
+  /** Working days in a week (default: 5) */
+  daysPerWeek?: number;
+}
+
+/**
+ * Default Jira time tracking settings
+ */
+export const DEFAULT_DURATION_OPTIONS: Required<DurationOptions> = {
+  hoursPerDay: 8,
+  daysPerWeek: 5,
+};
+
+/**
+ * Units of a Jira duration, largest first
+ */
+const UNITS = ['w', 'd', 'h', 'm'] as const;
+
+/**
+ * Get the length of each duration unit in seconds
+ * @param options - The time tracking settings
+ * @returns The seconds per unit
+ */
+function getUnitSeconds(options?: DurationOptions): Record<(typeof UNITS)[number], number> {
+  const hoursPerDay = options?.hoursPerDay ?? DEFAULT_DURATION_OPTIONS.hoursPerDay;
+  const daysPerWeek = options?.daysPerWeek ?? DEFAULT_DURATION_OPTIONS.daysPerWeek;
+
+  return {
+    w: daysPerWeek * hoursPerDay * 3600,
+    d: hoursPerDay * 3600,
+    h: 3600,
+    m: 60,
+  };
+}
+
+/**
+ * Parse a Jira duration such as "1w 2d 3h 30m" or "1.5h" into seconds
+ * @param duration - The duration; a bare number is read as minutes, like Jira does
+ * @param options - The time tracking settings for days and weeks
+ * @returns The duration in seconds
+ * @throws Error if the duration is not valid
+ */
+export function parseDuration(duration: string, options?: DurationOptions): number {
+  const text = duration.trim().toLowerCase();
+  const unitSeconds = getUnitSeconds(options);
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * unitSeconds.m);
+  }
+
+  const pattern = /(\d+(?:\.\d+)?)\s*([wdhm])\s*/y;
+  let seconds = 0;
+  let matched = false;
+
+  while (pattern.lastIndex < text.length) {
+    const match = pattern.exec(text);
+
+    if (!match) {
+      throw new Error(`Invalid duration "${duration}": expected e.g. "1w 2d 3h 30m"`);
+    }
+
+    seconds += parseFloat(match[1]) * unitSeconds[match[2] as (typeof UNITS)[number]];
+    matched = true;
+  }
+
+  if (!matched) {
+    throw new Error(`Invalid duration "${duration}": expected e.g. "1w 2d 3h 30m"`);
+  }
+
+  return Math.round(seconds);
+}
+
+/**
+ * Format seconds as a Jira duration such as "1w 2d 3h 30m"
+ * @param seconds - The duration in seconds; rounded to the nearest minute, the smallest unit Jira accepts
+ * @param options - The time tracking settings for days and weeks
+ * @returns The duration, or "0m" for less than half a minute
+ * @throws Error if the seconds are negative or not finite
+ */
+export function formatDuration(seconds: number, options?: DurationOptions): string {
+  if (!isFinite(seconds) || seconds < 0) {
+    throw new Error(`Invalid duration: ${seconds} seconds`);
+  }
+
+  const unitSeconds = getUnitSeconds(options);
+  let remaining = Math.round(seconds / unitSeconds.m) * unitSeconds.m;
+  const parts: string[] = [];
+
+  for (const unit of UNITS) {
+    const count = Math.floor(remaining / unitSeconds[unit]);
+
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      remaining -= count * unitSeconds[unit];
+    }
+  }
+
+  return parts.length > 0 ? parts.join(' ') : '0m';
+}
@@ -1,5 +1,6 @@
 import axios, { AxiosError } from 'axios';
-import { JiraApiError } from '../types';
+import { JiraApiError, JiraTask } from '../types';
+import { normalizeHeaders } from './headers';
 
 /**
  * Custom error class for Jira API errors
@@ -11,59 +12,127 @@ export class JiraError extends Error {
   errors: Record<string, string>;
   /** The error messages */
   errorMessages: string[];
+  /** The response headers (lower-cased names) */
+  headers: Record<string, string>;
+  /** The network error code (e.g. ECONNREFUSED) when the request got no response */
+  code?: string;
+  /** The response body, for endpoints whose error body has its own shape */
+  data?: unknown;
 
   /**
    * Create a new JiraError
    * @param message - The error message
-   * @param status - The HTTP status code
+   * @param status - The HTTP status code, or 0 if the request got no response
    * @param errors - The error details
    * @param errorMessages - The error messages
+   * @param headers - The response headers
+   * @param code - The network error code
    */
   constructor(
     message: string,
     status: number = 500,
     errors: Record<string, string> = {},
-    errorMessages: string[] = []
+    errorMessages: string[] = [],
+    headers: Record<string, string> = {},
+    code?: string
   ) {
     super(message);
     this.name = 'JiraError';
     this.status = status;
     this.errors = errors;
     this.errorMessages = errorMessages;
+    this.headers = headers;
+    this.code = code;
+  }
+}
+
+/**
+ * Error for a long-running task that failed, was cancelled or did not finish in time
+ */
+export class JiraTaskError extends JiraError {
+  /** The task as last polled */
+  task: JiraTask;
+
+  /**
+   * Create a new JiraTaskError
+   * @param message - The error message
+   * @param task - The task as last polled
+   * @param status - The HTTP status code the failure corresponds to
+   */
+  constructor(message: string, task: JiraTask, status: number = 500) {
+    super(message, status);
+    this.name = 'JiraTaskError';
+    this.task = task;
   }
 }
 
 /**
  * Handle an error from the Jira API
+ *
+ * Errors without a response, such as network failures or exceptions thrown by middleware, get status 0
+ * rather than a server error status; network failures also carry their error code.
  * @param error - The error to handle
  * @returns A JiraError with the error details
  */
 export function handleApiError(error: unknown): JiraError {
+  if (error instanceof JiraError) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new JiraError('Request aborted', 0);
+  }
+
   if (axios.isAxiosError(error)) {
     const axiosError = error as AxiosError<JiraApiError>;
-    const status = axiosError.response?.status || 500;
-    const data = axiosError.response?.data;
+
+    if (!axiosError.response) {
+      return new JiraError(axiosError.message, 0, {}, [], {}, axiosError.code ?? 'ERR_NETWORK');
+    }
+
+    const { status, data } = axiosError.response;
+    const headers = normalizeHeaders(axiosError.response.headers);
 
     if (data) {
-      const errorMessages = data.errorMessages || [];
-      const errors = data.errors || {};
-      const message = errorMessages.length > 0 
-        ? errorMessages[0] 
-        : Object.keys(errors).length > 0 
-          ? `${Object.keys(errors)[0]}: ${Object.values(errors)[0]}`
-          : axiosError.message;
-
-      return new JiraError(message, status, errors, errorMessages);
+      const jiraError = createJiraError(data, status, axiosError.message, headers);
+      jiraError.data = data;
+      return jiraError;
     }
 
-    return new JiraError(axiosError.message, status);
+    return new JiraError(axiosError.message, status, {}, [], headers);
   }
 
   if (error instanceof Error) {
-    return new JiraError(error.message);
+    return new JiraError(error.message, 0);
   }
 
-  return new JiraError('Unknown error occurred');
+  return new JiraError('Unknown error occurred', 0);
+}
+
+/**
+ * Create a JiraError from an error body returned by the Jira API
+ * @param data - The error body
+ * @param status - The HTTP status code
+ * @param fallbackMessage - The message to use when the body has no error messages or details
+ * @param headers - The response headers
+ * @returns A JiraError whose message is the first error message, or else the first error detail
+ */
+export function createJiraError(
+  data: Partial<JiraApiError>,
+  status: number,
+  fallbackMessage: string,
+  headers: Record<string, string> = {}
+): JiraError {
+  const errorMessages = data.errorMessages || [];
+  // Some endpoints, such as bulk create, send a list of per-item errors instead of field errors
+  const errors = data.errors && !Array.isArray(data.errors) ? data.errors : {};
+  const message = errorMessages.length > 0 
+    ? errorMessages[0] 
+    : Object.keys(errors).length > 0 
+      ? `${Object.keys(errors)[0]}: ${Object.values(errors)[0]}`
+      : fallbackMessage;
+
+  return new JiraError(message, status, errors, errorMessages, headers);
 }
 
 /**
@@ -0,0 +1,97 @@
+import { CustomFieldDefinition, CustomFieldMap } from '../types';
+
+/**
+ * Declare a custom field for the `customFields` option
+ *
+ * @example
+ * const customFields = {
+ *   storyPoints: customField<number>('customfield_10016'),
+ *   team: customField<{ id: string; name: string }>('customfield_10001'),
+ * };
+ * @param id - The custom field ID, e.g. "customfield_10016"
+ * @returns The custom field definition
+ */
+export function customField<T>(id: string): CustomFieldDefinition<T> {
+  return { id };
+}
+
+/**
+ * Translates between friendly custom field names and custom field IDs
+ */
+export class CustomFieldMapper {
+  /** Custom field IDs by friendly name */
+  private readonly idsByName = new Map<string, string>();
+  /** Friendly names by custom field ID */
+  private readonly namesById = new Map<string, string>();
+
+  /**
+   * Create a new CustomFieldMapper
+   * @param customFields - The custom fields by friendly name
+   */
+  constructor(customFields: CustomFieldMap) {
+    for (const [name, definition] of Object.entries(customFields)) {
+      this.idsByName.set(name, definition.id);
+      this.namesById.set(definition.id, name);
+    }
+  }
+
+  /**
+   * Translate field names to the names the API expects
+   * @param names - Field names, friendly or not
+   * @returns The field names with friendly names replaced by IDs
+   */
+  toApiNames(names: string[]): string[] {
+    return names.map((name) => this.idsByName.get(name) ?? name);
+  }
+
+  /**
+   * Translate issue fields to the keys the API expects
+   * @param fields - Issue fields keyed by friendly name or ID
+   * @returns The fields keyed by ID
+   */
+  toApiFields<T extends object>(fields: T): Record<string, unknown> {
+    return this.renameKeys(fields, this.idsByName);
+  }
+
+  /**
+   * Translate issue fields returned by the API to friendly names
+   * @param fields - Issue fields keyed by ID
+   * @returns The fields with custom field IDs replaced by friendly names
+   */
+  fromApiFields<T extends object>(fields: T): Record<string, unknown> {
+    return this.renameKeys(fields, this.namesById);
+  }
+
+  /**
+   * Translate the fields of an issue returned by the API to friendly names
+   * @param issue - The issue
+   * @returns The issue with its fields keyed by friendly name
+   */
+  fromApiIssue<T extends { fields?: object }>(issue: T): T {
+    if (this.namesById.size === 0 || !issue.fields) {
+      return issue;
+    }
+
+    return { ...issue, fields: this.fromApiFields(issue.fields) };
+  }
+
+  /**
+   * Rename the keys of an object
+   * @param values - The object
+   * @param names - The new names by old name
+   * @returns A copy of the object with renamed keys
+   */
+  private renameKeys(values: object, names: Map<string, string>): Record<string, unknown> {
+    if (names.size === 0) {
+      return values as Record<string, unknown>;
+    }
+
+    const renamed: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(values)) {
+      renamed[names.get(key) ?? key] = value;
+    }
+
+    return renamed;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Normalize HTTP headers to a plain object with lower-cased names
+ * @param headers - The headers to normalize, e.g. from an Axios response
+ * @returns The normalized headers
+ */
+export function normalizeHeaders(headers: unknown): Record<string, string> {
+  if (!headers || typeof headers !== 'object') {
+    return {};
+  }
+
+  const source = typeof (headers as { toJSON?: unknown }).toJSON === 'function'
+    ? (headers as { toJSON: () => Record<string, unknown> }).toJSON()
+    : headers as Record<string, unknown>;
+  const normalized: Record<string, string> = {};
+
+  for (const name of Object.keys(source)) {
+    const value = source[name];
+
+    if (value !== undefined && value !== null) {
+      normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+
+  return normalized;
+}
@@ -0,0 +1,116 @@
+import { JiraChangelogEntry } from '../types';
+
+/**
+ * Value of a field at a point in time, as recorded in the changelog
+ */
+export interface ChangelogFieldValue {
+  /** The raw value, e.g. a status ID; null if the field was empty */
+  value: string | null;
+  /** The display value, e.g. a status name */
+  displayValue: string | null;
+}
+
+/**
+ * Change of one field, with who made it and when
+ */
+export interface FieldChange {
+  /** The field ID, or the field name for changelog items without one */
+  fieldId: string;
+  /** The field name */
+  field: string;
+  /** The ID of the changelog entry */
+  changelogId: string;
+  /** The user who made the change */
+  author?: JiraChangelogEntry['author'];
+  /** When the change was made */
+  created: string;
+  /** The value before the change */
+  from: ChangelogFieldValue;
+  /** The value after the change */
+  to: ChangelogFieldValue;
+}
+
+/**
+ * Flatten changelog entries into field changes, oldest first
+ * @param histories - The changelog entries, in any order
+ * @param fieldIds - Only return changes of these fields, by ID or name (default: all fields)
+ * @returns The field changes, in the order they were made
+ */
+export function getFieldChanges(histories: JiraChangelogEntry[], fieldIds?: string[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const entry of sortChangelog(histories)) {
+    for (const item of entry.items) {
+      const fieldId = item.fieldId ?? item.field;
+
+      if (fieldIds && !fieldIds.includes(fieldId) && !fieldIds.includes(item.field)) {
+        continue;
+      }
+
+      changes.push({
+        fieldId,
+        field: item.field,
+        changelogId: entry.id,
+        author: entry.author,
+        created: entry.created,
+        from: { value: item.from, displayValue: item.fromString },
+        to: { value: item.to, displayValue: item.toString },
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Rebuild the values that fields had at a point in time from the changelog
+ *
+ * Only fields that appear in the changelog are returned: a field never changed still has its current value.
+ * @param histories - Every changelog entry of the issue, in any order
+ * @param at - The point in time
+ * @returns The value of each changed field at that time, keyed by field ID (or name for items without one)
+ */
+export function getFieldValuesAt(
+  histories: JiraChangelogEntry[],
+  at: Date | string | number
+): Record<string, ChangelogFieldValue> {
+  const time = toTime(at);
+  const values: Record<string, ChangelogFieldValue> = {};
+
+  for (const change of getFieldChanges(histories)) {
+    if (toTime(change.created) <= time) {
+      // The latest change made by then sets the value
+      values[change.fieldId] = change.to;
+    } else if (!(change.fieldId in values)) {
+      // A field first changed afterwards had the value it was changed from
+      values[change.fieldId] = change.from;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Sort changelog entries by when they were made
+ * @param histories - The changelog entries
+ * @returns A sorted copy, oldest first; entries made at the same time are ordered by ID
+ */
+export function sortChangelog(histories: JiraChangelogEntry[]): JiraChangelogEntry[] {
+  return [...histories].sort((a, b) => toTime(a.created) - toTime(b.created) || Number(a.id) - Number(b.id));
+}
+
+/**
+ * Convert a point in time to milliseconds since the epoch
+ * @param time - The time, as a Date, a date string or milliseconds
+ * @returns The milliseconds since the epoch
+ * @throws Error if the date string cannot be parsed
+ */
+function toTime(time: Date | string | number): number {
+  const value = time instanceof Date ? time.getTime() : typeof time === 'number' ? time : Date.parse(time);
+
+  if (isNaN(value)) {
+    throw new Error(`Invalid date: ${String(time)}`);
+  }
+
+  return value;
+}
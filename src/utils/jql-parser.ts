@@ -0,0 +1,555 @@
+import {
+  JqlAst,
+  JqlClauseNode,
+  JqlNode,
+  JqlOperand,
+  JqlOperator,
+  JqlOrderByField,
+  JqlPredicate
+} from '../types';
+
+/**
+ * Error for a JQL query that cannot be parsed
+ */
+export class JqlSyntaxError extends Error {
+  /** Offset of the error in the query */
+  position: number;
+  /** Line of the error (1-based) */
+  line: number;
+  /** Column of the error (1-based) */
+  column: number;
+
+  /**
+   * Create a new JqlSyntaxError
+   * @param message - The error message
+   * @param query - The query that failed to parse
+   * @param position - Offset of the error in the query
+   */
+  constructor(message: string, query: string, position: number) {
+    const before = query.slice(0, position).split('\n');
+    const line = before.length;
+    const column = before[before.length - 1].length + 1;
+
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'JqlSyntaxError';
+    this.position = position;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * JQL token
+ */
+interface Token {
+  /** The token type */
+  type: 'word' | 'string' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'end';
+  /** The token text, unescaped for strings */
+  value: string;
+  /** Offset of the first character */
+  start: number;
+  /** Offset after the last character */
+  end: number;
+}
+
+/**
+ * Characters that end an unquoted word
+ */
+const WORD_DELIMITERS = /[\s=!<>~(),"'&|]/;
+
+/**
+ * Comparison operators, longest first
+ */
+const SYMBOL_OPERATORS = ['!=', '>=', '<=', '!~', '&&', '||', '=', '>', '<', '~', '!', '&', '|'];
+
+/**
+ * Keywords that start a history predicate
+ */
+const PREDICATES = ['from', 'to', 'by', 'after', 'before', 'on', 'during'] as const;
+
+/**
+ * Split a JQL query into tokens
+ * @param query - The JQL query
+ * @returns The tokens, ending with an end token
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+
+      while (i < query.length && query[i] !== ch) {
+        if (query[i] === '\\' && i + 1 < query.length) {
+          i++;
+        }
+
+        value += query[i];
+        i++;
+      }
+
+      if (i >= query.length) {
+        throw new JqlSyntaxError('Unterminated string', query, start);
+      }
+
+      i++;
+      tokens.push({ type: 'string', value, start, end: i });
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === ',') {
+      i++;
+      tokens.push({ type: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma', value: ch, start, end: i });
+      continue;
+    }
+
+    const operator = SYMBOL_OPERATORS.find((symbol) => query.startsWith(symbol, i));
+
+    if (operator) {
+      i += operator.length;
+      tokens.push({ type: 'operator', value: operator, start, end: i });
+      continue;
+    }
+
+    let value = '';
+
+    while (i < query.length && !WORD_DELIMITERS.test(query[i])) {
+      if (query[i] === '\\' && i + 1 < query.length) {
+        i++;
+      }
+
+      value += query[i];
+      i++;
+    }
+
+    tokens.push({ type: 'word', value, start, end: i });
+  }
+
+  tokens.push({ type: 'end', value: '', start: query.length, end: query.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for JQL
+ */
+class JqlParser {
+  /** The tokens of the query */
+  private readonly tokens: Token[];
+  /** Index of the current token */
+  private index = 0;
+
+  /**
+   * Create a new JqlParser
+   * @param query - The JQL query
+   */
+  constructor(private readonly query: string) {
+    this.tokens = tokenize(query);
+  }
+
+  /**
+   * Parse the query
+   * @returns The syntax tree
+   */
+  parse(): JqlAst {
+    const where = this.isKeyword('order') || this.peek().type === 'end' ? undefined : this.parseOr();
+    const orderBy = this.isKeyword('order') ? this.parseOrderBy() : [];
+
+    if (this.peek().type !== 'end') {
+      throw this.error(`Unexpected ${this.describe(this.peek())}`);
+    }
+
+    return { where, orderBy };
+  }
+
+  /**
+   * Parse clauses joined with OR
+   * @returns The node
+   */
+  private parseOr(): JqlNode {
+    const clauses = [this.parseAnd()];
+
+    while (this.isKeyword('or') || this.isOperator('||') || this.isOperator('|')) {
+      this.index++;
+      clauses.push(this.parseAnd());
+    }
+
+    return clauses.length === 1 ? clauses[0] : this.logical('or', clauses);
+  }
+
+  /**
+   * Parse clauses joined with AND
+   * @returns The node
+   */
+  private parseAnd(): JqlNode {
+    const clauses = [this.parseNot()];
+
+    while (this.isKeyword('and') || this.isOperator('&&') || this.isOperator('&')) {
+      this.index++;
+      clauses.push(this.parseNot());
+    }
+
+    return clauses.length === 1 ? clauses[0] : this.logical('and', clauses);
+  }
+
+  /**
+   * Parse a clause, a negated clause or a parenthesized group
+   * @returns The node
+   */
+  private parseNot(): JqlNode {
+    const token = this.peek();
+
+    if (this.isKeyword('not') || this.isOperator('!')) {
+      this.index++;
+      const clause = this.parseNot();
+      return { type: 'not', clause, start: token.start, end: clause.end };
+    }
+
+    if (token.type === 'lparen') {
+      this.index++;
+      const node = this.parseOr();
+      this.expect('rparen', '")"');
+      return node;
+    }
+
+    return this.parseClause();
+  }
+
+  /**
+   * Parse a field clause
+   * @returns The clause
+   */
+  private parseClause(): JqlClauseNode {
+    const fieldToken = this.next();
+
+    if (fieldToken.type !== 'word' && fieldToken.type !== 'string') {
+      throw this.error(`Expected a field name but found ${this.describe(fieldToken)}`, fieldToken);
+    }
+
+    const operator = this.parseOperator(fieldToken);
+    const operand = operator === 'changed' ? undefined : this.parseOperand();
+    const predicates = operator === 'changed' || operator.startsWith('was') ? this.parsePredicates() : [];
+    const end = predicates.length > 0
+      ? predicates[predicates.length - 1].end
+      : operand?.end ?? this.tokens[this.index - 1].end;
+
+    if (operand?.type === 'list' && !['in', 'not in', 'was in', 'was not in'].includes(operator)) {
+      throw this.error(`The "${operator}" operator does not accept a list`, operand);
+    }
+
+    if (operand?.type === 'empty' && !['=', '!=', 'is', 'is not', 'was', 'was not'].includes(operator)) {
+      throw this.error(`The "${operator}" operator does not accept EMPTY`, operand);
+    }
+
+    return { type: 'clause', field: fieldToken.value, operator, operand, predicates, start: fieldToken.start, end };
+  }
+
+  /**
+   * Parse the operator of a clause
+   * @param fieldToken - The field of the clause
+   * @returns The operator
+   */
+  private parseOperator(fieldToken: Token): JqlOperator {
+    const token = this.next();
+
+    if (token.type === 'operator' && ['=', '!=', '>', '>=', '<', '<=', '~', '!~'].includes(token.value)) {
+      return token.value as JqlOperator;
+    }
+
+    const keyword = token.type === 'word' ? token.value.toLowerCase() : '';
+
+    switch (keyword) {
+      case 'in':
+      case 'changed':
+        return keyword;
+      case 'not':
+        this.expectKeyword('in');
+        return 'not in';
+      case 'is':
+        return this.acceptKeyword('not') ? 'is not' : 'is';
+      case 'was': {
+        const negated = this.acceptKeyword('not');
+        const list = this.acceptKeyword('in');
+        return `was${negated ? ' not' : ''}${list ? ' in' : ''}` as JqlOperator;
+      }
+    }
+
+    throw this.error(`Expected an operator after "${fieldToken.value}" but found ${this.describe(token)}`, token);
+  }
+
+  /**
+   * Parse an operand: a value, function call, list, or EMPTY/NULL
+   * @returns The operand
+   */
+  private parseOperand(): JqlOperand {
+    const token = this.next();
+
+    if (token.type === 'lparen') {
+      const values: JqlOperand[] = [];
+
+      if (this.peek().type !== 'rparen') {
+        do {
+          values.push(this.parseOperand());
+        } while (this.accept('comma'));
+      }
+
+      const close = this.expect('rparen', '")" or ","');
+      return { type: 'list', values, start: token.start, end: close.end };
+    }
+
+    if (token.type === 'string') {
+      return { type: 'value', value: token.value, quoted: true, start: token.start, end: token.end };
+    }
+
+    if (token.type !== 'word') {
+      throw this.error(`Expected a value but found ${this.describe(token)}`, token);
+    }
+
+    if (['empty', 'null'].includes(token.value.toLowerCase())) {
+      return { type: 'empty', start: token.start, end: token.end };
+    }
+
+    if (this.peek().type === 'lparen') {
+      this.index++;
+      const args: string[] = [];
+
+      if (this.peek().type !== 'rparen') {
+        do {
+          const arg = this.next();
+
+          if (arg.type !== 'word' && arg.type !== 'string') {
+            throw this.error(`Expected a function argument but found ${this.describe(arg)}`, arg);
+          }
+
+          args.push(arg.value);
+        } while (this.accept('comma'));
+      }
+
+      const close = this.expect('rparen', '")" or ","');
+      return { type: 'function', name: token.value, args, start: token.start, end: close.end };
+    }
+
+    return { type: 'value', value: token.value, quoted: false, start: token.start, end: token.end };
+  }
+
+  /**
+   * Parse the predicates of a WAS or CHANGED clause
+   * @returns The predicates
+   */
+  private parsePredicates(): JqlPredicate[] {
+    const predicates: JqlPredicate[] = [];
+
+    for (;;) {
+      const token = this.peek();
+      const type = PREDICATES.find((predicate) => this.isKeyword(predicate));
+
+      if (!type) {
+        return predicates;
+      }
+
+      this.index++;
+      const operand = this.parseOperand();
+
+      if (type === 'during' && (operand.type !== 'list' || operand.values.length !== 2)) {
+        throw this.error('DURING expects two dates, e.g. DURING ("2024-01-01", "2024-01-31")', operand);
+      }
+
+      predicates.push({ type, operand, start: token.start, end: operand.end });
+    }
+  }
+
+  /**
+   * Parse an ORDER BY clause
+   * @returns The ORDER BY fields
+   */
+  private parseOrderBy(): JqlOrderByField[] {
+    this.index++;
+    this.expectKeyword('by');
+    const fields: JqlOrderByField[] = [];
+
+    do {
+      const token = this.next();
+
+      if (token.type !== 'word' && token.type !== 'string') {
+        throw this.error(`Expected a field name but found ${this.describe(token)}`, token);
+      }
+
+      const direction = this.isKeyword('asc') || this.isKeyword('desc')
+        ? this.next().value.toLowerCase() as 'asc' | 'desc'
+        : undefined;
+
+      fields.push({
+        field: token.value,
+        ...(direction ? { direction } : {}),
+        start: token.start,
+        end: this.tokens[this.index - 1].end,
+      });
+    } while (this.accept('comma'));
+
+    return fields;
+  }
+
+  /**
+   * Create a logical node
+   * @param type - AND or OR
+   * @param clauses - The joined clauses
+   * @returns The node
+   */
+  private logical(type: 'and' | 'or', clauses: JqlNode[]): JqlNode {
+    return { type, clauses, start: clauses[0].start, end: clauses[clauses.length - 1].end };
+  }
+
+  /**
+   * Get the current token
+   * @returns The current token
+   */
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  /**
+   * Get the current token and move past it
+   * @returns The current token
+   */
+  private next(): Token {
+    const token = this.tokens[this.index];
+
+    if (token.type !== 'end') {
+      this.index++;
+    }
+
+    return token;
+  }
+
+  /**
+   * Move past the current token if it has a type
+   * @param type - The token type
+   * @returns Whether the token was consumed
+   */
+  private accept(type: Token['type']): boolean {
+    if (this.peek().type === type) {
+      this.index++;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Move past the current token, which must have a type
+   * @param type - The token type
+   * @param expected - Description of the expected token for the error message
+   * @returns The token
+   */
+  private expect(type: Token['type'], expected: string): Token {
+    const token = this.peek();
+
+    if (token.type !== type) {
+      throw this.error(`Expected ${expected} but found ${this.describe(token)}`, token);
+    }
+
+    this.index++;
+    return token;
+  }
+
+  /**
+   * Check whether the current token is a keyword
+   * @param keyword - The keyword, in lower case
+   * @returns Whether the current token is the keyword
+   */
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  /**
+   * Check whether the current token is a symbol operator
+   * @param operator - The operator
+   * @returns Whether the current token is the operator
+   */
+  private isOperator(operator: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === operator;
+  }
+
+  /**
+   * Move past the current token if it is a keyword
+   * @param keyword - The keyword, in lower case
+   * @returns Whether the keyword was consumed
+   */
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.index++;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Move past the current token, which must be a keyword
+   * @param keyword - The keyword, in lower case
+   */
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw this.error(`Expected "${keyword.toUpperCase()}" but found ${this.describe(this.peek())}`);
+    }
+  }
+
+  /**
+   * Describe a token for an error message
+   * @param token - The token
+   * @returns The description
+   */
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'the end of the query' : `"${this.query.slice(token.start, token.end)}"`;
+  }
+
+  /**
+   * Create a syntax error
+   * @param message - The error message
+   * @param at - The token or node the error is at (default: the current token)
+   * @returns The error
+   */
+  private error(message: string, at: { start: number } = this.peek()): JqlSyntaxError {
+    return new JqlSyntaxError(message, this.query, at.start);
+  }
+}
+
+/**
+ * Parse a JQL query into a syntax tree
+ * @param query - The JQL query
+ * @returns The syntax tree
+ * @throws JqlSyntaxError if the query is not valid JQL
+ */
+export function parseJql(query: string): JqlAst {
+  return new JqlParser(query).parse();
+}
+
+/**
+ * Check a JQL query for syntax errors without contacting Jira
+ * @param query - The JQL query
+ * @returns The syntax error, or undefined if the query is valid
+ */
+export function checkJqlSyntax(query: string): JqlSyntaxError | undefined {
+  try {
+    parseJql(query);
+    return undefined;
+  } catch (error) {
+    if (error instanceof JqlSyntaxError) {
+      return error;
+    }
+
+    throw error;
+  }
+}
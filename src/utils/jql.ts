@@ -0,0 +1,619 @@
+/**
+ * A JQL function call such as `currentUser()` or `startOfDay(-1)`
+ */
+export class JqlFunction {
+  /**
+   * Create a new JqlFunction
+   * @param name - The function name
+   * @param args - The function arguments
+   */
+  constructor(readonly name: string, readonly args: Array<string | number> = []) {}
+
+  /**
+   * Get the JQL for the function call
+   * @returns The function call, with string arguments quoted
+   */
+  toString(): string {
+    return `${this.name}(${this.args.map((arg) => (typeof arg === 'number' ? `${arg}` : quoteJql(arg))).join(', ')})`;
+  }
+}
+
+/**
+ * A value in a JQL clause: strings are quoted, numbers and functions are not
+ */
+export type JqlValue = string | number | Date | JqlFunction;
+
+/**
+ * A JQL query, as a string or a builder
+ */
+export type JqlQuery = string | JqlBuilder;
+
+/**
+ * Sort direction of an ORDER BY field
+ */
+export type JqlSortDirection = 'ASC' | 'DESC';
+
+/**
+ * Predicates narrowing a WAS or CHANGED clause to part of the issue history
+ */
+export interface JqlHistoryPredicates {
+  /** The value the field changed from */
+  from?: JqlValue;
+  /** The value the field changed to */
+  to?: JqlValue;
+  /** The user who made the change */
+  by?: JqlValue;
+  /** Only changes after this date */
+  after?: JqlValue;
+  /** Only changes before this date */
+  before?: JqlValue;
+  /** Only changes on this date */
+  on?: JqlValue;
+  /** Only changes between these dates */
+  during?: [JqlValue, JqlValue];
+}
+
+/**
+ * Common JQL functions
+ */
+export const jqlFunctions = {
+  /**
+   * Call any JQL function
+   * @param name - The function name
+   * @param args - The function arguments
+   * @returns The function call
+   */
+  call: (name: string, ...args: Array<string | number>): JqlFunction => new JqlFunction(name, args),
+  /** The logged-in user */
+  currentUser: (): JqlFunction => new JqlFunction('currentUser'),
+  /** The sprints that are active */
+  openSprints: (): JqlFunction => new JqlFunction('openSprints'),
+  /** The sprints that are complete */
+  closedSprints: (): JqlFunction => new JqlFunction('closedSprints'),
+  /** The sprints that have not started */
+  futureSprints: (): JqlFunction => new JqlFunction('futureSprints'),
+  /** The current time */
+  now: (): JqlFunction => new JqlFunction('now'),
+  /**
+   * The start of the current day
+   * @param offset - Offset such as "-1" or "+2d"
+   * @returns The function call
+   */
+  startOfDay: (offset?: string | number): JqlFunction => withOffset('startOfDay', offset),
+  /**
+   * The end of the current day
+   * @param offset - Offset such as "-1" or "+2d"
+   * @returns The function call
+   */
+  endOfDay: (offset?: string | number): JqlFunction => withOffset('endOfDay', offset),
+  /**
+   * The start of the current week
+   * @param offset - Offset such as "-1" or "+1w"
+   * @returns The function call
+   */
+  startOfWeek: (offset?: string | number): JqlFunction => withOffset('startOfWeek', offset),
+  /**
+   * The end of the current week
+   * @param offset - Offset such as "-1" or "+1w"
+   * @returns The function call
+   */
+  endOfWeek: (offset?: string | number): JqlFunction => withOffset('endOfWeek', offset),
+  /**
+   * The start of the current month
+   * @param offset - Offset such as "-1" or "+1M"
+   * @returns The function call
+   */
+  startOfMonth: (offset?: string | number): JqlFunction => withOffset('startOfMonth', offset),
+  /**
+   * The end of the current month
+   * @param offset - Offset such as "-1" or "+1M"
+   * @returns The function call
+   */
+  endOfMonth: (offset?: string | number): JqlFunction => withOffset('endOfMonth', offset),
+  /**
+   * The members of a group
+   * @param group - The group name
+   * @returns The function call
+   */
+  membersOf: (group: string): JqlFunction => new JqlFunction('membersOf', [group]),
+  /** The issues the logged-in user has recently viewed */
+  issueHistory: (): JqlFunction => new JqlFunction('issueHistory'),
+  /**
+   * The released versions of a project
+   * @param project - The project key or name
+   * @returns The function call
+   */
+  releasedVersions: (project?: string): JqlFunction => new JqlFunction('releasedVersions', project ? [project] : []),
+  /**
+   * The unreleased versions of a project
+   * @param project - The project key or name
+   * @returns The function call
+   */
+  unreleasedVersions: (project?: string): JqlFunction => new JqlFunction('unreleasedVersions', project ? [project] : []),
+};
+
+/**
+ * Words JQL reserves, which must be quoted when used as field names
+ */
+const RESERVED_WORDS = new Set([
+  'a', 'an', 'abort', 'access', 'add', 'after', 'alias', 'all', 'alter', 'and', 'any', 'are', 'as', 'asc', 'at',
+  'audit', 'avg', 'be', 'before', 'begin', 'between', 'boolean', 'break', 'but', 'by', 'byte', 'catch', 'cf',
+  'char', 'character', 'check', 'checkpoint', 'collate', 'collation', 'column', 'commit', 'connect', 'continue',
+  'count', 'create', 'current', 'date', 'decimal', 'declare', 'decrement', 'default', 'defaults', 'define', 'delete',
+  'delimiter', 'desc', 'difference', 'distinct', 'divide', 'do', 'double', 'drop', 'else', 'empty', 'encoding',
+  'end', 'equals', 'escape', 'exclusive', 'exec', 'execute', 'exists', 'explain', 'false', 'fetch', 'file', 'field',
+  'first', 'float', 'for', 'from', 'function', 'go', 'goto', 'grant', 'greater', 'group', 'having', 'identified',
+  'if', 'immediate', 'in', 'increment', 'index', 'initial', 'inner', 'inout', 'input', 'insert', 'int', 'integer',
+  'intersect', 'intersection', 'into', 'is', 'isempty', 'isnull', 'join', 'last', 'left', 'less', 'like', 'limit',
+  'lock', 'long', 'max', 'min', 'minus', 'mode', 'modify', 'modulo', 'more', 'multiply', 'next', 'noaudit', 'not',
+  'notin', 'nowait', 'null', 'number', 'object', 'of', 'on', 'option', 'or', 'order', 'outer', 'output', 'power',
+  'previous', 'prior', 'privileges', 'public', 'raise', 'raw', 'remainder', 'rename', 'resource', 'return',
+  'returns', 'revoke', 'right', 'row', 'rowid', 'rownum', 'rows', 'select', 'session', 'set', 'share', 'size',
+  'sqrt', 'start', 'strict', 'string', 'subtract', 'sum', 'synonym', 'table', 'then', 'to', 'trans', 'transaction',
+  'trigger', 'true', 'uid', 'union', 'unique', 'update', 'user', 'validate', 'values', 'view', 'was', 'when',
+  'whenever', 'where', 'while', 'with',
+]);
+
+/**
+ * A condition on a single field, completed by choosing an operator
+ */
+export class JqlFieldClause {
+  /**
+   * Create a new JqlFieldClause
+   * @param builder - The builder the clause is added to
+   * @param field - The field name
+   * @param add - Adds the finished clause to the builder
+   */
+  constructor(
+    private readonly builder: JqlBuilder,
+    private readonly field: string,
+    private readonly add: (clause: string) => void
+  ) {}
+
+  /**
+   * Match issues where the field equals a value
+   * @param value - The value
+   * @returns The builder, for chaining
+   */
+  eq(value: JqlValue): JqlBuilder {
+    return this.compare('=', value);
+  }
+
+  /**
+   * Match issues where the field does not equal a value
+   * @param value - The value
+   * @returns The builder, for chaining
+   */
+  notEq(value: JqlValue): JqlBuilder {
+    return this.compare('!=', value);
+  }
+
+  /**
+   * Match issues where the field is greater than a value
+   * @param value - The value
+   * @returns The builder, for chaining
+   */
+  gt(value: JqlValue): JqlBuilder {
+    return this.compare('>', value);
+  }
+
+  /**
+   * Match issues where the field is greater than or equal to a value
+   * @param value - The value
+   * @returns The builder, for chaining
+   */
+  gte(value: JqlValue): JqlBuilder {
+    return this.compare('>=', value);
+  }
+
+  /**
+   * Match issues where the field is less than a value
+   * @param value - The value
+   * @returns The builder, for chaining
+   */
+  lt(value: JqlValue): JqlBuilder {
+    return this.compare('<', value);
+  }
+
+  /**
+   * Match issues where the field is less than or equal to a value
+   * @param value - The value
+   * @returns The builder, for chaining
+   */
+  lte(value: JqlValue): JqlBuilder {
+    return this.compare('<=', value);
+  }
+
+  /**
+   * Match issues where the field is one of several values
+   * @param values - The values, or a function returning a list such as `openSprints()`
+   * @returns The builder, for chaining
+   * @throws Error if the list of values is empty, which is not valid JQL
+   */
+  in(values: JqlValue[] | JqlFunction): JqlBuilder {
+    return this.compare('in', values);
+  }
+
+  /**
+   * Match issues where the field is none of several values
+   * @param values - The values, or a function returning a list such as `membersOf("jira-admins")`
+   * @returns The builder, for chaining
+   * @throws Error if the list of values is empty, which is not valid JQL
+   */
+  notIn(values: JqlValue[] | JqlFunction): JqlBuilder {
+    return this.compare('not in', values);
+  }
+
+  /**
+   * Match issues where a text field contains some text
+   * @param text - The text to search for
+   * @returns The builder, for chaining
+   */
+  contains(text: string): JqlBuilder {
+    return this.compare('~', text);
+  }
+
+  /**
+   * Match issues where a text field does not contain some text
+   * @param text - The text to search for
+   * @returns The builder, for chaining
+   */
+  notContains(text: string): JqlBuilder {
+    return this.compare('!~', text);
+  }
+
+  /**
+   * Match issues where the field has no value
+   * @returns The builder, for chaining
+   */
+  isEmpty(): JqlBuilder {
+    return this.finish('is EMPTY');
+  }
+
+  /**
+   * Match issues where the field has a value
+   * @returns The builder, for chaining
+   */
+  isNotEmpty(): JqlBuilder {
+    return this.finish('is not EMPTY');
+  }
+
+  /**
+   * Match issues where the field had a value at some point
+   * @param value - The value
+   * @param predicates - Predicates narrowing the history searched
+   * @returns The builder, for chaining
+   */
+  was(value: JqlValue, predicates?: JqlHistoryPredicates): JqlBuilder {
+    return this.compare('was', value, predicates);
+  }
+
+  /**
+   * Match issues where the field never had a value
+   * @param value - The value
+   * @param predicates - Predicates narrowing the history searched
+   * @returns The builder, for chaining
+   */
+  wasNot(value: JqlValue, predicates?: JqlHistoryPredicates): JqlBuilder {
+    return this.compare('was not', value, predicates);
+  }
+
+  /**
+   * Match issues where the field had one of several values at some point
+   * @param values - The values
+   * @param predicates - Predicates narrowing the history searched
+   * @returns The builder, for chaining
+   * @throws Error if the list of values is empty, which is not valid JQL
+   */
+  wasIn(values: JqlValue[], predicates?: JqlHistoryPredicates): JqlBuilder {
+    return this.compare('was in', values, predicates);
+  }
+
+  /**
+   * Match issues where the field never had any of several values
+   * @param values - The values
+   * @param predicates - Predicates narrowing the history searched
+   * @returns The builder, for chaining
+   * @throws Error if the list of values is empty, which is not valid JQL
+   */
+  wasNotIn(values: JqlValue[], predicates?: JqlHistoryPredicates): JqlBuilder {
+    return this.compare('was not in', values, predicates);
+  }
+
+  /**
+   * Match issues where the field has changed
+   * @param predicates - Predicates narrowing the history searched
+   * @returns The builder, for chaining
+   */
+  changed(predicates?: JqlHistoryPredicates): JqlBuilder {
+    return this.finish(`changed${formatPredicates(predicates)}`);
+  }
+
+  /**
+   * Add a clause comparing the field with a value
+   * @param operator - The operator
+   * @param value - The value or values
+   * @param predicates - Predicates for history operators
+   * @returns The builder, for chaining
+   * @throws Error if the list of values is empty
+   */
+  private compare(operator: string, value: JqlValue | JqlValue[], predicates?: JqlHistoryPredicates): JqlBuilder {
+    if (Array.isArray(value) && value.length === 0) {
+      throw new Error(`JQL "${operator}" on ${this.field} needs at least one value`);
+    }
+
+    const formatted = Array.isArray(value) ? `(${value.map(formatJqlValue).join(', ')})` : formatJqlValue(value);
+    return this.finish(`${operator} ${formatted}${formatPredicates(predicates)}`);
+  }
+
+  /**
+   * Add the clause to the builder
+   * @param condition - The operator and operand
+   * @returns The builder, for chaining
+   */
+  private finish(condition: string): JqlBuilder {
+    this.add(`${formatJqlField(this.field)} ${condition}`);
+    return this.builder;
+  }
+}
+
+/**
+ * Fluent builder for JQL queries
+ *
+ * Clauses are joined in the order they are added, so JQL precedence applies (AND binds tighter than OR);
+ * pass a callback to `and`/`or` to group clauses in parentheses.
+ *
+ * @example
+ * const query = jql()
+ *   .where('project').eq('PROJ')
+ *   .and('assignee').eq(jqlFunctions.currentUser())
+ *   .and((q) => q.where('status').in(['To Do', 'In Progress']).or('labels').eq('urgent'))
+ *   .orderBy('priority', 'DESC')
+ *   .build();
+ */
+export class JqlBuilder {
+  /** The clauses, each with the keyword joining it to the previous one */
+  private readonly clauses: Array<{ connector: 'AND' | 'OR'; clause: string }> = [];
+  /** The ORDER BY fields */
+  private readonly order: string[] = [];
+
+  /**
+   * Start a clause on a field, joined with AND to any previous clause
+   * @param field - The field name
+   * @returns The clause, completed by choosing an operator
+   */
+  where(field: string): JqlFieldClause {
+    return this.and(field);
+  }
+
+  /**
+   * Add a clause joined with AND
+   * @param field - The field name, or a callback building a parenthesized group
+   * @returns The clause for a field, or the builder for a group
+   */
+  and(field: string): JqlFieldClause;
+  and(group: (builder: JqlBuilder) => void): this;
+  and(fieldOrGroup: string | ((builder: JqlBuilder) => void)): JqlFieldClause | this {
+    return this.join('AND', fieldOrGroup);
+  }
+
+  /**
+   * Add a clause joined with OR
+   * @param field - The field name, or a callback building a parenthesized group
+   * @returns The clause for a field, or the builder for a group
+   */
+  or(field: string): JqlFieldClause;
+  or(group: (builder: JqlBuilder) => void): this;
+  or(fieldOrGroup: string | ((builder: JqlBuilder) => void)): JqlFieldClause | this {
+    return this.join('OR', fieldOrGroup);
+  }
+
+  /**
+   * Add a negated, parenthesized group joined with AND
+   * @param group - Callback building the group
+   * @returns The builder, for chaining
+   */
+  not(group: (builder: JqlBuilder) => void): this {
+    const clause = buildGroup(group);
+
+    if (clause) {
+      this.clauses.push({ connector: 'AND', clause: `NOT ${clause}` });
+    }
+
+    return this;
+  }
+
+  /**
+   * Add a JQL clause as written, joined with AND
+   * @param clause - The JQL clause
+   * @returns The builder, for chaining
+   */
+  raw(clause: string): this {
+    this.clauses.push({ connector: 'AND', clause: `(${clause})` });
+    return this;
+  }
+
+  /**
+   * Add a field to sort by
+   * @param field - The field name
+   * @param direction - The sort direction
+   * @returns The builder, for chaining
+   */
+  orderBy(field: string, direction?: JqlSortDirection): this {
+    this.order.push(direction ? `${formatJqlField(field)} ${direction}` : formatJqlField(field));
+    return this;
+  }
+
+  /**
+   * Get the JQL query
+   * @returns The JQL query
+   */
+  build(): string {
+    const orderBy = this.order.length > 0 ? `ORDER BY ${this.order.join(', ')}` : '';
+    return [this.whereClause(), orderBy].filter(Boolean).join(' ');
+  }
+
+  /**
+   * Get the JQL query without ORDER BY
+   * @returns The clauses of the query
+   */
+  whereClause(): string {
+    return this.clauses
+      .map(({ connector, clause }, index) => (index === 0 ? clause : `${connector} ${clause}`))
+      .join(' ');
+  }
+
+  /**
+   * Get the JQL query
+   * @returns The JQL query
+   */
+  toString(): string {
+    return this.build();
+  }
+
+  /**
+   * Add a field clause or group with a connector
+   * @param connector - The keyword joining the clause to the previous one
+   * @param fieldOrGroup - The field name, or a callback building a parenthesized group
+   * @returns The clause for a field, or the builder for a group
+   */
+  private join(connector: 'AND' | 'OR', fieldOrGroup: string | ((builder: JqlBuilder) => void)): JqlFieldClause | this {
+    if (typeof fieldOrGroup === 'string') {
+      return new JqlFieldClause(this, fieldOrGroup, (clause) => this.clauses.push({ connector, clause }));
+    }
+
+    const clause = buildGroup(fieldOrGroup);
+
+    if (clause) {
+      this.clauses.push({ connector, clause });
+    }
+
+    return this;
+  }
+}
+
+/**
+ * Start building a JQL query
+ * @returns A new JQL builder
+ */
+export function jql(): JqlBuilder {
+  return new JqlBuilder();
+}
+
+/**
+ * Get the JQL string for a query
+ * @param query - The JQL query, as a string or a builder
+ * @returns The JQL string
+ */
+export function toJql(query: JqlQuery): string {
+  return typeof query === 'string' ? query : query.build();
+}
+
+/**
+ * Quote a string for use in JQL
+ * @param value - The string
+ * @returns The string in double quotes, with quotes and backslashes escaped
+ */
+export function quoteJql(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * Format a value for use in JQL
+ * @param value - The value
+ * @returns The value as JQL
+ */
+export function formatJqlValue(value: JqlValue): string {
+  if (value instanceof JqlFunction || typeof value === 'number') {
+    return value.toString();
+  }
+
+  if (value instanceof Date) {
+    return quoteJql(formatJqlDate(value));
+  }
+
+  return quoteJql(value);
+}
+
+/**
+ * Format a field name for use in JQL, quoting it if needed
+ * @param field - The field name, e.g. "status", "cf[10010]" or "Story Points"
+ * @returns The field name as JQL
+ */
+export function formatJqlField(field: string): string {
+  if (/^cf\[\d+\]$/i.test(field)) {
+    return field;
+  }
+
+  if (/^[A-Za-z_][\w.]*$/.test(field) && !RESERVED_WORDS.has(field.toLowerCase())) {
+    return field;
+  }
+
+  return quoteJql(field);
+}
+
+/**
+ * Format a date for use in JQL, in local time
+ * @param date - The date
+ * @returns The date as "yyyy-MM-dd HH:mm", or "yyyy-MM-dd" at midnight
+ */
+function formatJqlDate(date: Date): string {
+  const pad = (value: number): string => `${value}`.padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+  if (date.getHours() === 0 && date.getMinutes() === 0) {
+    return day;
+  }
+
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Format WAS and CHANGED predicates
+ * @param predicates - The predicates
+ * @returns The predicates as JQL, with a leading space
+ */
+function formatPredicates(predicates?: JqlHistoryPredicates): string {
+  if (!predicates) {
+    return '';
+  }
+
+  const parts: string[] = [];
+  const { during, ...single } = predicates;
+
+  for (const key of ['from', 'to', 'by', 'after', 'before', 'on'] as const) {
+    const value = single[key];
+
+    if (value !== undefined) {
+      parts.push(`${key.toUpperCase()} ${formatJqlValue(value)}`);
+    }
+  }
+
+  if (during) {
+    parts.push(`DURING (${formatJqlValue(during[0])}, ${formatJqlValue(during[1])})`);
+  }
+
+  return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+}
+
+/**
+ * Build a parenthesized group of clauses
+ * @param group - Callback building the group
+ * @returns The group, or an empty string if it has no clauses
+ */
+function buildGroup(group: (builder: JqlBuilder) => void): string {
+  const builder = new JqlBuilder();
+  group(builder);
+  const clause = builder.whereClause();
+  return clause ? `(${clause})` : '';
+}
+
+/**
+ * Add an optional offset argument to a date function
+ * @param name - The function name
+ * @param offset - The offset
+ * @returns The function call
+ */
+function withOffset(name: string, offset?: string | number): JqlFunction {
+  return new JqlFunction(name, offset === undefined ? [] : [offset]);
+}
@@ -0,0 +1,764 @@
+import {
+  AdfBlockNode,
+  AdfDocument,
+  AdfInlineNode,
+  AdfListItem,
+  AdfMark,
+  AdfTableCell,
+  AdfTableRow
+} from '../types';
+import { createAdfDocument } from './adf';
+
+/**
+ * Characters that can be escaped with a backslash in Markdown
+ */
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>';
+
+/**
+ * Emphasis delimiters, longest first, and the mark each one applies
+ */
+const EMPHASIS: Array<[string, AdfMark]> = [
+  ['**', { type: 'strong' }],
+  ['__', { type: 'strong' }],
+  ['~~', { type: 'strike' }],
+  ['*', { type: 'em' }],
+  ['_', { type: 'em' }],
+];
+
+const FENCE = /^\s*(```+|~~~+)\s*([^\s`]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Convert Markdown to an ADF document
+ *
+ * Supports headings, paragraphs, bold, italic, strikethrough, inline code, links,
+ * fenced code blocks, block quotes, nested bulleted and numbered lists, tables and
+ * horizontal rules. Line breaks inside a paragraph become hard breaks.
+ * @param markdown - The Markdown text
+ * @returns The ADF document
+ */
+export function markdownToAdf(markdown: string): AdfDocument {
+  return createAdfDocument(parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n')));
+}
+
+/**
+ * Parse lines of Markdown into block nodes
+ * @param lines - The lines to parse
+ * @returns The block nodes
+ */
+function parseBlocks(lines: string[]): AdfBlockNode[] {
+  const blocks: AdfBlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+
+    if (fence) {
+      const code: string[] = [];
+      i++;
+
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+
+      i++;
+      blocks.push({
+        type: 'codeBlock',
+        ...(fence[2] ? { attrs: { language: fence[2] } } : {}),
+        ...(code.length > 0 ? { content: [{ type: 'text', text: code.join('\n') }] } : {}),
+      });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+
+    if (heading) {
+      const level = heading[1].length as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push({ type: 'heading', attrs: { level }, content: parseInline(heading[2], []) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+
+      blocks.push({ type: 'blockquote', content: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const rows: AdfTableRow[] = [parseTableRow(line, 'tableHeader')];
+      i += 2;
+
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(parseTableRow(lines[i], 'tableCell'));
+        i++;
+      }
+
+      blocks.push({ type: 'table', content: rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+
+    blocks.push({ type: 'paragraph', content: parseInline(joinParagraph(paragraph), []) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Check whether a line starts a block other than a paragraph
+ * @param lines - The lines being parsed
+ * @param index - The index of the line
+ * @returns Whether the line starts a new block
+ */
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+
+  return FENCE.test(line)
+    || HEADING.test(line)
+    || RULE.test(line)
+    || BLOCKQUOTE.test(line)
+    || LIST_ITEM.test(line);
+}
+
+/**
+ * Join the lines of a paragraph, keeping line breaks
+ * @param lines - The lines of the paragraph
+ * @returns The paragraph text
+ */
+function joinParagraph(lines: string[]): string {
+  return lines
+    .map((line) => line.trim().replace(/\\$/, ''))
+    .join('\n');
+}
+
+/**
+ * Parse a list starting at the given line
+ * @param lines - The lines being parsed
+ * @param start - The index of the first list item
+ * @param blocks - The block nodes to add the list to
+ * @returns The index of the first line after the list
+ */
+function parseList(lines: string[], start: number, blocks: AdfBlockNode[]): number {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: AdfListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+
+    if (!match || match[1].length > indent + 1 || /\d/.test(match[2]) !== ordered) {
+      break;
+    }
+
+    const contentIndent = match[1].length + match[2].length + 1;
+    const itemLines = [match[3]];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (!line.trim()) {
+        // A blank line only continues the item if indented content follows
+        const next = lines[i + 1];
+
+        if (next === undefined || leadingSpaces(next) < contentIndent) {
+          break;
+        }
+
+        itemLines.push('');
+        i++;
+        continue;
+      }
+
+      if (leadingSpaces(line) <= indent + 1 && (LIST_ITEM.test(line) || startsBlock(lines, i))) {
+        break;
+      }
+
+      itemLines.push(line.slice(Math.min(contentIndent, leadingSpaces(line))));
+      i++;
+    }
+
+    items.push({ type: 'listItem', content: parseBlocks(itemLines) });
+
+    if (i < lines.length && !lines[i].trim()) {
+      // Skip the blank line between items of a loose list
+      const next = lines[i + 1];
+      const nextItem = next !== undefined ? LIST_ITEM.exec(next) : null;
+
+      if (!nextItem || nextItem[1].length > indent + 1 || /\d/.test(nextItem[2]) !== ordered) {
+        break;
+      }
+
+      i++;
+    }
+  }
+
+  if (ordered) {
+    const order = parseInt(first[2], 10);
+    blocks.push({ type: 'orderedList', ...(order !== 1 ? { attrs: { order } } : {}), content: items });
+  } else {
+    blocks.push({ type: 'bulletList', content: items });
+  }
+
+  return i;
+}
+
+/**
+ * Count the leading spaces of a line, treating tabs as four spaces
+ * @param line - The line
+ * @returns The number of leading spaces
+ */
+function leadingSpaces(line: string): number {
+  const match = /^[ \t]*/.exec(line)![0];
+  return match.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Parse a row of a Markdown table
+ * @param line - The table row
+ * @param cellType - The type of cell to create
+ * @returns The table row
+ */
+function parseTableRow(line: string, cellType: AdfTableCell['type']): AdfTableRow {
+  const cells = splitTableRow(line);
+
+  return {
+    type: 'tableRow',
+    content: cells.map((cell): AdfTableCell => ({
+      type: cellType,
+      content: [{ type: 'paragraph', content: parseInline(cell, []) }],
+    })),
+  };
+}
+
+/**
+ * Split a table row into cells, respecting escaped pipes
+ * @param line - The table row
+ * @returns The cell texts
+ */
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(^|[^\\])\|$/, '$1');
+  const cells: string[] = [];
+  let cell = '';
+
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === '\\' && trimmed[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (trimmed[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += trimmed[i];
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse inline Markdown into inline nodes
+ * @param text - The inline Markdown
+ * @param marks - The marks applied to the enclosing text
+ * @returns The inline nodes
+ */
+function parseInline(text: string, marks: AdfMark[]): AdfInlineNode[] {
+  const nodes: AdfInlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = (): void => {
+    pushText(nodes, buffer, marks);
+    buffer = '';
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const ticks = /^`+/.exec(text.slice(i))![0];
+      const close = findCodeSpanEnd(text, i + ticks.length, ticks);
+
+      if (close >= 0) {
+        flush();
+        let code = text.slice(i + ticks.length, close);
+
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) {
+          code = code.slice(1, -1);
+        }
+
+        // The code mark can only be combined with links
+        pushText(nodes, code, [...marks.filter((mark) => mark.type === 'link'), { type: 'code' }]);
+        i = close + ticks.length;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = parseLink(text, i);
+
+      if (link) {
+        flush();
+        nodes.push(...parseInline(link.label, [...marks, { type: 'link', attrs: { href: link.href } }]));
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const autolink = /^<((?:https?|mailto):[^\s>]+)>/.exec(text.slice(i));
+
+      if (autolink) {
+        flush();
+        pushText(nodes, autolink[1], [...marks, { type: 'link', attrs: { href: autolink[1] } }]);
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = EMPHASIS.find(([delimiter]) => text.startsWith(delimiter, i));
+
+    if (emphasis && canOpen(text, i, emphasis[0])) {
+      const [delimiter, mark] = emphasis;
+      const close = findClosingDelimiter(text, i + delimiter.length, delimiter);
+
+      if (close > i + delimiter.length) {
+        flush();
+        const inner = marks.some((existing) => existing.type === mark.type) ? marks : [...marks, mark];
+        nodes.push(...parseInline(text.slice(i + delimiter.length, close), inner));
+        i = close + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Add text to a list of inline nodes, merging it with the previous text node if the marks match
+ * @param nodes - The inline nodes
+ * @param text - The text
+ * @param marks - The marks to apply
+ */
+function pushText(nodes: AdfInlineNode[], text: string, marks: AdfMark[]): void {
+  if (!text) {
+    return;
+  }
+
+  const previous = nodes[nodes.length - 1];
+
+  if (previous?.type === 'text' && JSON.stringify(previous.marks ?? []) === JSON.stringify(marks)) {
+    previous.text += text;
+    return;
+  }
+
+  nodes.push(marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text });
+}
+
+/**
+ * Find the end of a code span
+ * @param text - The inline Markdown
+ * @param from - The index after the opening backticks
+ * @param ticks - The opening backticks
+ * @returns The index of the closing backticks, or -1 if there are none
+ */
+function findCodeSpanEnd(text: string, from: number, ticks: string): number {
+  let index = text.indexOf(ticks, from);
+
+  while (index >= 0) {
+    if (text[index + ticks.length] !== '`') {
+      return index;
+    }
+
+    index = text.indexOf(ticks, /^`+/.exec(text.slice(index))![0].length + index);
+  }
+
+  return -1;
+}
+
+/**
+ * Check whether an emphasis delimiter can open emphasis at the given index
+ * @param text - The inline Markdown
+ * @param index - The index of the delimiter
+ * @param delimiter - The delimiter
+ * @returns Whether the delimiter can open emphasis
+ */
+function canOpen(text: string, index: number, delimiter: string): boolean {
+  const next = text[index + delimiter.length];
+
+  if (next === undefined || /\s/.test(next)) {
+    return false;
+  }
+
+  // Underscores inside words (snake_case) are not emphasis
+  return !delimiter.startsWith('_') || index === 0 || !/[A-Za-z0-9]/.test(text[index - 1]);
+}
+
+/**
+ * Find the delimiter that closes emphasis
+ * @param text - The inline Markdown
+ * @param from - The index after the opening delimiter
+ * @param delimiter - The delimiter
+ * @returns The index of the closing delimiter, or -1 if there is none
+ */
+function findClosingDelimiter(text: string, from: number, delimiter: string): number {
+  let i = from;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      const ticks = /^`+/.exec(text.slice(i))![0];
+      const close = findCodeSpanEnd(text, i + ticks.length, ticks);
+      i = close >= 0 ? close + ticks.length : i + ticks.length;
+      continue;
+    }
+
+    if (text.startsWith(delimiter, i)) {
+      const run = new RegExp(`^\\${delimiter[0]}+`).exec(text.slice(i))![0];
+      const after = text[i + run.length];
+      const closes = !/\s/.test(text[i - 1])
+        && (!delimiter.startsWith('_') || after === undefined || !/[A-Za-z0-9]/.test(after));
+
+      if (closes && (run.length === delimiter.length || delimiter.length === 2)) {
+        // Close on the last delimiter of a run so that "***text***" closes the inner emphasis first
+        return i + run.length - delimiter.length;
+      }
+
+      i += run.length;
+      continue;
+    }
+
+    i++;
+  }
+
+  return -1;
+}
+
+/**
+ * Parse a Markdown link
+ * @param text - The inline Markdown
+ * @param start - The index of the opening bracket
+ * @returns The link label, target and end index, or undefined if there is no link
+ */
+function parseLink(text: string, start: number): { label: string; href: string; end: number } | undefined {
+  let depth = 0;
+  let i = start;
+
+  for (; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      break;
+    }
+  }
+
+  if (i >= text.length || text[i + 1] !== '(') {
+    return undefined;
+  }
+
+  const target = /^\(\s*<?([^\s>)]*)>?(?:\s+"[^"]*")?\s*\)/.exec(text.slice(i + 1));
+
+  if (!target) {
+    return undefined;
+  }
+
+  return {
+    label: text.slice(start + 1, i),
+    href: target[1],
+    end: i + 1 + target[0].length,
+  };
+}
+
+/**
+ * Convert an ADF document to Markdown
+ *
+ * Nodes without a Markdown equivalent are approximated: panels become block quotes,
+ * mentions become their display text and underlines are dropped.
+ * @param doc - The ADF document
+ * @returns The Markdown text
+ */
+export function adfToMarkdown(doc: AdfDocument): string {
+  return renderBlocks(doc.content).trim();
+}
+
+/**
+ * Render block nodes as Markdown
+ * @param blocks - The block nodes
+ * @returns The Markdown text
+ */
+function renderBlocks(blocks: AdfBlockNode[]): string {
+  return blocks.map(renderBlock).join('\n\n');
+}
+
+/**
+ * Render a block node as Markdown
+ * @param block - The block node
+ * @returns The Markdown text
+ */
+function renderBlock(block: AdfBlockNode): string {
+  switch (block.type) {
+    case 'paragraph':
+      return renderInline(block.content ?? []);
+    case 'heading':
+      return `${'#'.repeat(block.attrs.level)} ${renderInline(block.content ?? [])}`;
+    case 'bulletList':
+      return block.content.map((item) => renderListItem(item, '- ')).join('\n');
+    case 'orderedList': {
+      const order = block.attrs?.order ?? 1;
+      return block.content.map((item, index) => renderListItem(item, `${order + index}. `)).join('\n');
+    }
+    case 'codeBlock': {
+      const code = (block.content ?? []).map((node) => node.text).join('');
+      const fence = code.includes('```') ? '~~~' : '```';
+      return `${fence}${block.attrs?.language ?? ''}\n${code}\n${fence}`;
+    }
+    case 'blockquote':
+    case 'panel':
+      return renderBlocks(block.content)
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'rule':
+      return '---';
+    case 'table':
+      return renderTable(block.content);
+  }
+}
+
+/**
+ * Render a list item as Markdown
+ * @param item - The list item
+ * @param marker - The list marker, including the trailing space
+ * @returns The Markdown text
+ */
+function renderListItem(item: AdfListItem, marker: string): string {
+  const indent = ' '.repeat(marker.length);
+  // Keep nested lists directly under their parent item so the list stays tight
+  const content = item.content
+    .map((block, index) => {
+      const separator = index === 0 ? '' : block.type.endsWith('List') ? '\n' : '\n\n';
+      return separator + renderBlock(block);
+    })
+    .join('')
+    .split('\n')
+    .map((line, index) => (index === 0 || !line ? line : indent + line))
+    .join('\n');
+
+  return marker + content;
+}
+
+/**
+ * Render table rows as a Markdown table
+ * @param rows - The table rows
+ * @returns The Markdown text
+ */
+function renderTable(rows: AdfTableRow[]): string {
+  const cells = rows.map((row) => row.content.map((cell) => renderBlocks(cell.content)
+    .replace(/\n+/g, ' ')
+    .replace(/\|/g, '\\|')));
+  const width = Math.max(...cells.map((row) => row.length));
+  const line = (row: string[]): string => {
+    const padded = [...row];
+
+    while (padded.length < width) {
+      padded.push('');
+    }
+
+    return `| ${padded.join(' | ')} |`;
+  };
+  const header = line(cells[0] ?? []);
+  const separator = line(new Array(width).fill('---'));
+
+  return [header, separator, ...cells.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Order in which marks are opened, outermost first
+ */
+const MARK_ORDER = ['link', 'strong', 'em', 'strike'];
+
+/**
+ * Render inline nodes as Markdown
+ * @param nodes - The inline nodes
+ * @returns The Markdown text
+ */
+function renderInline(nodes: AdfInlineNode[]): string {
+  let output = '';
+  const open: Array<{ mark: AdfMark; close: string }> = [];
+
+  const closeTo = (depth: number): void => {
+    while (open.length > depth) {
+      output += open.pop()!.close;
+    }
+  };
+
+  for (const node of nodes) {
+    const marks = node.type === 'text'
+      ? (node.marks ?? [])
+        .filter((mark) => MARK_ORDER.includes(mark.type))
+        .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type))
+      : [];
+
+    // Keep the marks this node shares with the open ones, close the rest
+    let shared = 0;
+
+    while (shared < open.length && shared < marks.length && sameMark(open[shared].mark, marks[shared])) {
+      shared++;
+    }
+
+    closeTo(shared);
+
+    for (const mark of marks.slice(shared)) {
+      const [opening, close] = markDelimiters(mark, output);
+      output += opening;
+      open.push({ mark, close });
+    }
+
+    switch (node.type) {
+      case 'text':
+        output += node.marks?.some((mark) => mark.type === 'code')
+          ? renderCode(node.text)
+          : escapeMarkdown(node.text);
+        break;
+      case 'hardBreak':
+        output += '\n';
+        break;
+      case 'mention':
+        output += node.attrs.text ?? `@${node.attrs.id}`;
+        break;
+      case 'emoji':
+        output += node.attrs.text ?? node.attrs.shortName;
+        break;
+      case 'inlineCard':
+        output += `<${node.attrs.url}>`;
+        break;
+    }
+  }
+
+  closeTo(0);
+  return output;
+}
+
+/**
+ * Check whether two marks are the same
+ * @param a - The first mark
+ * @param b - The second mark
+ * @returns Whether the marks are the same
+ */
+function sameMark(a: AdfMark, b: AdfMark): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Get the Markdown delimiters for a mark
+ * @param mark - The mark
+ * @param before - The Markdown rendered so far
+ * @returns The opening and closing delimiters
+ */
+function markDelimiters(mark: AdfMark, before: string): [string, string] {
+  switch (mark.type) {
+    case 'link':
+      return ['[', `](${mark.attrs.href})`];
+    case 'strong':
+      return ['**', '**'];
+    case 'em':
+      // Underscores cannot open emphasis inside a word
+      return /[A-Za-z0-9]$/.test(before) ? ['*', '*'] : ['_', '_'];
+    case 'strike':
+      return ['~~', '~~'];
+    default:
+      return ['', ''];
+  }
+}
+
+/**
+ * Render text as a Markdown code span
+ * @param code - The code
+ * @returns The code span
+ */
+function renderCode(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  const padding = longest > 0 ? ' ' : '';
+
+  return `${ticks}${padding}${code}${padding}${ticks}`;
+}
+
+/**
+ * Escape characters that Markdown would treat as formatting
+ * @param text - The text
+ * @returns The escaped text
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*[\]]/g, '\\$&')
+    .replace(/~~/g, '\\~\\~')
+    .replace(/(^|[^A-Za-z0-9])_|_(?=[^A-Za-z0-9]|$)/g, (match) => match.replace('_', '\\_'))
+    .replace(/^(\s*)([#>+-])(?=\s)/gm, '$1\\$2')
+    .replace(/^(\s*\d+)\.(?=\s)/gm, '$1\\.');
+}
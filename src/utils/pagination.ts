@@ -1,4 +1,31 @@
-import { PaginatedResponse, PaginationParams } from '../types';
+import {
+  CursorPaginationParams,
+  IterateOptions,
+  PageInfo,
+  PageParams,
+  PaginatedResponse,
+  PaginationParams,
+  UncountedPaginatedResponse
+} from '../types';
+import { JiraError } from './error';
+
+/**
+ * Function that fetches one page of a paginated resource
+ */
+export type PageFetcher<T> = (
+  params: PageParams,
+  signal?: AbortSignal
+) => Promise<UncountedPaginatedResponse<T>>;
+
+/**
+ * A fetched page and a function requesting the page after it ahead of time
+ */
+interface FetchedPage<T> {
+  /** The page */
+  response: UncountedPaginatedResponse<T>;
+  /** Start requesting the next page now rather than when the iteration resumes */
+  prefetch: () => void;
+}
 
 /**
  * Default pagination parameters
@@ -21,7 +48,7 @@ export function createPaginationParams(params?: PaginationParams): Required<Pagi
 }
 
 /**
- * Create a paginated response from the API response
+ * Create a paginated response from the API response of an endpoint that reports the total number of results
  * @param values - The values returned by the API
  * @param total - The total number of results
  * @param params - The pagination parameters used for the request
@@ -32,18 +59,81 @@ export function createPaginatedResponse<T>(
   total: number,
   params: Required<PaginationParams>
 ): PaginatedResponse<T> {
+  return toPaginatedResponse(values, params, { strategy: 'total', total });
+}
+
+/**
+ * Create a paginated response from the API response, detecting the last page with the endpoint's strategy
+ * @param values - The values returned by the API
+ * @param params - The pagination parameters used for the request
+ * @param page - The pagination strategy of the endpoint and the paging details from the response
+ * @returns A paginated response, with a total if the endpoint reported one
+ */
+export function toPaginatedResponse<T>(
+  values: T[],
+  params: Required<PaginationParams>,
+  page: PageInfo & { total: number }
+): PaginatedResponse<T>;
+export function toPaginatedResponse<T>(
+  values: T[],
+  params: Required<PaginationParams>,
+  page: PageInfo
+): UncountedPaginatedResponse<T>;
+export function toPaginatedResponse<T>(
+  values: T[],
+  params: Required<PaginationParams>,
+  page: PageInfo
+): UncountedPaginatedResponse<T> {
   const { maxResults, startAt } = params;
-  const isLast = startAt + values.length >= total;
+  let isLast: boolean;
+
+  switch (page.strategy) {
+    case 'total':
+      isLast = startAt + values.length >= page.total;
+      break;
+    case 'shortPage':
+      // A page longer than requested means the endpoint ignored the paging parameters and returned everything
+      isLast = values.length !== maxResults;
+      break;
+    case 'isLast':
+      isLast = page.isLast;
+      break;
+    case 'cursor':
+      isLast = !page.nextPageToken;
+      break;
+  }
 
   return {
     values,
     maxResults,
     startAt,
-    total,
-    isLast,
+    ...(page.total !== undefined ? { total: page.total } : {}),
+    ...(page.strategy === 'cursor' && page.nextPageToken ? { nextPageToken: page.nextPageToken } : {}),
+    // An empty page is always the last, so a wrong total or flag cannot cause an endless loop
+    isLast: isLast || values.length === 0,
   };
 }
 
+/**
+ * Get the pagination parameters for the page after a response
+ * @param params - The pagination parameters used for the request
+ * @param response - The response to the request
+ * @returns The pagination parameters for the next page
+ */
+export function getNextPageParams<T>(params: PageParams, response: UncountedPaginatedResponse<T>): PageParams {
+  // Advance by the number of results received, since Jira may return fewer than maxResults per page
+  const next: PageParams = {
+    maxResults: params.maxResults,
+    startAt: params.startAt + response.values.length,
+  };
+
+  if (response.nextPageToken) {
+    next.nextPageToken = response.nextPageToken;
+  }
+
+  return next;
+}
+
 /**
  * Fetch all pages of a paginated resource
  * @param fetchPage - Function to fetch a page of results
@@ -51,22 +141,141 @@ export function createPaginatedResponse<T>(
  * @returns All results from all pages
  */
 export async function fetchAllPages<T>(
-  fetchPage: (params: Required<PaginationParams>) => Promise<PaginatedResponse<T>>,
-  params?: PaginationParams
+  fetchPage: (params: PageParams) => Promise<UncountedPaginatedResponse<T>>,
+  params?: CursorPaginationParams
 ): Promise<T[]> {
-  const paginationParams = createPaginationParams(params);
+  let paginationParams: PageParams = {
+    ...createPaginationParams(params),
+    ...(params?.nextPageToken ? { nextPageToken: params.nextPageToken } : {}),
+  };
   const results: T[] = [];
-  let isLast = false;
 
-  while (!isLast) {
+  for (;;) {
     const response = await fetchPage(paginationParams);
     results.push(...response.values);
-    isLast = response.isLast;
 
-    if (!isLast) {
-      paginationParams.startAt += paginationParams.maxResults;
+    if (response.isLast) {
+      return results;
+    }
+
+    paginationParams = getNextPageParams(paginationParams, response);
+  }
+}
+
+/**
+ * Iterate over the pages of a paginated resource
+ *
+ * Each page is requested when it is asked for, so no request is made until the first page is
+ * requested and a `break` sends no further requests.
+ * @param fetchPage - Function to fetch a page of results
+ * @param options - Initial pagination parameters and abort signal
+ * @returns An async iterator over the pages
+ */
+export async function* iteratePages<T>(
+  fetchPage: PageFetcher<T>,
+  options: IterateOptions = {}
+): AsyncGenerator<UncountedPaginatedResponse<T>, void, undefined> {
+  for await (const { response } of paginate(fetchPage, options)) {
+    yield response;
+  }
+}
+
+/**
+ * Iterate over every result of a paginated resource
+ *
+ * When the last result of a page is consumed, the next page is fetched in the background (unless
+ * `prefetch` is false). A `break` before then sends no further requests; a prefetched page that is
+ * no longer wanted is cancelled.
+ * @param fetchPage - Function to fetch a page of results
+ * @param options - Initial pagination parameters, abort signal and prefetch setting
+ * @returns An async iterator over the results
+ */
+export async function* iterateAll<T>(
+  fetchPage: PageFetcher<T>,
+  options: IterateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const { prefetch = true } = options;
+
+  for await (const { response, prefetch: fetchNext } of paginate(fetchPage, options)) {
+    const { values } = response;
+
+    for (let i = 0; i < values.length; i++) {
+      if (prefetch && i === values.length - 1) {
+        fetchNext();
+      }
+
+      yield values[i];
+    }
+  }
+}
+
+/**
+ * Request the pages of a paginated resource one after the other, cancelling the outstanding request on early exit
+ * @param fetchPage - Function to fetch a page of results
+ * @param options - Initial pagination parameters and abort signal
+ * @returns An async iterator over the pages, each with a function to prefetch the next one
+ */
+async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: IterateOptions
+): AsyncGenerator<FetchedPage<T>, void, undefined> {
+  const { signal, nextPageToken, ...pagination } = options;
+  let paginationParams: PageParams = {
+    ...createPaginationParams(pagination),
+    ...(nextPageToken ? { nextPageToken } : {}),
+  };
+
+  // Cancels the outstanding request when the caller aborts or stops iterating
+  const controller = new AbortController();
+  const abort = (): void => controller.abort();
+  signal?.addEventListener('abort', abort);
+
+  const request = (params: PageParams): Promise<UncountedPaginatedResponse<T>> => {
+    throwIfAborted(signal);
+    return fetchPage(params, controller.signal);
+  };
+
+  try {
+    let pending: Promise<UncountedPaginatedResponse<T>> | undefined = request(paginationParams);
+
+    for (;;) {
+      const response: UncountedPaginatedResponse<T> = await pending;
+
+      if (response.isLast) {
+        yield { response, prefetch: (): void => undefined };
+        return;
+      }
+
+      paginationParams = getNextPageParams(paginationParams, response);
+      pending = undefined;
+
+      const params = paginationParams;
+      const prefetch = (): void => {
+        if (!pending) {
+          pending = request(params);
+          // The prefetched page is awaited on the next turn; this only prevents an unhandled rejection on early exit
+          pending.catch(() => undefined);
+        }
+      };
+
+      yield { response, prefetch };
+
+      if (!pending) {
+        pending = request(paginationParams);
+      }
     }
+  } finally {
+    signal?.removeEventListener('abort', abort);
+    controller.abort();
   }
+}
 
-  return results;
-} 
\ No newline at end of file
+/**
+ * Throw if a request has been aborted
+ * @param signal - The abort signal
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new JiraError('Request aborted', 0);
+  }
+}
@@ -0,0 +1,137 @@
+import { RateLimiterMetrics, RateLimitOptions } from '../types';
+
+/**
+ * Default rate limiting options
+ */
+export const DEFAULT_RATE_LIMIT: Required<RateLimitOptions> = {
+  requestsPerInterval: Infinity,
+  interval: 1000,
+  burst: Infinity,
+  maxConcurrent: Infinity,
+};
+
+/**
+ * Create rate limiting options with defaults applied
+ * @param options - The rate limiting options to use
+ * @returns The rate limiting options with defaults applied
+ */
+export function createRateLimitOptions(options?: RateLimitOptions): Required<RateLimitOptions> {
+  const requestsPerInterval = options?.requestsPerInterval ?? DEFAULT_RATE_LIMIT.requestsPerInterval;
+
+  return {
+    requestsPerInterval,
+    interval: options?.interval ?? DEFAULT_RATE_LIMIT.interval,
+    burst: options?.burst ?? requestsPerInterval,
+    maxConcurrent: options?.maxConcurrent ?? DEFAULT_RATE_LIMIT.maxConcurrent,
+  };
+}
+
+/**
+ * Token bucket rate limiter with a cap on the number of requests in flight
+ */
+export class RateLimiter {
+  /** The rate limiting options */
+  private readonly options: Required<RateLimitOptions>;
+  /** Requests waiting to be started, in order */
+  private readonly queue: Array<() => void> = [];
+  /** The number of tokens currently in the bucket */
+  private tokens: number;
+  /** When the bucket was last refilled */
+  private lastRefill: number;
+  /** The number of requests currently in flight */
+  private inFlight = 0;
+  /** The largest queue depth seen */
+  private maxQueued = 0;
+  /** The total number of requests started */
+  private started = 0;
+  /** Timer waiting for the next token */
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Create a new RateLimiter
+   * @param options - The rate limiting options
+   */
+  constructor(options?: RateLimitOptions) {
+    this.options = createRateLimitOptions(options);
+    this.tokens = this.options.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Run a task once the rate limit and concurrency cap allow it
+   * @param task - The task to run
+   * @returns The result of the task
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve) => {
+      this.queue.push(resolve);
+      this.maxQueued = Math.max(this.maxQueued, this.queue.length);
+      this.drain();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.inFlight--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Get a snapshot of the limiter state
+   * @returns The limiter metrics
+   */
+  getMetrics(): RateLimiterMetrics {
+    this.refill();
+
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      availableTokens: Math.floor(this.tokens),
+      maxQueued: this.maxQueued,
+      started: this.started,
+    };
+  }
+
+  /**
+   * Start as many queued requests as the limits allow
+   */
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.inFlight < this.options.maxConcurrent && this.tokens >= 1) {
+      const next = this.queue.shift()!;
+      this.tokens--;
+      this.inFlight++;
+      this.started++;
+      next();
+    }
+
+    // Wait for a token only when it is the token bucket, not the concurrency cap, holding requests back
+    if (this.queue.length > 0 && this.inFlight < this.options.maxConcurrent && !this.timer) {
+      const rate = this.options.requestsPerInterval / this.options.interval;
+      const wait = Math.ceil((1 - this.tokens) / rate);
+
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, wait);
+    }
+  }
+
+  /**
+   * Add the tokens earned since the last refill
+   */
+  private refill(): void {
+    if (!isFinite(this.options.requestsPerInterval)) {
+      this.tokens = Infinity;
+      return;
+    }
+
+    const now = Date.now();
+    const rate = this.options.requestsPerInterval / this.options.interval;
+
+    this.tokens = Math.min(this.options.burst, this.tokens + (now - this.lastRefill) * rate);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,275 @@
+import { IssuesApiClient } from '../api/issues';
+import { ProjectsApiClient } from '../api/projects';
+import {
+  JiraIssue,
+  JiraVersion,
+  ReleaseNotes,
+  ReleaseNotesFormat,
+  ReleaseNotesGroup,
+  ReleaseNotesOptions,
+  ReleaseNotesTemplates
+} from '../types';
+import { jql, JqlQuery } from './jql';
+import { parseJql } from './jql-parser';
+import { fetchAllPages } from './pagination';
+
+/**
+ * Default templates by format
+ */
+const DEFAULT_TEMPLATES: Record<Exclude<ReleaseNotesFormat, 'json'>, Required<ReleaseNotesTemplates>> = {
+  markdown: {
+    title: '# {project} {version}',
+    group: '## {group}',
+    issue: '- [{key}]({url}) {summary}',
+  },
+  html: {
+    title: '<h1>{project} {version}</h1>',
+    group: '<h2>{group}</h2>',
+    issue: '<li><a href="{url}">{key}</a> {summary}</li>',
+  },
+};
+
+/**
+ * Fields the release notes need from each issue
+ */
+const RELEASE_NOTES_FIELDS = ['summary', 'issuetype', 'status', 'priority', 'assignee', 'components'];
+
+/**
+ * Generate release notes for a version from the issues with it as fix version
+ * @param client - The clients to fetch with, e.g. a JiraClient
+ * @param projectKey - The project key
+ * @param versionName - The version name
+ * @param options - The format, grouping, templates and filters
+ * @returns The release notes
+ * @throws Error if the project has no version with that name, or if the JQL filter has an ORDER BY clause
+ * @throws JqlSyntaxError if the JQL filter is not valid JQL
+ */
+export async function generateReleaseNotes(
+  client: { projects: ProjectsApiClient; issues: IssuesApiClient },
+  projectKey: string,
+  versionName: string,
+  options: ReleaseNotesOptions = {}
+): Promise<ReleaseNotes> {
+  const filterClause = options.jql !== undefined ? getFilterClause(options.jql) : '';
+  const versions = await client.projects.getProjectVersions(projectKey);
+  const version = versions.find((candidate) => candidate.name === versionName);
+
+  if (!version) {
+    throw new Error(`Version "${versionName}" not found in project ${projectKey}`);
+  }
+
+  // The version ID avoids matching a version with the same name in another project
+  const query = jql().where('project').eq(projectKey).and('fixVersion').eq(Number(version.id)).toString();
+  const filter = filterClause ? ` AND (${filterClause})` : '';
+  const issues = await fetchAllPages((params) =>
+    client.issues.searchIssues(`${query}${filter} ORDER BY key ASC`, RELEASE_NOTES_FIELDS, params)
+  );
+
+  const groups = groupIssues(issues, options);
+  const content = renderReleaseNotes(projectKey, version, groups, options);
+
+  return { version, groups, issueCount: issues.length, content };
+}
+
+/**
+ * Render grouped issues as release notes
+ * @param projectKey - The project key
+ * @param version - The version
+ * @param groups - The grouped issues
+ * @param options - The format, templates and link URL
+ * @returns The rendered notes
+ */
+export function renderReleaseNotes(
+  projectKey: string,
+  version: JiraVersion,
+  groups: ReleaseNotesGroup[],
+  options: Pick<ReleaseNotesOptions, 'format' | 'templates' | 'browseUrl'> = {}
+): string {
+  const format = options.format ?? 'markdown';
+  // An issue with several components is listed in each of their groups, but counted once
+  const issueKeys = new Set<string>();
+
+  for (const group of groups) {
+    for (const issue of group.issues) {
+      issueKeys.add(issue.key);
+    }
+  }
+
+  const issueCount = issueKeys.size;
+
+  if (format === 'json') {
+    return JSON.stringify({
+      project: projectKey,
+      version: { id: version.id, name: version.name, releaseDate: version.releaseDate, description: version.description },
+      issueCount,
+      groups: groups.map((group) => ({
+        title: group.title,
+        issues: group.issues.map((issue) => getIssueValues(issue, options.browseUrl)),
+      })),
+    }, null, 2);
+  }
+
+  const templates = { ...DEFAULT_TEMPLATES[format], ...options.templates };
+  const escape = format === 'html' ? escapeHtml : escapeMarkdown;
+  const lines = [
+    fillTemplate(templates.title, {
+      project: projectKey,
+      version: version.name,
+      releaseDate: version.releaseDate ?? '',
+      description: version.description ?? '',
+      issueCount: String(issueCount),
+    }, escape),
+  ];
+
+  for (const group of groups) {
+    lines.push('', fillTemplate(templates.group, { group: group.title, issueCount: String(group.issues.length) }, escape));
+
+    if (format === 'html') {
+      lines.push('<ul>');
+    } else {
+      lines.push('');
+    }
+
+    for (const issue of group.issues) {
+      lines.push(fillTemplate(templates.issue, getIssueValues(issue, options.browseUrl), escape));
+    }
+
+    if (format === 'html') {
+      lines.push('</ul>');
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Get the where clause of the JQL filtering release notes issues
+ * @param filter - The JQL filter, as a string or a builder
+ * @returns The where clause
+ * @throws Error if a JQL string has an ORDER BY clause, which cannot be combined with the ordering by key
+ * @throws JqlSyntaxError if a JQL string is not valid JQL
+ */
+function getFilterClause(filter: JqlQuery): string {
+  if (typeof filter !== 'string') {
+    return filter.whereClause();
+  }
+
+  if (parseJql(filter).orderBy.length > 0) {
+    throw new Error('The release notes JQL filter must not have an ORDER BY clause; issues are ordered by key');
+  }
+
+  return filter.trim();
+}
+
+/**
+ * Group issues by issue type or component
+ * @param issues - The issues
+ * @param options - The grouping, group order and title of ungrouped issues
+ * @returns The groups, in the requested order, then alphabetically, then the ungrouped issues
+ */
+function groupIssues(
+  issues: JiraIssue[],
+  options: Pick<ReleaseNotesOptions, 'groupBy' | 'groupOrder' | 'ungroupedTitle'>
+): ReleaseNotesGroup[] {
+  const groupBy = options.groupBy ?? 'issueType';
+  const ungroupedTitle = options.ungroupedTitle ?? 'Other';
+  const groups = new Map<string, JiraIssue[]>();
+
+  for (const issue of issues) {
+    let titles: string[];
+
+    if (groupBy === 'issueType') {
+      titles = [issue.fields.issuetype?.name ?? ungroupedTitle];
+    } else if (groupBy === 'component') {
+      titles = getComponentNames(issue);
+    } else {
+      titles = [];
+    }
+
+    for (const title of titles.length > 0 ? titles : [ungroupedTitle]) {
+      groups.set(title, [...(groups.get(title) ?? []), issue]);
+    }
+  }
+
+  const order = options.groupOrder ?? [];
+  const rank = (title: string): number => {
+    const index = order.indexOf(title);
+    return index >= 0 ? index : title === ungroupedTitle ? order.length + 1 : order.length;
+  };
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([title, groupIssues]) => ({ title, issues: groupIssues }));
+}
+
+/**
+ * Get the placeholder values of an issue
+ * @param issue - The issue
+ * @param browseUrl - The site URL issue links point to
+ * @returns The values, by placeholder name
+ */
+function getIssueValues(issue: JiraIssue, browseUrl?: string): Record<string, string> {
+  const siteUrl = browseUrl ?? issue.self.split('/rest/')[0];
+
+  return {
+    key: issue.key,
+    summary: issue.fields.summary ?? '',
+    url: `${siteUrl.replace(/\/$/, '')}/browse/${issue.key}`,
+    type: issue.fields.issuetype?.name ?? '',
+    status: issue.fields.status?.name ?? '',
+    priority: issue.fields.priority?.name ?? '',
+    assignee: issue.fields.assignee?.displayName ?? '',
+    components: getComponentNames(issue).join(', '),
+  };
+}
+
+/**
+ * Get the names of the components of an issue
+ * @param issue - The issue
+ * @returns The component names
+ */
+function getComponentNames(issue: JiraIssue): string[] {
+  const components = issue.fields.components as Array<{ name: string }> | undefined;
+  return (components ?? []).map((component) => component.name);
+}
+
+/**
+ * Replace the `{placeholder}`s of a template
+ * @param template - The template
+ * @param values - The values, by placeholder name
+ * @param escape - Function escaping a value for the output format
+ * @returns The filled template; unknown placeholders are left as they are
+ */
+function fillTemplate(
+  template: string,
+  values: Record<string, string>,
+  escape: (name: string, value: string) => string
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? escape(name, values[name]) : placeholder
+  );
+}
+
+/**
+ * Escape a value for HTML text and attributes
+ * @param _name - The placeholder name
+ * @param value - The value
+ * @returns The escaped value
+ */
+function escapeHtml(_name: string, value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Escape a value for Markdown text, leaving URLs as they are
+ * @param name - The placeholder name
+ * @param value - The value
+ * @returns The escaped value
+ */
+function escapeMarkdown(name: string, value: string): string {
+  return name === 'url' ? value : value.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
@@ -0,0 +1,143 @@
+import { ResolvedRetryOptions, RetryOptions } from '../types';
+import { JiraError } from './error';
+
+/**
+ * Default retry options
+ */
+export const DEFAULT_RETRY: ResolvedRetryOptions = {
+  maxRetries: 0,
+  baseDelay: 1000,
+  maxDelay: 60000,
+  jitter: true,
+  retryOn: [429, 500, 502, 503, 504],
+  retryOnCodes: ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET'],
+  retryNonIdempotent: false,
+};
+
+/**
+ * HTTP methods that can safely be repeated
+ */
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+/**
+ * Create retry options with defaults applied
+ * @param options - The retry options to use
+ * @returns The retry options with defaults applied
+ */
+export function createRetryOptions(options?: RetryOptions): ResolvedRetryOptions {
+  return {
+    maxRetries: options?.maxRetries ?? DEFAULT_RETRY.maxRetries,
+    baseDelay: options?.baseDelay ?? DEFAULT_RETRY.baseDelay,
+    maxDelay: options?.maxDelay ?? DEFAULT_RETRY.maxDelay,
+    jitter: options?.jitter ?? DEFAULT_RETRY.jitter,
+    retryOn: options?.retryOn ?? DEFAULT_RETRY.retryOn,
+    retryOnCodes: options?.retryOnCodes ?? DEFAULT_RETRY.retryOnCodes,
+    retryNonIdempotent: options?.retryNonIdempotent ?? DEFAULT_RETRY.retryNonIdempotent,
+    onRetry: options?.onRetry,
+  };
+}
+
+/**
+ * Parse the delay requested by the server through the Retry-After or X-RateLimit-Reset headers
+ * @param headers - The response headers (lower-cased names)
+ * @param now - The current time in milliseconds
+ * @returns The delay in milliseconds, or undefined if the server did not request one
+ */
+export function parseRetryAfter(headers: Record<string, string>, now: number = Date.now()): number | undefined {
+  const retryAfter = headers['retry-after'];
+
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = headers['x-ratelimit-reset'];
+
+  if (reset) {
+    // Jira Cloud sends an ISO 8601 timestamp, other gateways send epoch seconds
+    const epochSeconds = Number(reset);
+    const date = isNaN(epochSeconds) ? Date.parse(reset) : epochSeconds * 1000;
+
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Calculate the exponential backoff delay for a retry
+ * @param attempt - The number of the retry (starting at 1)
+ * @param options - The retry options
+ * @returns The delay in milliseconds
+ */
+export function getBackoffDelay(attempt: number, options: ResolvedRetryOptions): number {
+  const delay = Math.min(options.maxDelay, options.baseDelay * Math.pow(2, attempt - 1));
+
+  if (!options.jitter) {
+    return delay;
+  }
+
+  // Equal jitter: keep half of the delay and randomise the rest
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Work out whether a failed request should be retried and after how long
+ * @param error - The error from the failed request
+ * @param method - The HTTP method of the request
+ * @param attempt - The number of the retry that would be made (starting at 1)
+ * @param options - The retry options
+ * @returns The delay in milliseconds, or undefined if the request should not be retried
+ */
+export function getRetryDelay(
+  error: JiraError,
+  method: string,
+  attempt: number,
+  options: ResolvedRetryOptions
+): number | undefined {
+  if (attempt > options.maxRetries) {
+    return undefined;
+  }
+
+  if (!options.retryNonIdempotent && !IDEMPOTENT_METHODS.includes(method.toLowerCase())) {
+    return undefined;
+  }
+
+  // Without a response only transient network failures are worth repeating
+  const retryable = error.status === 0
+    ? error.code !== undefined && options.retryOnCodes.includes(error.code)
+    : options.retryOn.includes(error.status);
+
+  if (!retryable) {
+    return undefined;
+  }
+
+  const requested = parseRetryAfter(error.headers);
+
+  if (requested === undefined) {
+    return getBackoffDelay(attempt, options);
+  }
+
+  // Retrying before the server is ready would only burn another attempt
+  return requested <= options.maxDelay ? requested : undefined;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms - The number of milliseconds to wait
+ * @returns A promise that resolves after the delay
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,201 @@
+import { IssueValidationResult, JiraCreateMetaField, JiraFieldSchema } from '../types';
+import { createJiraError, JiraError } from './error';
+
+/**
+ * Fields identifying where an issue is created, which Jira checks before the create metadata
+ */
+const LOCATION_FIELDS = ['project', 'issuetype'];
+
+/**
+ * Properties identifying a value in `allowedValues`, in order of precedence
+ */
+const VALUE_KEYS = ['id', 'key', 'name', 'value'];
+
+/**
+ * Check issue fields against the create metadata of their project and issue type
+ * @param fields - The issue fields, keyed by field ID as sent to the API
+ * @param metaFields - The create metadata fields
+ * @returns The problems found, keyed by field ID like the `errors` of a {@link JiraError}
+ */
+export function validateIssueFields(
+  fields: Record<string, unknown>,
+  metaFields: JiraCreateMetaField[]
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const metaById = new Map(metaFields.map((field) => [field.fieldId, field]));
+
+  for (const field of metaFields) {
+    if (field.required && !field.hasDefaultValue && isEmpty(fields[field.fieldId])) {
+      errors[field.fieldId] = `${field.name} is required.`;
+    }
+  }
+
+  for (const [fieldId, value] of Object.entries(fields)) {
+    const field = metaById.get(fieldId);
+
+    if (!field) {
+      if (!LOCATION_FIELDS.includes(fieldId)) {
+        errors[fieldId] = `Field '${fieldId}' cannot be set. It is not on the appropriate screen, or unknown.`;
+      }
+      continue;
+    }
+
+    if (value === undefined || value === null || errors[fieldId]) {
+      continue;
+    }
+
+    const error = checkValue(field, value);
+
+    if (error) {
+      errors[fieldId] = error;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Create the error thrown when issue validation fails
+ * @param result - The failed validation result
+ * @returns A JiraError with status 400, shaped like the error Jira would return
+ */
+export function createValidationError(result: IssueValidationResult): JiraError {
+  return createJiraError(result, 400, 'Issue validation failed');
+}
+
+/**
+ * Check a field value against its type and allowed values
+ * @param field - The create metadata field
+ * @param value - The value, neither undefined nor null
+ * @returns The problem found, or undefined if the value is valid
+ */
+function checkValue(field: JiraCreateMetaField, value: unknown): string | undefined {
+  const schema = field.schema;
+
+  if (!schema) {
+    return undefined;
+  }
+
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) {
+      return `${field.name} must be a list.`;
+    }
+
+    const itemSchema: JiraFieldSchema | undefined = schema.items ? { type: schema.items } : undefined;
+
+    for (const item of value) {
+      const error = checkType(field.name, itemSchema, item) ?? checkAllowedValue(field, item);
+
+      if (error) {
+        return error;
+      }
+    }
+
+    return undefined;
+  }
+
+  return checkType(field.name, schema, value) ?? checkAllowedValue(field, value);
+}
+
+/**
+ * Check that a value has the type a field schema expects
+ * @param name - The field name
+ * @param schema - The field data type
+ * @param value - The value
+ * @returns The problem found, or undefined if the value has the expected type
+ */
+function checkType(name: string, schema: JiraFieldSchema | undefined, value: unknown): string | undefined {
+  switch (schema?.type) {
+    case undefined:
+    case 'any':
+      return undefined;
+    case 'string':
+      // Rich text fields take an ADF document in API v3
+      return typeof value === 'string' || isObject(value) ? undefined : `${name} must be a string.`;
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? undefined : `${name} must be a number.`;
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? undefined
+        : `${name} must be a date in the format YYYY-MM-DD.`;
+    case 'datetime':
+      return typeof value === 'string' && !isNaN(Date.parse(value))
+        ? undefined
+        : `${name} must be a date and time.`;
+    default:
+      return isObject(value) ? undefined : `${name} must be an object, e.g. { "id": "10000" }.`;
+  }
+}
+
+/**
+ * Check that a value is one of the allowed values of a field
+ * @param field - The create metadata field
+ * @param value - The value
+ * @returns The problem found, or undefined if the field accepts any value or the value is allowed
+ */
+function checkAllowedValue(field: JiraCreateMetaField, value: unknown): string | undefined {
+  if (!field.allowedValues || field.allowedValues.length === 0 || !isObject(value)) {
+    return undefined;
+  }
+
+  const allowed = field.allowedValues.find((candidate) => matchesValue(candidate, value));
+
+  if (!allowed) {
+    return `${field.name} does not allow the value ${describeValue(value)}.`;
+  }
+
+  const child = value.child;
+  const children = isObject(allowed) ? allowed.children : undefined;
+
+  if (isObject(child) && Array.isArray(children) && !children.some((candidate) => matchesValue(candidate, child))) {
+    return `${field.name} does not allow the value ${describeValue(child)} under ${describeValue(value)}.`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a value refers to an allowed value, by the first identifying property it sets
+ * @param candidate - The allowed value
+ * @param value - The value
+ * @returns Whether the value refers to the allowed value
+ */
+function matchesValue(candidate: unknown, value: Record<string, unknown>): boolean {
+  if (!isObject(candidate)) {
+    return false;
+  }
+
+  const key = VALUE_KEYS.find((name) => value[name] !== undefined);
+  return key !== undefined && String(candidate[key]) === String(value[key]);
+}
+
+/**
+ * Describe a value for an error message
+ * @param value - The value
+ * @returns The identifying property of the value, quoted
+ */
+function describeValue(value: Record<string, unknown>): string {
+  const key = VALUE_KEYS.find((name) => value[name] !== undefined);
+  return key ? `"${String(value[key])}"` : JSON.stringify(value);
+}
+
+/**
+ * Check whether a field value counts as not set
+ * @param value - The value
+ * @returns Whether the value is missing, null, blank or an empty list
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined
+    || value === null
+    || (typeof value === 'string' && value.trim() === '')
+    || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Check whether a value is a plain object
+ * @param value - The value
+ * @returns Whether the value is a non-null object that is not an array
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
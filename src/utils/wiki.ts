@@ -0,0 +1,714 @@
+import {
+  AdfBlockNode,
+  AdfDocument,
+  AdfInlineNode,
+  AdfListItem,
+  AdfMark,
+  AdfPanel,
+  AdfTableCell,
+  AdfTableRow
+} from '../types';
+import { createAdfDocument } from './adf';
+import { adfToMarkdown, markdownToAdf } from './markdown';
+
+/**
+ * Wiki markup delimiters and the mark each one applies
+ */
+const WIKI_MARKS: Record<string, AdfMark> = {
+  '*': { type: 'strong' },
+  '_': { type: 'em' },
+  '-': { type: 'strike' },
+  '+': { type: 'underline' },
+};
+
+/**
+ * Wiki markup panel macros and the ADF panel type each one maps to
+ */
+const PANEL_MACROS: Record<string, AdfPanel['attrs']['panelType']> = {
+  info: 'info',
+  note: 'note',
+  warning: 'warning',
+  tip: 'success',
+  panel: 'info',
+};
+
+/**
+ * HTML entity for a literal backslash, since an escaped backslash is a line break in wiki markup
+ */
+const BACKSLASH_ENTITY = '&#92;';
+
+const HEADING = /^\s*h([1-6])\.\s+(.*)$/;
+const BLOCKQUOTE = /^\s*bq\.\s+(.*)$/;
+const RULE = /^\s*-{4,}\s*$/;
+const LIST_ITEM = /^\s*([*#]+|-)\s+(.*)$/;
+const TABLE_ROW = /^\s*\|/;
+const CODE_MACRO = /^\s*\{(code|noformat)(?::([^}]*))?\}(.*)$/;
+const BLOCK_MACRO = /^\s*\{(quote|info|note|warning|tip|panel)(?::[^}]*)?\}(.*)$/;
+
+/**
+ * Convert Jira wiki markup to an ADF document
+ * @param wiki - The wiki markup
+ * @returns The ADF document
+ */
+export function wikiToAdf(wiki: string): AdfDocument {
+  return createAdfDocument(parseBlocks(wiki.replace(/\r\n?/g, '\n').split('\n')));
+}
+
+/**
+ * Convert an ADF document to Jira wiki markup
+ * @param doc - The ADF document
+ * @returns The wiki markup
+ */
+export function adfToWiki(doc: AdfDocument): string {
+  return renderBlocks(doc.content).trim();
+}
+
+/**
+ * Convert Markdown to Jira wiki markup
+ * @param markdown - The Markdown text
+ * @returns The wiki markup
+ */
+export function markdownToWiki(markdown: string): string {
+  return adfToWiki(markdownToAdf(markdown));
+}
+
+/**
+ * Convert Jira wiki markup to Markdown
+ * @param wiki - The wiki markup
+ * @returns The Markdown text
+ */
+export function wikiToMarkdown(wiki: string): string {
+  return adfToMarkdown(wikiToAdf(wiki));
+}
+
+/**
+ * Parse lines of wiki markup into block nodes
+ * @param lines - The lines to parse
+ * @returns The block nodes
+ */
+function parseBlocks(lines: string[]): AdfBlockNode[] {
+  const blocks: AdfBlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const code = CODE_MACRO.exec(line);
+
+    if (code) {
+      const [macro, language] = [code[1], code[2]?.split('|').find((param) => !param.includes('='))];
+      const body = collectMacro(lines, i, code[3], macro);
+      i = body.next;
+      blocks.push({
+        type: 'codeBlock',
+        ...(language ? { attrs: { language } } : {}),
+        ...(body.lines.length > 0 ? { content: [{ type: 'text', text: body.lines.join('\n') }] } : {}),
+      });
+      continue;
+    }
+
+    const macro = BLOCK_MACRO.exec(line);
+
+    if (macro) {
+      const body = collectMacro(lines, i, macro[2], macro[1]);
+      const content = parseBlocks(body.lines);
+      i = body.next;
+      blocks.push(macro[1] === 'quote'
+        ? { type: 'blockquote', content }
+        : { type: 'panel', attrs: { panelType: PANEL_MACROS[macro[1]] }, content });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+
+    if (heading) {
+      const level = parseInt(heading[1], 10) as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push({ type: 'heading', attrs: { level }, content: parseInline(heading[2].trim(), []) });
+      i++;
+      continue;
+    }
+
+    const quote = BLOCKQUOTE.exec(line);
+
+    if (quote) {
+      blocks.push({ type: 'blockquote', content: [{ type: 'paragraph', content: parseInline(quote[1], []) }] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      const rows: AdfTableRow[] = [];
+
+      while (i < lines.length && TABLE_ROW.test(lines[i])) {
+        rows.push(parseTableRow(lines[i]));
+        i++;
+      }
+
+      blocks.push({ type: 'table', content: rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const items: Array<{ markers: string; text: string }> = [];
+
+      while (i < lines.length && LIST_ITEM.test(lines[i])) {
+        const match = LIST_ITEM.exec(lines[i])!;
+        items.push({ markers: match[1] === '-' ? '*' : match[1], text: match[2] });
+        i++;
+      }
+
+      blocks.push(...buildLists(items, 0));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+
+    blocks.push({ type: 'paragraph', content: parseInline(paragraph.join('\n'), []) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Check whether a line starts a block other than a paragraph
+ * @param line - The line
+ * @returns Whether the line starts a new block
+ */
+function startsBlock(line: string): boolean {
+  return CODE_MACRO.test(line)
+    || BLOCK_MACRO.test(line)
+    || HEADING.test(line)
+    || BLOCKQUOTE.test(line)
+    || RULE.test(line)
+    || TABLE_ROW.test(line)
+    || LIST_ITEM.test(line);
+}
+
+/**
+ * Collect the body of a macro such as {code} or {quote}
+ * @param lines - The lines being parsed
+ * @param start - The index of the line that opens the macro
+ * @param rest - The text after the opening tag on the first line
+ * @param macro - The macro name
+ * @returns The body lines and the index of the first line after the macro
+ */
+function collectMacro(
+  lines: string[],
+  start: number,
+  rest: string,
+  macro: string
+): { lines: string[]; next: number } {
+  const closing = `{${macro}}`;
+  const body: string[] = [];
+  let text = rest;
+  let i = start;
+
+  for (;;) {
+    const end = text.indexOf(closing);
+
+    if (end >= 0) {
+      if (text.slice(0, end).trim() || body.length > 0) {
+        body.push(text.slice(0, end));
+      }
+
+      return { lines: trimBlankLines(body), next: i + 1 };
+    }
+
+    if (i > start || text.trim()) {
+      body.push(text);
+    }
+
+    i++;
+
+    if (i >= lines.length) {
+      return { lines: trimBlankLines(body), next: i };
+    }
+
+    text = lines[i];
+  }
+}
+
+/**
+ * Remove trailing blank lines
+ * @param lines - The lines
+ * @returns The lines without trailing blank lines
+ */
+function trimBlankLines(lines: string[]): string[] {
+  const result = [...lines];
+
+  while (result.length > 0 && !result[result.length - 1].trim()) {
+    result.pop();
+  }
+
+  return result;
+}
+
+/**
+ * Build nested lists from wiki list items
+ * @param items - The list items with their markers, e.g. "*#"
+ * @param depth - The nesting depth being built
+ * @returns The lists at this depth
+ */
+function buildLists(items: Array<{ markers: string; text: string }>, depth: number): AdfBlockNode[] {
+  const lists: AdfBlockNode[] = [];
+  let i = 0;
+
+  while (i < items.length) {
+    const ordered = items[i].markers[depth] === '#';
+    const listItems: AdfListItem[] = [];
+
+    while (i < items.length && (items[i].markers[depth] === '#') === ordered) {
+      const item = items[i];
+      const nested: Array<{ markers: string; text: string }> = [];
+      i++;
+
+      while (i < items.length && items[i].markers.length > depth + 1) {
+        nested.push(items[i]);
+        i++;
+      }
+
+      listItems.push({
+        type: 'listItem',
+        content: [
+          ...(item.markers.length === depth + 1 ? [{ type: 'paragraph' as const, content: parseInline(item.text, []) }] : []),
+          ...(nested.length > 0 ? buildLists(nested, depth + 1) : []),
+        ],
+      });
+
+      if (i < items.length && items[i].markers.length === depth + 1 && (items[i].markers[depth] === '#') !== ordered) {
+        break;
+      }
+    }
+
+    lists.push(ordered ? { type: 'orderedList', content: listItems } : { type: 'bulletList', content: listItems });
+  }
+
+  return lists;
+}
+
+/**
+ * Parse a row of a wiki table
+ * @param line - The table row
+ * @returns The table row
+ */
+function parseTableRow(line: string): AdfTableRow {
+  const cells: AdfTableCell[] = [];
+  const text = line.trim();
+  let i = 0;
+
+  while (i < text.length) {
+    const header = text.startsWith('||', i);
+    i += header ? 2 : 1;
+
+    let cell = '';
+    let depth = 0;
+
+    while (i < text.length && (depth > 0 || text[i] !== '|')) {
+      if (text[i] === '\\' && i + 1 < text.length) {
+        cell += text.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+
+      // Pipes inside links ([text|url]) do not end the cell
+      if (text[i] === '[') {
+        depth++;
+      } else if (text[i] === ']' && depth > 0) {
+        depth--;
+      }
+
+      cell += text[i];
+      i++;
+    }
+
+    if (i >= text.length && !cell.trim()) {
+      break;
+    }
+
+    cells.push({
+      type: header ? 'tableHeader' : 'tableCell',
+      content: [{ type: 'paragraph', content: parseInline(cell.trim(), []) }],
+    });
+  }
+
+  return { type: 'tableRow', content: cells };
+}
+
+/**
+ * Check whether a character is a boundary for wiki formatting
+ * @param ch - The character, or undefined at the start or end of the text
+ * @returns Whether the character is a boundary
+ */
+function isBoundary(ch: string | undefined): boolean {
+  return ch === undefined || /[\s.,;:!?()'"]/.test(ch);
+}
+
+/**
+ * Parse inline wiki markup into inline nodes
+ * @param text - The inline wiki markup
+ * @param marks - The marks applied to the enclosing text
+ * @returns The inline nodes
+ */
+function parseInline(text: string, marks: AdfMark[]): AdfInlineNode[] {
+  const nodes: AdfInlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = (): void => {
+    pushText(nodes, buffer, marks);
+    buffer = '';
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (text.startsWith('\\\\', i) || ch === '\n') {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      i += ch === '\n' ? 1 : 2;
+      continue;
+    }
+
+    if (ch === '\\' && i + 1 < text.length) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (text.startsWith(BACKSLASH_ENTITY, i)) {
+      buffer += '\\';
+      i += BACKSLASH_ENTITY.length;
+      continue;
+    }
+
+    if (text.startsWith('{{', i)) {
+      const close = text.indexOf('}}', i + 2);
+
+      if (close > i + 2) {
+        flush();
+        pushText(nodes, unescapeWiki(text.slice(i + 2, close)), [
+          ...marks.filter((mark) => mark.type === 'link'),
+          { type: 'code' },
+        ]);
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (ch === '{') {
+      // Inline macros such as {color:red} are dropped, keeping their content
+      const macro = /^\{(color|[*_+-])(?::[^}]*)?\}/.exec(text.slice(i));
+
+      if (macro) {
+        i += macro[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const close = text.indexOf(']', i + 1);
+
+      if (close > i + 1) {
+        flush();
+        nodes.push(...parseLink(text.slice(i + 1, close), marks));
+        i = close + 1;
+        continue;
+      }
+    }
+
+    const mark = WIKI_MARKS[ch];
+
+    if (mark && isBoundary(text[i - 1]) && text[i + 1] !== undefined && !/\s/.test(text[i + 1]) && text[i + 1] !== ch) {
+      const close = findClosingDelimiter(text, i + 1, ch);
+
+      if (close > i + 1) {
+        flush();
+        const inner = marks.some((existing) => existing.type === mark.type) ? marks : [...marks, mark];
+        nodes.push(...parseInline(text.slice(i + 1, close), inner));
+        i = close + 1;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Find the delimiter that closes wiki formatting
+ * @param text - The inline wiki markup
+ * @param from - The index after the opening delimiter
+ * @param delimiter - The delimiter
+ * @returns The index of the closing delimiter, or -1 if there is none
+ */
+function findClosingDelimiter(text: string, from: number, delimiter: string): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+
+    if (text[i] === '\n') {
+      return -1;
+    }
+
+    if (text[i] === delimiter && !/\s/.test(text[i - 1]) && isBoundary(text[i + 1])) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parse the content of a wiki link
+ * @param content - The text between the brackets
+ * @param marks - The marks applied to the enclosing text
+ * @returns The inline nodes for the link
+ */
+function parseLink(content: string, marks: AdfMark[]): AdfInlineNode[] {
+  if (content.startsWith('~')) {
+    const id = content.slice(1).replace(/^accountid:/, '');
+    return [{ type: 'mention', attrs: { id } }];
+  }
+
+  const separator = content.lastIndexOf('|');
+  const label = separator >= 0 ? content.slice(0, separator) : content;
+  const href = (separator >= 0 ? content.slice(separator + 1) : content).trim();
+
+  return parseInline(label, [...marks, { type: 'link', attrs: { href } }]);
+}
+
+/**
+ * Add text to a list of inline nodes, merging it with the previous text node if the marks match
+ * @param nodes - The inline nodes
+ * @param text - The text
+ * @param marks - The marks to apply
+ */
+function pushText(nodes: AdfInlineNode[], text: string, marks: AdfMark[]): void {
+  if (!text) {
+    return;
+  }
+
+  const previous = nodes[nodes.length - 1];
+
+  if (previous?.type === 'text' && JSON.stringify(previous.marks ?? []) === JSON.stringify(marks)) {
+    previous.text += text;
+    return;
+  }
+
+  nodes.push(marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text });
+}
+
+/**
+ * Remove backslash escapes from wiki markup
+ * @param text - The escaped text
+ * @returns The unescaped text
+ */
+function unescapeWiki(text: string): string {
+  return text.replace(/\\(.)|&#92;/g, (_match, ch?: string) => ch ?? '\\');
+}
+
+/**
+ * Render block nodes as wiki markup
+ * @param blocks - The block nodes
+ * @returns The wiki markup
+ */
+function renderBlocks(blocks: AdfBlockNode[]): string {
+  return blocks.map((block) => renderBlock(block, '')).join('\n\n');
+}
+
+/**
+ * Render a block node as wiki markup
+ * @param block - The block node
+ * @param listPrefix - The markers of the enclosing lists
+ * @returns The wiki markup
+ */
+function renderBlock(block: AdfBlockNode, listPrefix: string): string {
+  switch (block.type) {
+    case 'paragraph':
+      return renderInline(block.content ?? []);
+    case 'heading':
+      return `h${block.attrs.level}. ${renderInline(block.content ?? [])}`;
+    case 'bulletList':
+      return block.content.map((item) => renderListItem(item, `${listPrefix}*`)).join('\n');
+    case 'orderedList':
+      return block.content.map((item) => renderListItem(item, `${listPrefix}#`)).join('\n');
+    case 'codeBlock': {
+      const code = (block.content ?? []).map((node) => node.text).join('');
+      const language = block.attrs?.language;
+      return `{code${language ? `:${language}` : ''}}\n${code}\n{code}`;
+    }
+    case 'blockquote':
+      return `{quote}\n${renderBlocks(block.content)}\n{quote}`;
+    case 'panel': {
+      const macro = Object.keys(PANEL_MACROS).find((name) => PANEL_MACROS[name] === block.attrs.panelType) ?? 'panel';
+      return `{${macro}}\n${renderBlocks(block.content)}\n{${macro}}`;
+    }
+    case 'rule':
+      return '----';
+    case 'table':
+      return block.content.map((row) => row.content.map((cell) => {
+        const separator = cell.type === 'tableHeader' ? '||' : '|';
+        const text = renderBlocks(cell.content).replace(/\n+/g, ' \\\\ ').replace(/\|/g, '\\|') || ' ';
+        return `${separator}${text}`;
+      }).join('') + (row.content[row.content.length - 1]?.type === 'tableHeader' ? '||' : '|')).join('\n');
+  }
+}
+
+/**
+ * Render a list item as wiki markup
+ * @param item - The list item
+ * @param prefix - The list markers for the item
+ * @returns The wiki markup
+ */
+function renderListItem(item: AdfListItem, prefix: string): string {
+  const text: string[] = [];
+  const nested: string[] = [];
+
+  for (const block of item.content) {
+    if (block.type === 'bulletList' || block.type === 'orderedList') {
+      nested.push(renderBlock(block, prefix));
+    } else {
+      // Wiki list items hold a single line, so further blocks are joined with line breaks
+      text.push(renderBlock(block, prefix).replace(/\n/g, ' \\\\ '));
+    }
+  }
+
+  return [`${prefix} ${text.join(' \\\\ ')}`, ...nested].join('\n');
+}
+
+/**
+ * Order in which marks are opened, outermost first
+ */
+const MARK_ORDER = ['link', 'strong', 'em', 'strike', 'underline'];
+
+/**
+ * Render inline nodes as wiki markup
+ * @param nodes - The inline nodes
+ * @returns The wiki markup
+ */
+function renderInline(nodes: AdfInlineNode[]): string {
+  let output = '';
+  const open: Array<{ mark: AdfMark; close: string }> = [];
+
+  const closeTo = (depth: number): void => {
+    while (open.length > depth) {
+      output += open.pop()!.close;
+    }
+  };
+
+  for (const node of nodes) {
+    const marks = node.type === 'text'
+      ? (node.marks ?? [])
+        .filter((mark) => MARK_ORDER.includes(mark.type))
+        .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type))
+      : [];
+
+    // Keep the marks this node shares with the open ones, close the rest
+    let shared = 0;
+
+    while (shared < open.length && shared < marks.length && JSON.stringify(open[shared].mark) === JSON.stringify(marks[shared])) {
+      shared++;
+    }
+
+    closeTo(shared);
+
+    for (const mark of marks.slice(shared)) {
+      const [opening, close] = markDelimiters(mark);
+      output += opening;
+      open.push({ mark, close });
+    }
+
+    switch (node.type) {
+      case 'text':
+        output += node.marks?.some((mark) => mark.type === 'code')
+          ? `{{${node.text.replace(/[{}\\]/g, (ch) => (ch === '\\' ? BACKSLASH_ENTITY : `\\${ch}`))}}}`
+          : escapeWiki(node.text);
+        break;
+      case 'hardBreak':
+        output += '\n';
+        break;
+      case 'mention':
+        output += `[~accountid:${node.attrs.id}]`;
+        break;
+      case 'emoji':
+        output += node.attrs.text ?? node.attrs.shortName;
+        break;
+      case 'inlineCard':
+        output += `[${node.attrs.url}]`;
+        break;
+    }
+  }
+
+  closeTo(0);
+  return output;
+}
+
+/**
+ * Get the wiki markup delimiters for a mark
+ * @param mark - The mark
+ * @returns The opening and closing delimiters
+ */
+function markDelimiters(mark: AdfMark): [string, string] {
+  switch (mark.type) {
+    case 'link':
+      return ['[', `|${mark.attrs.href}]`];
+    case 'strong':
+      return ['*', '*'];
+    case 'em':
+      return ['_', '_'];
+    case 'strike':
+      return ['-', '-'];
+    case 'underline':
+      return ['+', '+'];
+    default:
+      return ['', ''];
+  }
+}
+
+/**
+ * Escape characters that wiki markup would treat as formatting
+ * @param text - The text
+ * @returns The escaped text
+ */
+function escapeWiki(text: string): string {
+  let output = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (ch === '\\') {
+      output += BACKSLASH_ENTITY;
+    } else if ('[]{}|'.includes(ch)) {
+      output += `\\${ch}`;
+    } else if (WIKI_MARKS[ch] && (isBoundary(text[i - 1]) !== isBoundary(text[i + 1]))) {
+      // Only delimiters that could open or close formatting need escaping
+      output += `\\${ch}`;
+    } else {
+      output += ch;
+    }
+  }
+
+  return output.replace(/^(\s*)(h[1-6]\.|bq\.)/, '$1\\$2');
+}